@@ -0,0 +1,69 @@
+create table if not exists "gtfs_feeds" (
+  "feed_id" text not null primary key,
+  "name" text not null,
+  "imported_at" text not null
+);
+
+create table if not exists "gtfs_stops" (
+  "feed_id" text not null,
+  "stop_id" text not null,
+  "stop_name" text not null,
+  "stop_lat" real not null,
+  "stop_lon" real not null,
+  primary key ("feed_id", "stop_id")
+);
+
+create table if not exists "gtfs_routes" (
+  "feed_id" text not null,
+  "route_id" text not null,
+  "route_name" text not null,
+  "route_type" integer not null,
+  primary key ("feed_id", "route_id")
+);
+
+create table if not exists "gtfs_trips" (
+  "feed_id" text not null,
+  "trip_id" text not null,
+  "route_id" text not null,
+  "service_id" text not null,
+  "trip_headsign" text,
+  "start_seconds" integer not null,
+  "end_seconds" integer not null,
+  primary key ("feed_id", "trip_id")
+);
+
+create index if not exists "gtfs_trips_window_idx"
+  on "gtfs_trips" ("start_seconds", "end_seconds");
+
+create table if not exists "gtfs_stop_times" (
+  "feed_id" text not null,
+  "trip_id" text not null,
+  "stop_sequence" integer not null,
+  "stop_id" text not null,
+  "arrival_seconds" integer not null,
+  "departure_seconds" integer not null,
+  primary key ("feed_id", "trip_id", "stop_sequence")
+);
+
+create table if not exists "gtfs_calendar" (
+  "feed_id" text not null,
+  "service_id" text not null,
+  "monday" integer not null,
+  "tuesday" integer not null,
+  "wednesday" integer not null,
+  "thursday" integer not null,
+  "friday" integer not null,
+  "saturday" integer not null,
+  "sunday" integer not null,
+  "start_date" text not null,
+  "end_date" text not null,
+  primary key ("feed_id", "service_id")
+);
+
+create table if not exists "gtfs_calendar_dates" (
+  "feed_id" text not null,
+  "service_id" text not null,
+  "date" text not null,
+  "exception_type" integer not null,
+  primary key ("feed_id", "service_id", "date")
+);
@@ -0,0 +1,6 @@
+create table if not exists "transit_preferences" (
+  "user_id" text primary key,
+  "route_preference" text not null,
+  "created_at" text not null,
+  "updated_at" text not null
+);
@@ -0,0 +1,20 @@
+alter table "gtfs_stops" add column "zone_id" text;
+
+create table if not exists "gtfs_fare_attributes" (
+  "feed_id" text not null,
+  "fare_id" text not null,
+  "price" integer not null,
+  "ic_price" integer,
+  primary key ("feed_id", "fare_id")
+);
+
+create table if not exists "gtfs_fare_rules" (
+  "feed_id" text not null,
+  "fare_id" text not null,
+  "route_id" text,
+  "origin_id" text,
+  "destination_id" text
+);
+
+create index if not exists "gtfs_fare_rules_feed_idx"
+  on "gtfs_fare_rules" ("feed_id");
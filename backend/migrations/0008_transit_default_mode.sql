@@ -0,0 +1,2 @@
+alter table "transit_preferences"
+  add column "default_mode" text not null default 'transit';
@@ -0,0 +1,15 @@
+create table if not exists "saved_places" (
+  "id" text not null primary key,
+  "user_id" text not null,
+  "name" text not null,
+  "aliases_json" text not null,
+  "address" text not null,
+  "lat" real,
+  "lon" real,
+  "is_default_origin" integer not null default 0,
+  "created_at" text not null,
+  "updated_at" text not null
+);
+
+create index if not exists "saved_places_user_idx"
+  on "saved_places" ("user_id");
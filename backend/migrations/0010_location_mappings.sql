@@ -0,0 +1,9 @@
+create table if not exists "location_mappings" (
+  "user_id" text not null,
+  "location_key" text not null,
+  "location" text not null,
+  "address" text not null,
+  "created_at" text not null,
+  "updated_at" text not null,
+  primary key ("user_id", "location_key")
+);
@@ -0,0 +1,10 @@
+create table if not exists "weather_preferences" (
+  "user_id" text primary key,
+  "umbrella_probability" real not null,
+  "umbrella_mm" real not null,
+  "folding_umbrella_probability" real not null,
+  "heatstroke_wbgt" real not null,
+  "cold_apparent_temperature" real not null,
+  "created_at" text not null,
+  "updated_at" text not null
+);
@@ -0,0 +1,19 @@
+create table if not exists "weather_geocode_cache" (
+  "provider" text not null,
+  "query_key" text not null,
+  "lat" real,
+  "lon" real,
+  "name" text,
+  "created_at" text not null,
+  primary key ("provider", "query_key")
+);
+
+create table if not exists "weather_forecast_cache" (
+  "provider" text not null,
+  "cell_key" text not null,
+  "date" text not null,
+  "issued_hour" text not null,
+  "hours_json" text not null,
+  "created_at" text not null,
+  primary key ("provider", "cell_key", "date")
+);
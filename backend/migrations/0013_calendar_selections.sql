@@ -0,0 +1,7 @@
+create table if not exists "calendar_selections" (
+  "user_id" text not null,
+  "calendar_id" text not null,
+  "position" integer not null,
+  "created_at" text not null,
+  primary key ("user_id", "calendar_id")
+);
@@ -0,0 +1 @@
+alter table "gtfs_feeds" add column "version_id" text;
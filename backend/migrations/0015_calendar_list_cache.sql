@@ -0,0 +1,5 @@
+create table if not exists "calendar_list_cache" (
+  "user_id" text not null primary key,
+  "calendars_json" text not null,
+  "created_at" text not null
+);
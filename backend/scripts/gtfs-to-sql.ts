@@ -0,0 +1,54 @@
+/**
+ * Turn an unzipped GTFS feed into SQL for `wrangler d1 execute --file`.
+ *
+ * Real timetables are too large to import through a Worker request, so the
+ * same statements `POST /transit/gtfs/import` would run are written out
+ * here and executed by wrangler instead:
+ *
+ *   pnpm gtfs:sql keihan 京阪電車 ./gtfs/keihan gtfs-keihan.sql
+ *   npx wrangler d1 execute AUTH_DB --remote --file gtfs-keihan.sql
+ */
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  planGtfsImport,
+  toSqlScript,
+} from "../src/features/transit/gtfs-import";
+
+const GTFS_FILES = [
+  "stops.txt",
+  "routes.txt",
+  "trips.txt",
+  "stop_times.txt",
+  "calendar.txt",
+  "calendar_dates.txt",
+  "fare_attributes.txt",
+  "fare_rules.txt",
+];
+
+const [feedId, name, directory, output] = process.argv.slice(2);
+if (!feedId || !/^[a-z0-9-]{1,40}$/.test(feedId) || !name || !directory) {
+  console.error(
+    "Usage: pnpm gtfs:sql <feedId (a-z, 0-9, -)> <name> <gtfs directory> [output.sql]",
+  );
+  process.exit(1);
+}
+
+const files: Record<string, string> = {};
+for (const file of GTFS_FILES) {
+  const path = join(directory, file);
+  if (existsSync(path)) {
+    files[file] = readFileSync(path, "utf8");
+  }
+}
+
+const { statements, summary } = planGtfsImport({ feedId, name, files });
+const sql = toSqlScript(statements);
+if (output) {
+  writeFileSync(output, sql);
+} else {
+  process.stdout.write(sql);
+}
+console.error(
+  `${summary.feedId}: ${summary.stops} stops, ${summary.routes} routes, ${summary.trips} trips, ${summary.stopTimes} stop times, ${summary.fares} fares`,
+);
@@ -5,9 +5,11 @@ import { registerAuthRoutes } from "./routes/auth-routes";
 import { registerBriefingRoutes } from "./routes/briefing-routes";
 import { registerCalendarRoutes } from "./routes/calendar-routes";
 import { registerMorningRoutineRoutes } from "./routes/morning-routine-routes";
+import { registerPlaceRoutes } from "./routes/place-routes";
 import { registerRootRoutes } from "./routes/root-routes";
 import { registerTaskRoutes } from "./routes/task-routes";
 import { registerTransitRoutes } from "./routes/transit-routes";
+import { registerWeatherRoutes } from "./routes/weather-routes";
 import { registerWorkflowRoutes } from "./routes/workflow-routes";
 import type { App } from "./types/app";
 
@@ -56,8 +58,10 @@ export function createApp(): App {
   registerBriefingRoutes(app);
   registerMorningRoutineRoutes(app);
   registerCalendarRoutes(app);
+  registerPlaceRoutes(app);
   registerTaskRoutes(app);
   registerTransitRoutes(app);
+  registerWeatherRoutes(app);
   registerWorkflowRoutes(app);
 
   return app;
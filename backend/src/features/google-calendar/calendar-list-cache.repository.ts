@@ -0,0 +1,55 @@
+import type { CalendarListEntry } from "./google-calendar.types";
+
+/** A calendarList entry before the user's selection is applied. */
+export type GoogleCalendar = Omit<CalendarListEntry, "selected">;
+
+type CalendarListRow = {
+  calendars_json: string;
+};
+
+/** The user's calendar list saved at or after `since` (ISO-8601), or null. */
+export async function readCachedCalendarList(
+  db: D1Database,
+  userId: string,
+  since: string,
+): Promise<GoogleCalendar[] | null> {
+  const row = await db
+    .prepare(
+      `
+        select calendars_json
+        from calendar_list_cache
+        where user_id = ? and created_at >= ?
+      `,
+    )
+    .bind(userId, since)
+    .first<CalendarListRow>();
+  if (!row) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(row.calendars_json) as GoogleCalendar[];
+  } catch {
+    return null;
+  }
+}
+
+/** One row per user: the latest list replaces the previous one. */
+export async function saveCachedCalendarList(
+  db: D1Database,
+  userId: string,
+  calendars: GoogleCalendar[],
+): Promise<void> {
+  await db
+    .prepare(
+      `
+        insert into calendar_list_cache (user_id, calendars_json, created_at)
+        values (?, ?, ?)
+        on conflict(user_id) do update set
+          calendars_json = excluded.calendars_json,
+          created_at = excluded.created_at
+      `,
+    )
+    .bind(userId, JSON.stringify(calendars), new Date().toISOString())
+    .run();
+}
@@ -0,0 +1,57 @@
+type SelectionRow = {
+  calendar_id: string;
+};
+
+/** Ids of the calendars the user included, in the order they chose. */
+export async function listSelectedCalendarIds(
+  db: D1Database,
+  userId: string,
+): Promise<string[]> {
+  const result = await db
+    .prepare(
+      `
+        select calendar_id
+        from calendar_selections
+        where user_id = ?
+        order by position
+      `,
+    )
+    .bind(userId)
+    .all<SelectionRow>();
+
+  return (result.results ?? []).map((row) => row.calendar_id);
+}
+
+/** Replace the user's selection with `calendarIds` (in that order). */
+export async function saveCalendarSelection(
+  db: D1Database,
+  userId: string,
+  calendarIds: string[],
+): Promise<void> {
+  const now = new Date().toISOString();
+  const insert = db.prepare(
+    `
+      insert into calendar_selections (
+        user_id,
+        calendar_id,
+        position,
+        created_at
+      )
+      values (?, ?, ?, ?)
+    `,
+  );
+
+  await db.batch([
+    db
+      .prepare(
+        `
+          delete from calendar_selections
+          where user_id = ?
+        `,
+      )
+      .bind(userId),
+    ...calendarIds.map((calendarId, position) =>
+      insert.bind(userId, calendarId, position, now),
+    ),
+  ]);
+}
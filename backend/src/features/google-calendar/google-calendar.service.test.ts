@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  mergeCalendarEvents,
+  toSourcedEvents,
+} from "./google-calendar.service";
+
+const work = { id: "work@example.com", color: "#9fe1e7" };
+const team = { id: "team@group.calendar.google.com", color: "#f83a22" };
+
+/** A Google Calendar API event on 2026-10-20 (JST clock). */
+function googleEvent(
+  id: string,
+  start: string,
+  extra: Record<string, unknown> = {},
+) {
+  return {
+    id,
+    summary: id,
+    start: { dateTime: `2026-10-20T${start}:00+09:00` },
+    end: { dateTime: `2026-10-20T${start}:00+09:00` },
+    ...extra,
+  };
+}
+
+function merged(
+  workItems: Record<string, unknown>[],
+  teamItems: Record<string, unknown>[],
+) {
+  return mergeCalendarEvents([
+    toSourcedEvents(workItems, work),
+    toSourcedEvents(teamItems, team),
+  ]).map((event) => `${event.id}@${event.calendarId}`);
+}
+
+describe("mergeCalendarEvents", () => {
+  it("keeps an invitation found in two calendars once, from the first", () => {
+    // Each calendar gives its copy a different event id
+    expect(
+      merged(
+        [googleEvent("w1", "10:00", { iCalUID: "standup@google.com" })],
+        [googleEvent("t1", "10:00", { iCalUID: "standup@google.com" })],
+      ),
+    ).toEqual(["w1@work@example.com"]);
+  });
+
+  it("keeps each occurrence of a recurring event", () => {
+    expect(
+      merged(
+        [googleEvent("w1", "10:00", { iCalUID: "standup@google.com" })],
+        [googleEvent("t1", "15:00", { iCalUID: "standup@google.com" })],
+      ),
+    ).toEqual(["w1@work@example.com", "t1@team@group.calendar.google.com"]);
+  });
+
+  it("compares start instants, not their notation", () => {
+    expect(
+      merged(
+        [googleEvent("w1", "10:00", { iCalUID: "standup@google.com" })],
+        [
+          {
+            ...googleEvent("t1", "10:00", { iCalUID: "standup@google.com" }),
+            start: { dateTime: "2026-10-20T01:00:00Z" },
+          },
+        ],
+      ),
+    ).toEqual(["w1@work@example.com"]);
+  });
+
+  it("falls back to the event id without an iCalUID", () => {
+    expect(
+      merged(
+        [googleEvent("same", "10:00"), googleEvent("other", "09:00")],
+        [googleEvent("same", "10:00")],
+      ),
+    ).toEqual(["other@work@example.com", "same@work@example.com"]);
+  });
+
+  it("orders all-day events from JST midnight and drops cancelled ones", () => {
+    expect(
+      merged(
+        [googleEvent("meeting", "08:00")],
+        [
+          { id: "holiday", start: { date: "2026-10-20" } },
+          googleEvent("cancelled", "07:00", { status: "cancelled" }),
+        ],
+      ),
+    ).toEqual([
+      "holiday@team@group.calendar.google.com",
+      "meeting@work@example.com",
+    ]);
+  });
+});
@@ -1,5 +1,17 @@
-import { createAuth } from "../../lib/auth";
-import type { CalendarEvent, TodayEventsResult } from "./google-calendar.types";
+import { createAuth, GOOGLE_CALENDAR_LIST_SCOPE } from "../../lib/auth";
+import { jstToday } from "./calendar-date";
+import {
+  type GoogleCalendar,
+  readCachedCalendarList,
+  saveCachedCalendarList,
+} from "./calendar-list-cache.repository";
+import { listSelectedCalendarIds } from "./calendar-selection.repository";
+import type {
+  CalendarEvent,
+  CalendarListEntry,
+  CalendarListResult,
+  TodayEventsResult,
+} from "./google-calendar.types";
 
 // ---------------------------------------------------------------------------
 // Token helpers
@@ -7,6 +19,12 @@ import type { CalendarEvent, TodayEventsResult } from "./google-calendar.types";
 
 const GOOGLE_PROVIDER_ID = "google";
 
+type GoogleToken = {
+  accessToken: string;
+  /** Scopes the user granted (as stored by Better Auth). */
+  scopes: string[];
+};
+
 /**
  * Retrieve a valid Google access token for the given user.
  *
@@ -17,7 +35,7 @@ const GOOGLE_PROVIDER_ID = "google";
 async function getGoogleAccessToken(
   env: Env,
   userId: string,
-): Promise<string | null> {
+): Promise<GoogleToken | null> {
   const auth = createAuth(env);
   try {
     const tokenPayload = await auth.api.getAccessToken({
@@ -35,19 +53,198 @@ async function getGoogleAccessToken(
       return null;
     }
 
-    return tokenPayload.accessToken;
+    return {
+      accessToken: tokenPayload.accessToken,
+      // Stored comma-separated, though some providers answer space-separated
+      scopes: (tokenPayload.scopes ?? []).flatMap((scope) =>
+        scope.split(/[\s,]+/u),
+      ),
+    };
   } catch (error) {
     console.error("Failed to get Google access token:", error);
     return null;
   }
 }
 
+// ---------------------------------------------------------------------------
+// Calendar list & selection
+// ---------------------------------------------------------------------------
+
+/** Calendars included in one briefing at most. */
+export const MAX_SELECTED_CALENDARS = 20;
+
+/** The calendar list is reused this long by the briefing. */
+const CALENDAR_LIST_CACHE_HOURS = 6;
+
+/**
+ * The user's calendar list, or null when it cannot be read. `reconnect`
+ * tells that it never will with this token: granted before the
+ * calendar-list scope was requested, or refused by Google.
+ */
+async function fetchCalendarList(
+  token: GoogleToken,
+): Promise<{ calendars: GoogleCalendar[] | null; reconnect: boolean }> {
+  if (!token.scopes.includes(GOOGLE_CALENDAR_LIST_SCOPE)) {
+    return { calendars: null, reconnect: true };
+  }
+
+  const res = await fetch(
+    "https://www.googleapis.com/calendar/v3/users/me/calendarList?maxResults=250",
+    { headers: { Authorization: `Bearer ${token.accessToken}` } },
+  );
+  if (!res.ok) {
+    console.error(
+      "Google Calendar list API error:",
+      res.status,
+      await res.text(),
+    );
+    return {
+      calendars: null,
+      reconnect: res.status === 401 || res.status === 403,
+    };
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Google calendarList response
+  const data = (await res.json()) as any;
+  const calendars: GoogleCalendar[] = (data.items ?? [])
+    // biome-ignore lint/suspicious/noExplicitAny: Google calendarList entry
+    .filter((item: any) => typeof item.id === "string" && !item.deleted)
+    // biome-ignore lint/suspicious/noExplicitAny: Google calendarList entry
+    .map((item: any) => ({
+      id: item.id as string,
+      summary:
+        (item.summaryOverride as string) ?? (item.summary as string) ?? item.id,
+      color: (item.backgroundColor as string) ?? null,
+      primary: item.primary === true,
+      accessRole: (item.accessRole as string) ?? "reader",
+    }));
+  return { calendars, reconnect: false };
+}
+
+/** Run a cache read / write; a broken cache only costs a Google call. */
+async function tryCache<T>(action: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await action();
+  } catch (error) {
+    console.error("Calendar list cache failed:", error);
+    return undefined;
+  }
+}
+
+/**
+ * The calendar list for the briefing: the one cached within the last
+ * `CALENDAR_LIST_CACHE_HOURS`, else fetched (and cached) again.
+ */
+async function loadCalendarList(
+  db: D1Database,
+  userId: string,
+  token: GoogleToken,
+): Promise<GoogleCalendar[] | null> {
+  const since = new Date(
+    Date.now() - CALENDAR_LIST_CACHE_HOURS * 60 * 60 * 1000,
+  ).toISOString();
+  const cached = await tryCache(() =>
+    readCachedCalendarList(db, userId, since),
+  );
+  if (cached) {
+    return cached;
+  }
+
+  const { calendars } = await fetchCalendarList(token);
+  if (calendars) {
+    await tryCache(() => saveCachedCalendarList(db, userId, calendars));
+  }
+  return calendars;
+}
+
+/**
+ * The saved selection, or the primary calendar until the user chose. When
+ * the calendar list is known, calendars no longer in it are dropped.
+ */
+function resolveSelectedIds(
+  saved: string[],
+  calendars: GoogleCalendar[] | null,
+): string[] {
+  const primaryId =
+    calendars?.find((calendar) => calendar.primary)?.id ?? "primary";
+  if (saved.length === 0) {
+    return [primaryId];
+  }
+  if (!calendars) {
+    return saved;
+  }
+
+  const known = new Set(calendars.map((calendar) => calendar.id));
+  const selected = saved.filter((id) => id === "primary" || known.has(id));
+  return selected.length > 0 ? selected : [primaryId];
+}
+
+/**
+ * `{ calendarIds: string[] }` → the unique, trimmed ids (1–20), or null
+ * when the body does not match.
+ */
+export function validateCalendarSelection(body: unknown): string[] | null {
+  if (!body || typeof body !== "object" || !("calendarIds" in body)) {
+    return null;
+  }
+  const { calendarIds } = body;
+  if (
+    !Array.isArray(calendarIds) ||
+    !calendarIds.every((id) => typeof id === "string")
+  ) {
+    return null;
+  }
+
+  const ids = [
+    ...new Set(
+      calendarIds.map((id: string) => id.trim()).filter((id) => id.length > 0),
+    ),
+  ];
+  return ids.length > 0 && ids.length <= MAX_SELECTED_CALENDARS ? ids : null;
+}
+
+/**
+ * The authenticated user's Google calendars, each marked with whether it
+ * feeds the briefing. Always fetched from Google (and cached for the
+ * briefing), so the picker shows calendars added since. Empty when Google
+ * cannot be reached, with `reconnectRequired` when it cannot be until the
+ * user connects Google again.
+ */
+export async function listCalendars(
+  env: Env,
+  userId: string,
+): Promise<CalendarListResult> {
+  const token = await getGoogleAccessToken(env, userId);
+  if (!token) {
+    return { calendars: [], reconnectRequired: true };
+  }
+
+  const [{ calendars, reconnect }, saved] = await Promise.all([
+    fetchCalendarList(token),
+    listSelectedCalendarIds(env.AUTH_DB, userId),
+  ]);
+  if (!calendars) {
+    return { calendars: [], reconnectRequired: reconnect };
+  }
+
+  await tryCache(() => saveCachedCalendarList(env.AUTH_DB, userId, calendars));
+  const selected = new Set(resolveSelectedIds(saved, calendars));
+  return {
+    calendars: calendars.map((calendar) => ({
+      ...calendar,
+      selected: selected.has(calendar.id),
+    })),
+    reconnectRequired: false,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Calendar API
 // ---------------------------------------------------------------------------
 
 /**
- * Fetch today's events from the authenticated user's primary Google Calendar.
+ * Fetch today's events from the calendars the authenticated user selected
+ * (their primary Google Calendar until they choose).
  *
  * Time zone is fixed to `Asia/Tokyo` (JST).
  */
@@ -55,18 +252,54 @@ export async function getTodayEvents(
   env: Env,
   userId: string,
 ): Promise<TodayEventsResult> {
-  // Compute "today" in JST
-  const jstNow = new Date(Date.now() + 9 * 60 * 60 * 1000);
-  const date = jstNow.toISOString().split("T")[0] as string;
+  return getEventsForDate(env, userId, jstToday());
+}
 
-  const accessToken = await getGoogleAccessToken(env, userId);
-  if (!accessToken) {
-    return { date, events: [], earliestEvent: null };
-  }
+/** A Google event with the key it is de-duplicated on. */
+export type SourcedEvent = {
+  event: CalendarEvent;
+  /** iCalUID (shared by the copies of one invitation) + start. */
+  key: string;
+};
 
-  const timeMin = new Date(`${date}T00:00:00+09:00`).toISOString();
-  const timeMax = new Date(`${date}T23:59:59+09:00`).toISOString();
+/** The `items` of a Google events response, cancelled events left out. */
+export function toSourcedEvents(
+  // biome-ignore lint/suspicious/noExplicitAny: Google Calendar API items
+  items: any[],
+  calendar: { id: string; color: string | null },
+): SourcedEvent[] {
+  return (
+    items
+      // biome-ignore lint/suspicious/noExplicitAny: Google Calendar event
+      .filter((item: any) => item.status !== "cancelled")
+      // biome-ignore lint/suspicious/noExplicitAny: Google Calendar event
+      .map((item: any) => {
+        const start: string = item.start?.dateTime ?? item.start?.date ?? "";
+        return {
+          event: {
+            id: item.id as string,
+            summary: (item.summary as string) ?? "(無題)",
+            location: (item.location as string) ?? null,
+            description: (item.description as string) ?? null,
+            start,
+            end: item.end?.dateTime ?? item.end?.date ?? "",
+            isAllDay: !item.start?.dateTime,
+            calendarId: calendar.id,
+            calendarColor: calendar.color,
+          },
+          key: `${item.iCalUID ?? item.id}|${Date.parse(start)}`,
+        };
+      })
+  );
+}
 
+/** One calendar's events of the window, or [] when it cannot be read. */
+async function fetchCalendarEvents(
+  accessToken: string,
+  calendar: { id: string; color: string | null },
+  timeMin: string,
+  timeMax: string,
+): Promise<SourcedEvent[]> {
   const params = new URLSearchParams({
     timeMin,
     timeMax,
@@ -76,30 +309,85 @@ export async function getTodayEvents(
   });
 
   const res = await fetch(
-    `https://www.googleapis.com/calendar/v3/calendars/primary/events?${params}`,
+    `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendar.id)}/events?${params}`,
     { headers: { Authorization: `Bearer ${accessToken}` } },
   );
 
   if (!res.ok) {
     console.error("Google Calendar API error:", res.status, await res.text());
-    return { date, events: [], earliestEvent: null };
+    return [];
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: Google Calendar API response
   const data = (await res.json()) as any;
+  return toSourcedEvents(data.items ?? [], calendar);
+}
 
-  const events: CalendarEvent[] = (data.items ?? [])
-    // biome-ignore lint/suspicious/noExplicitAny: Google Calendar event
-    .filter((item: any) => item.status !== "cancelled")
-    // biome-ignore lint/suspicious/noExplicitAny: Google Calendar event
-    .map((item: any) => ({
-      id: item.id as string,
-      summary: (item.summary as string) ?? "(無題)",
-      location: (item.location as string) ?? null,
-      start: item.start?.dateTime ?? item.start?.date ?? "",
-      end: item.end?.dateTime ?? item.end?.date ?? "",
-      isAllDay: !item.start?.dateTime,
-    }));
+/** All-day events ("2026-02-22") start at JST midnight. */
+function eventStartMs(event: CalendarEvent): number {
+  return Date.parse(
+    event.isAllDay ? `${event.start}T00:00:00+09:00` : event.start,
+  );
+}
+
+/**
+ * Every calendar's events (in selection order) as one start-ordered list.
+ *
+ * An event found in several calendars (e.g. a meeting on both the work and
+ * a shared calendar) is kept once, from the calendar selected first.
+ */
+export function mergeCalendarEvents(
+  perCalendar: SourcedEvent[][],
+): CalendarEvent[] {
+  const seen = new Set<string>();
+  return perCalendar
+    .flat()
+    .filter(({ key }) => {
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ event }) => event)
+    .sort((a, b) => eventStartMs(a) - eventStartMs(b));
+}
+
+/**
+ * Fetch the events of one JST day ("YYYY-MM-DD") from every calendar the
+ * authenticated user selected (their primary Google Calendar until they
+ * choose), merged by `mergeCalendarEvents`.
+ */
+export async function getEventsForDate(
+  env: Env,
+  userId: string,
+  date: string,
+): Promise<TodayEventsResult> {
+  const token = await getGoogleAccessToken(env, userId);
+  if (!token) {
+    return { date, events: [], earliestEvent: null };
+  }
+
+  const timeMin = new Date(`${date}T00:00:00+09:00`).toISOString();
+  const timeMax = new Date(`${date}T23:59:59+09:00`).toISOString();
+
+  const [calendars, saved] = await Promise.all([
+    loadCalendarList(env.AUTH_DB, userId, token),
+    listSelectedCalendarIds(env.AUTH_DB, userId),
+  ]);
+  const colors = new Map(
+    (calendars ?? []).map((calendar) => [calendar.id, calendar.color]),
+  );
+  const perCalendar = await Promise.all(
+    resolveSelectedIds(saved, calendars).map((id) =>
+      fetchCalendarEvents(
+        token.accessToken,
+        { id, color: colors.get(id) ?? null },
+        timeMin,
+        timeMax,
+      ),
+    ),
+  );
+
+  const events = mergeCalendarEvents(perCalendar);
 
   const timedEvents = events.filter((e) => !e.isAllDay);
   const earliestEvent =
@@ -3,15 +3,21 @@ export type CalendarEvent = {
   id: string;
   summary: string;
   location: string | null;
+  /** Free-text notes (may carry a "#徒歩" style travel-mode tag). */
+  description: string | null;
   /** ISO-8601 datetime or date string. */
   start: string;
   /** ISO-8601 datetime or date string. */
   end: string;
   /** true for all-day events. */
   isAllDay: boolean;
+  /** Id of the calendar the event was read from. */
+  calendarId: string;
+  /** Background color of that calendar (e.g. "#9fe1e7"), or null. */
+  calendarColor: string | null;
 };
 
-/** Result of fetching today's events. */
+/** Result of fetching one day's events (today unless a date was asked for). */
 export type TodayEventsResult = {
   /** YYYY-MM-DD */
   date: string;
@@ -19,3 +25,27 @@ export type TodayEventsResult = {
   /** The earliest *timed* (non-all-day) event, or null. */
   earliestEvent: CalendarEvent | null;
 };
+
+/** One calendar of the user's Google calendar list. */
+export type CalendarListEntry = {
+  id: string;
+  summary: string;
+  /** Background color (e.g. "#9fe1e7"), or null. */
+  color: string | null;
+  /** true for the user's own (primary) calendar. */
+  primary: boolean;
+  /** owner · writer · reader · freeBusyReader */
+  accessRole: string;
+  /** true when its events feed the briefing. */
+  selected: boolean;
+};
+
+export type CalendarListResult = {
+  calendars: CalendarListEntry[];
+  /**
+   * true when Google has to be connected again before the list can be read
+   * (no token, or one granted before the calendar-list scope was requested).
+   * The briefing keeps reading the saved selection or the primary calendar.
+   */
+  reconnectRequired: boolean;
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { buildItinerary } from "./itinerary";
+import type { EventBriefing } from "./morning-briefing.types";
+
+function jstIso(clock: string): string {
+  return new Date(`2026-10-20T${clock}:00+09:00`).toISOString();
+}
+
+/** An event from `start` to `end` (JST clock) with only the leg fields set. */
+function briefing(
+  id: string,
+  start: string,
+  end: string,
+  transitMinutes: number | null,
+  disruptionDelayMinutes = 0,
+): EventBriefing {
+  return {
+    event: {
+      id,
+      summary: id,
+      location: `${id}の会場`,
+      description: null,
+      start: jstIso(start),
+      end: jstIso(end),
+      isAllDay: false,
+      calendarId: "primary",
+      calendarColor: null,
+    },
+    origin: "自宅",
+    destination: `${id}の会場`,
+    mode: "transit",
+    route: null,
+    routeError:
+      transitMinutes === null
+        ? { code: "UPSTREAM_ERROR", message: "経路を取得できませんでした" }
+        : null,
+    backupRoute: null,
+    backupNote: null,
+    earlierRoute: null,
+    earlierLeaveBy: null,
+    disruptions: [],
+    disruptionNotes: [],
+    disruptionDelayMinutes,
+    transitMinutes,
+    leaveAt: null,
+    leaveBy: null,
+    wakeUpBy: null,
+    slackMinutes: null,
+    lateRiskPercent: null,
+  };
+}
+
+describe("buildItinerary", () => {
+  it("starts the day at the current location without a gap", () => {
+    const [first] = buildItinerary([briefing("会議", "10:00", "11:00", 30)]);
+
+    expect(first).toMatchObject({
+      fromEventId: null,
+      toEventId: "会議",
+      travelMinutes: 30,
+      gapMinutes: null,
+      impossible: false,
+      note: null,
+    });
+  });
+
+  it("flags a connection that cannot be made in the gap", () => {
+    const [, second] = buildItinerary([
+      briefing("会議", "10:00", "11:00", 30),
+      briefing("ランチ", "12:00", "13:00", 65),
+    ]);
+
+    expect(second).toMatchObject({
+      fromEventId: "会議",
+      gapMinutes: 60,
+      impossible: true,
+      note: "11:00終了から移動65分 — 12:00開始に5分間に合いません",
+    });
+  });
+
+  it("counts reported line delays in the travel time", () => {
+    const [, onTime, delayed] = buildItinerary([
+      briefing("会議", "10:00", "11:00", 30),
+      briefing("ランチ", "12:00", "13:00", 60),
+      briefing("打合せ", "13:30", "14:30", 20, 15),
+    ]);
+
+    // Exactly the gap is still feasible
+    expect(onTime).toMatchObject({ impossible: false, note: null });
+    expect(delayed).toMatchObject({
+      travelMinutes: 35,
+      gapMinutes: 30,
+      impossible: true,
+    });
+  });
+
+  it("does not judge a leg whose route is unknown", () => {
+    const [, second] = buildItinerary([
+      briefing("会議", "10:00", "11:00", 30),
+      briefing("ランチ", "11:05", "12:00", null),
+    ]);
+
+    expect(second).toMatchObject({
+      travelMinutes: null,
+      gapMinutes: 5,
+      impossible: false,
+      note: "経路を取得できませんでした",
+    });
+  });
+});
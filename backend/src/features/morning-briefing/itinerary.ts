@@ -0,0 +1,53 @@
+import { formatJstClock } from "../transit/transit-time";
+import type { EventBriefing, ItineraryLeg } from "./morning-briefing.types";
+
+function minutesBetween(fromMs: number, toMs: number): number {
+  return Math.floor((toMs - fromMs) / (60 * 1000));
+}
+
+/**
+ * Chain start-ordered briefings into the day's legs.
+ *
+ * The first leg starts at currentLocation; every later one at the previous
+ * event's location. A connection is impossible when the previous event ends
+ * too late to cover the travel time before the next one starts.
+ */
+export function buildItinerary(briefings: EventBriefing[]): ItineraryLeg[] {
+  return briefings.map((briefing, index) => {
+    const previous = index > 0 ? briefings[index - 1] : undefined;
+    const travelMinutes =
+      briefing.transitMinutes === null
+        ? null
+        : briefing.transitMinutes + briefing.disruptionDelayMinutes;
+    const leg: ItineraryLeg = {
+      fromEventId: previous?.event.id ?? null,
+      toEventId: briefing.event.id,
+      origin: briefing.origin,
+      destination: briefing.destination,
+      travelMinutes,
+      gapMinutes: null,
+      impossible: false,
+      note: null,
+    };
+
+    const previousEndMs = previous ? Date.parse(previous.event.end) : NaN;
+    const startMs = Date.parse(briefing.event.start);
+    if (Number.isNaN(previousEndMs) || Number.isNaN(startMs)) {
+      return leg;
+    }
+    leg.gapMinutes = minutesBetween(previousEndMs, startMs);
+
+    // Without a route the travel time is unknown, not zero
+    if (travelMinutes === null) {
+      leg.note = "経路を取得できませんでした";
+      return leg;
+    }
+
+    const shortMinutes = travelMinutes - leg.gapMinutes;
+    if (shortMinutes > 0) {
+      leg.impossible = true;
+      leg.note = `${formatJstClock(previousEndMs)}終了から移動${travelMinutes}分 — ${formatJstClock(startMs)}開始に${shortMinutes}分間に合いません`;
+    }
+    return leg;
+  });
+}
@@ -1,14 +1,60 @@
-import { getTodayEvents } from "../google-calendar/google-calendar.service";
+import { jstToday } from "../google-calendar/calendar-date";
+import { getEventsForDate } from "../google-calendar/google-calendar.service";
 import type { CalendarEvent } from "../google-calendar/google-calendar.types";
-import { getTransitDirections } from "../transit/transit.service";
-import type { TransitRoute } from "../transit/transit.types";
-import { getWeather } from "../weather/weather.service";
-import type { WeatherInfo } from "../weather/weather.types";
+import { isLowConfidenceLocation } from "../places/location-confidence";
+import { listLocationMappings } from "../places/location-mapping.repository";
+import { listSavedPlaces } from "../places/place.repository";
+import type { LocationMapping, SavedPlace } from "../places/place.types";
+import { resolveLocation } from "../places/place-resolver";
+import {
+  disruptionDelayMinutes,
+  formatDisruption,
+  getLineDisruptions,
+  matchRouteDisruptions,
+} from "../transit/disruption.service";
+import type { LineDisruption } from "../transit/disruption.types";
+import { searchLatestDeparture } from "../transit/transit.service";
 import type {
+  Coordinates,
+  DepartureSearchResult,
+  RoutePreference,
+  TransitRoute,
+  TravelMode,
+} from "../transit/transit.types";
+import { getTransitPreferences } from "../transit/transit-preference.service";
+import { travelModeFromTags } from "../transit/travel-mode";
+import {
+  getWeatherWarnings,
+  isSevereWarning,
+  matchAreaWarnings,
+} from "../weather/warning.service";
+import {
+  adviseClothing,
+  clothingThresholdsFromEnv,
+  getWeather,
+  getWeatherTimeline,
+} from "../weather/weather.service";
+import type {
+  ClothingAdvice,
+  OutdoorWalk,
+  WeatherInfo,
+  WeatherPoint,
+  WeatherPreferences,
+  WeatherTimeline,
+  WeatherWindow,
+} from "../weather/weather.types";
+import { getWeatherPreferences } from "../weather/weather-preference.service";
+import { buildItinerary } from "./itinerary";
+import type {
+  DailyFare,
   EventBriefing,
   MorningBriefingRequest,
   MorningBriefingResult,
+  RainShift,
+  ReturnTrip,
 } from "./morning-briefing.types";
+import { suggestRainShift } from "./rain-shift";
+import { buildReturnTrip, pickLastBriefing } from "./return-trip";
 
 type CacheRow = {
   payload_json: string;
@@ -20,9 +66,11 @@ type CacheRow = {
 
 const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
 
-function jstNow(): Date {
-  return new Date(Date.now() + JST_OFFSET_MS);
-}
+/** Furthest day ahead a briefing can target (forecasts stay useful). */
+export const MAX_BRIEFING_DAYS_AHEAD = 7;
+
+/** Start of a day without events when the briefing is for another day. */
+const OTHER_DAY_START_HHMM = "07:00";
 
 /** "HH:mm" in JST from a UTC Date. */
 function toJstHHmm(d: Date): string {
@@ -32,6 +80,11 @@ function toJstHHmm(d: Date): string {
   return `${h}:${m}`;
 }
 
+/** "YYYY-MM-DDTHH:mm" in JST from a UTC Date — how weather slots are keyed. */
+function toJstDateTime(d: Date): string {
+  return new Date(d.getTime() + JST_OFFSET_MS).toISOString().slice(0, 16);
+}
+
 /** Parse an ISO-8601 datetime → minutes-since-midnight in JST. */
 function toJstMinutes(iso: string): number {
   const d = new Date(iso);
@@ -40,16 +93,6 @@ function toJstMinutes(iso: string): number {
   return jst.getUTCHours() * 60 + jst.getUTCMinutes();
 }
 
-/** Subtract `minutes` from a JST minutes-since-midnight value → "HH:mm". */
-function subtractMinutes(jstMinOfDay: number, minutes: number): string {
-  const total = (((jstMinOfDay - minutes) % 1440) + 1440) % 1440;
-  const h = Math.floor(total / 60)
-    .toString()
-    .padStart(2, "0");
-  const m = (total % 60).toString().padStart(2, "0");
-  return `${h}:${m}`;
-}
-
 // ---------------------------------------------------------------------------
 // Late-risk engine
 // ---------------------------------------------------------------------------
@@ -58,80 +101,447 @@ function subtractMinutes(jstMinOfDay: number, minutes: number): string {
  * Compute a late-risk percentage (0–100).
  *
  * Model:
- *   slackMinutes = (event start minutes) − (now minutes) − transitMinutes − prepMinutes
+ *   slackMinutes = (departure of the route arriving by event start
+ *                   − reported line delays) − now
  *
  *   slack >= 15 min  →  0%  (comfortable)
  *   slack <= −10 min → 100% (basically late)
- *   In between       → linear 0–100 + a flat 10% transit-delay buffer
+ *   In between       → linear 0–100 + a flat 10% delay buffer for modes
+ *                      that depend on trains / traffic (none for walk and
+ *                      bicycle)
+ *
+ * When a line of the route is disrupted the buffer rises to 30% and the
+ * risk never drops below it: reported delays tend to grow. A weather
+ * warning (警報) along the trip adds another 20% the same way, for every
+ * mode — trains run slow and walking takes longer in a storm.
  *
  * This is intentionally simple and deterministic — no ML, no history needed,
  * yet gives useful "urgency" feedback.
  */
-function computeLateRisk(slackMinutes: number): number {
+function computeLateRisk(
+  slackMinutes: number,
+  mode: TravelMode,
+  disrupted: boolean,
+  severeWeather: boolean,
+): number {
   const COMFORTABLE = 15; // minutes of margin considered "safe"
   const HOPELESS = -10; // at this point you're late
-  const TRANSIT_BUFFER = 10; // flat % added to account for delays
+  const SELF_PACED = mode === "walk" || mode === "bicycle";
+  // flat % added for delays
+  const TRANSIT_BUFFER = disrupted ? 30 : SELF_PACED ? 0 : 10;
+  const WEATHER_BUFFER = severeWeather ? 20 : 0;
+  // floor that holds however early you leave
+  const MINIMUM = (disrupted ? TRANSIT_BUFFER : 0) + WEATHER_BUFFER;
 
-  if (slackMinutes >= COMFORTABLE) return 0;
   if (slackMinutes <= HOPELESS) return 100;
+  if (slackMinutes >= COMFORTABLE) return MINIMUM;
 
   // Linear from 0% (at COMFORTABLE) to 90% (at HOPELESS)
   const range = COMFORTABLE - HOPELESS; // 25
   const raw = ((COMFORTABLE - slackMinutes) / range) * 90;
-  const withBuffer = raw + TRANSIT_BUFFER;
-  return Math.min(100, Math.max(0, Math.round(withBuffer)));
+  const withBuffer = raw + TRANSIT_BUFFER + WEATHER_BUFFER;
+  return Math.min(100, Math.max(MINIMUM, Math.round(withBuffer)));
 }
 
 // ---------------------------------------------------------------------------
 // Briefing builder (per event)
 // ---------------------------------------------------------------------------
 
+function firstLine(route: TransitRoute): string | null {
+  return (
+    route.steps.find((step) => step.transitDetails)?.transitDetails?.line ??
+    null
+  );
+}
+
+/** "JR京都線遅延時は阪急京都線で9:05発" */
+function describeBackup(
+  route: TransitRoute | null,
+  backup: TransitRoute | null,
+): string | null {
+  const mainLine = route ? firstLine(route) : null;
+  const backupLine = backup ? firstLine(backup) : null;
+  if (!backup || !mainLine || !backupLine) {
+    return null;
+  }
+  return `${mainLine}遅延時は${backupLine}で${backup.departureTime}発`;
+}
+
+/** Inputs shared by every event of one briefing. */
+type BriefingContext = {
+  currentLocation: string;
+  /** Exact position behind `currentLocation`, when the request gave one. */
+  currentCoordinates: Coordinates | null;
+  prepMinutes: number;
+  preference: RoutePreference;
+  /** Mode for events without a mode tag. */
+  defaultMode: TravelMode;
+  /** Saved places — locations naming one ("会社") route to its address. */
+  places: SavedPlace[];
+  /** What the user told us ambiguous locations ("会議室A") mean. */
+  mappings: LocationMapping[];
+};
+
+/** The part of the context that names and locates places. */
+type PlaceContext = Pick<
+  BriefingContext,
+  "currentLocation" | "currentCoordinates" | "places" | "mappings"
+>;
+
+/**
+ * What the live feeds report at the moment a briefing is read. Applied on
+ * top of the cached briefing, never stored with it.
+ */
+type LiveStatus = {
+  disruptions: LineDisruption[];
+  /** A 警報 / 特別警報 is in force somewhere along the day's trip. */
+  severeWeather: boolean;
+};
+
+/** Before the live feeds are read. */
+const NO_LIVE_STATUS: LiveStatus = { disruptions: [], severeWeather: false };
+
+function addressOf(context: PlaceContext, location: string): string {
+  return resolveLocation(context.places, location, context.mappings).address;
+}
+
+/** A saved place's coordinates when known, else the address to geocode. */
+function weatherLocationOf(
+  context: PlaceContext,
+  location: string,
+): string | WeatherPoint {
+  const { address, place } = resolveLocation(
+    context.places,
+    location,
+    context.mappings,
+  );
+  return place && place.lat !== null && place.lon !== null
+    ? { name: place.name, lat: place.lat, lon: place.lon }
+    : address;
+}
+
+/** Where the day starts — its coordinates when the request gave them. */
+function originWeatherLocation(context: PlaceContext): string | WeatherPoint {
+  return context.currentCoordinates
+    ? { name: context.currentLocation, ...context.currentCoordinates }
+    : weatherLocationOf(context, context.currentLocation);
+}
+
+/**
+ * Coordinates of where the day starts — the request's, else its saved
+ * place's — so the way home never depends on geocoding its name.
+ */
+function originCoordinates(context: PlaceContext): Coordinates | null {
+  const origin = originWeatherLocation(context);
+  return typeof origin === "string"
+    ? null
+    : { lat: origin.lat, lon: origin.lon };
+}
+
+/**
+ * Every place and hour the user is outside: both ends of each move (leaving
+ * home, arriving, moving between events) and of the way home. Without any
+ * move, the current location at the `idle` time.
+ */
+function buildWeatherWindows(
+  context: BriefingContext,
+  briefings: EventBriefing[],
+  returnTrip: ReturnTrip | null,
+  idle: Pick<WeatherWindow, "label" | "time">,
+): WeatherWindow[] {
+  const windows: WeatherWindow[] = [];
+  briefings.forEach((briefing, index) => {
+    // No move when the previous event is at the same place
+    if (!briefing.route && !briefing.routeError) {
+      return;
+    }
+    // Without a route only the arrival (by event start) is known
+    if (briefing.leaveAt !== null) {
+      windows.push({
+        label: index === 0 ? "出発時" : "移動時",
+        location:
+          index === 0
+            ? originWeatherLocation(context)
+            : weatherLocationOf(context, briefing.origin),
+        time: toJstDateTime(new Date(briefing.leaveAt)),
+      });
+    }
+    windows.push({
+      label: index === 0 ? "到着時" : "移動時",
+      location: weatherLocationOf(context, briefing.destination),
+      time: toJstDateTime(
+        new Date(briefing.route?.arrivalAt ?? briefing.event.start),
+      ),
+    });
+  });
+
+  if (returnTrip) {
+    const leaveAt = returnTrip.route?.departureAt ?? returnTrip.exitAt;
+    const arriveAt = returnTrip.route?.arrivalAt ?? leaveAt;
+    if (leaveAt && arriveAt) {
+      windows.push(
+        {
+          label: "帰宅時",
+          location: weatherLocationOf(context, returnTrip.origin),
+          time: toJstDateTime(new Date(leaveAt)),
+        },
+        {
+          label: "帰宅時",
+          location: originWeatherLocation(context),
+          time: toJstDateTime(new Date(arriveAt)),
+        },
+      );
+    }
+  }
+
+  return windows.length > 0
+    ? windows
+    : [{ ...idle, location: originWeatherLocation(context) }];
+}
+
+/**
+ * Walking steps of a route, timed from its departure. Walks before the
+ * first ride are at `from`, the others at `to`.
+ */
+function routeWalks(
+  route: TransitRoute,
+  from: string | WeatherPoint,
+  to: string | WeatherPoint,
+): OutdoorWalk[] {
+  const walks: OutdoorWalk[] = [];
+  let clockMs = Date.parse(route.departureAt);
+  let ridden = false;
+  for (const step of route.steps) {
+    if (step.mode === "WALKING" && step.durationMinutes > 0) {
+      walks.push({
+        location: ridden ? to : from,
+        time: toJstDateTime(new Date(clockMs)),
+        minutes: step.durationMinutes,
+      });
+    }
+    ridden ||= step.mode !== "WALKING";
+    clockMs += step.durationMinutes * 60 * 1000;
+  }
+  return walks;
+}
+
+/** Every walk of the day: to each event, then home. */
+function buildOutdoorWalks(
+  context: BriefingContext,
+  briefings: EventBriefing[],
+  returnTrip: ReturnTrip | null,
+): OutdoorWalk[] {
+  const walks = briefings.flatMap((briefing, index) =>
+    briefing.route
+      ? routeWalks(
+          briefing.route,
+          index === 0
+            ? originWeatherLocation(context)
+            : weatherLocationOf(context, briefing.origin),
+          weatherLocationOf(context, briefing.destination),
+        )
+      : [],
+  );
+  if (returnTrip?.route) {
+    walks.push(
+      ...routeWalks(
+        returnTrip.route,
+        weatherLocationOf(context, returnTrip.origin),
+        originWeatherLocation(context),
+      ),
+    );
+  }
+  return walks;
+}
+
+/**
+ * Event locations (unique, in start order) that neither a saved place nor a
+ * learned mapping explains and that probably geocoded to the wrong place.
+ */
+function findUnconfirmedLocations(
+  context: BriefingContext,
+  briefings: EventBriefing[],
+): string[] {
+  const unconfirmed: string[] = [];
+  for (const briefing of briefings) {
+    const { place, mapping } = resolveLocation(
+      context.places,
+      briefing.destination,
+      context.mappings,
+    );
+    if (
+      !place &&
+      !mapping &&
+      !unconfirmed.includes(briefing.destination) &&
+      isLowConfidenceLocation(briefing.destination, briefing.routeError)
+    ) {
+      unconfirmed.push(briefing.destination);
+    }
+  }
+  return unconfirmed;
+}
+
+/** No move needed — the previous event is at the same place. */
+const SAME_PLACE: DepartureSearchResult = {
+  routes: [],
+  bestRoute: null,
+  backupRoute: null,
+  error: null,
+  earlierRoute: null,
+};
+
 async function buildEventBriefing(
-  apiKey: string,
-  currentLocation: string,
+  env: Env,
+  context: BriefingContext,
   event: CalendarEvent,
-  prepMinutes: number,
-  nowMinutes: number,
+  origin: string,
+  originCoordinates: Coordinates | null,
 ): Promise<EventBriefing> {
+  const { preference } = context;
   const destination = event.location as string; // caller guarantees non-null
 
-  // Ask Google Directions for transit route arriving by event start time
-  const transit = await getTransitDirections(apiKey, {
-    origin: currentLocation,
-    destination,
-    arrivalTime: event.start, // arrive by event start
-  });
+  // "#自転車" etc. in the title / description overrides the user's default
+  const mode =
+    travelModeFromTags(event.summary, event.description) ?? context.defaultMode;
+
+  // Latest departure still arriving by event start, probed against the
+  // time-of-day durations (no move when the previous event is at the same
+  // place)
+  const originAddress = addressOf(context, origin);
+  const destinationAddress = addressOf(context, destination);
+  const transit =
+    normalizeLocationKey(originAddress) ===
+    normalizeLocationKey(destinationAddress)
+      ? SAME_PLACE
+      : await searchLatestDeparture(env, {
+          origin: originAddress,
+          originCoordinates: originCoordinates ?? undefined,
+          destination: destinationAddress,
+          arrivalTime: event.start, // arrive by event start
+          preference,
+          mode,
+        });
 
   const route: TransitRoute | null = transit.bestRoute;
-  const transitMinutes = route?.durationMinutes ?? 0;
-
-  // Event start in JST minutes-since-midnight
-  const eventStartMin = toJstMinutes(event.start);
+  const backupRoute = transit.backupRoute;
+  const earlierRoute = transit.earlierRoute;
+
+  return timeBriefing(
+    {
+      event,
+      origin,
+      destination,
+      mode,
+      route,
+      routeError: transit.error,
+      backupRoute,
+      backupNote: describeBackup(route, backupRoute),
+      earlierRoute,
+      earlierLeaveBy: earlierRoute
+        ? toJstHHmm(new Date(Date.parse(earlierRoute.departureAt)))
+        : null,
+      disruptions: [],
+      disruptionNotes: [],
+      disruptionDelayMinutes: 0,
+      transitMinutes: null,
+      leaveAt: null,
+      leaveBy: null,
+      wakeUpBy: null,
+      slackMinutes: null,
+      lateRiskPercent: null,
+    },
+    context.prepMinutes,
+    NO_LIVE_STATUS,
+  );
+}
 
-  // Recommended departure = event start − transit duration
-  const leaveByMin = eventStartMin - transitMinutes;
-  const leaveBy = subtractMinutes(eventStartMin, transitMinutes);
+/**
+ * Time a briefing from its route: the delays `live` reports on its lines
+ * move the departure earlier, and slack and late risk count from now.
+ * Without a route (`routeError`) the times stay unknown.
+ */
+function timeBriefing(
+  briefing: EventBriefing,
+  prepMinutes: number,
+  live: LiveStatus,
+): EventBriefing {
+  const { event, mode, route } = briefing;
+
+  // Delays / suspensions reported on the lines this route rides
+  const disruptions = matchRouteDisruptions(route, live.disruptions);
+  const delayMinutes = disruptionDelayMinutes(disruptions);
+
+  const timed: EventBriefing = {
+    ...briefing,
+    disruptions,
+    disruptionNotes: disruptions.map(formatDisruption),
+    disruptionDelayMinutes: delayMinutes,
+    transitMinutes: null,
+    leaveAt: null,
+    leaveBy: null,
+    wakeUpBy: null,
+    slackMinutes: null,
+    lateRiskPercent: null,
+  };
+  // Without a route the departure is unknown — no time is made up for it
+  if (briefing.routeError) {
+    return timed;
+  }
 
-  // Recommended wake-up = departure − prep time
-  const wakeUpBy = subtractMinutes(eventStartMin, transitMinutes + prepMinutes);
+  // Recommended departure = the latest feasible departure arriving by event
+  // start (event start itself when no move is needed), moved earlier by the
+  // reported delays
+  const leaveAtMs =
+    Date.parse(route?.departureAt ?? event.start) - delayMinutes * 60 * 1000;
+  const leaveAt = new Date(leaveAtMs);
 
   // Slack = how many minutes you have until you MUST leave
-  const slackMinutes = leaveByMin - nowMinutes;
-
-  const lateRiskPercent = computeLateRisk(slackMinutes);
+  const slackMinutes = Math.floor((leaveAtMs - Date.now()) / (60 * 1000));
 
   return {
-    event,
-    destination,
-    route,
-    transitMinutes,
-    leaveBy,
-    wakeUpBy,
+    ...timed,
+    transitMinutes: route?.durationMinutes ?? 0,
+    leaveAt: leaveAt.toISOString(),
+    leaveBy: toJstHHmm(leaveAt),
+    // Recommended wake-up = departure − prep time
+    wakeUpBy: toJstHHmm(new Date(leaveAtMs - prepMinutes * 60 * 1000)),
     slackMinutes,
-    lateRiskPercent,
+    lateRiskPercent: computeLateRisk(
+      slackMinutes,
+      mode,
+      disruptions.length > 0,
+      live.severeWeather,
+    ),
   };
 }
 
+/** The earliest briefing with a known departure — the one to act on first. */
+function pickUrgent(briefings: EventBriefing[]): EventBriefing | null {
+  return briefings.find((briefing) => briefing.leaveAt !== null) ?? null;
+}
+
+/** Every briefing route of the day and the way home. */
+function sumDailyFare(
+  briefings: EventBriefing[],
+  returnTrip: ReturnTrip | null,
+): DailyFare {
+  const total: DailyFare = { ticketYen: 0, icYen: 0, routesWithoutFare: 0 };
+  const routes = [
+    ...briefings.map((briefing) => briefing.route),
+    returnTrip?.route ?? null,
+  ];
+  for (const route of routes) {
+    if (!route) continue;
+    if (!route.fare) {
+      total.routesWithoutFare++;
+      continue;
+    }
+    total.ticketYen += route.fare.ticketYen;
+    total.icYen += route.fare.icYen ?? route.fare.ticketYen;
+  }
+  return total;
+}
+
 // ---------------------------------------------------------------------------
 // Main entry point
 // ---------------------------------------------------------------------------
@@ -141,27 +551,30 @@ function formatJstDate(jstDate: Date): string {
 }
 
 /**
- * Cache slots:
+ * Cache slot of a briefing of `date` ("YYYY-MM-DD", JST), e.g.
+ * "2026-02-23@2026-02-22T23". Briefings are recomputed at:
  *   - 05:00 update slot
  *   - 23:00 update slot
  *
- * Between 00:00-04:59, we still use the previous day's 23:00 slot.
+ * Between 00:00-04:59, we still use the previous day's 23:00 slot — but
+ * always keyed on the briefed date, so the night-before briefing of today
+ * is reused and yesterday's never is.
  */
-function getCacheSlotKey(nowUtc: Date): string {
+function getCacheSlotKey(nowUtc: Date, date: string): string {
   const jst = new Date(nowUtc.getTime() + JST_OFFSET_MS);
   const hour = jst.getUTCHours();
-  const date = formatJstDate(jst);
+  const today = formatJstDate(jst);
 
   if (hour >= 23) {
-    return `${date}@23`;
+    return `${date}@${today}T23`;
   }
 
   if (hour >= 5) {
-    return `${date}@05`;
+    return `${date}@${today}T05`;
   }
 
   const prev = new Date(jst.getTime() - 24 * 60 * 60 * 1000);
-  return `${formatJstDate(prev)}@23`;
+  return `${date}@${formatJstDate(prev)}T23`;
 }
 
 function normalizeLocationKey(value: string): string {
@@ -244,20 +657,66 @@ async function writeCache(
     .run();
 }
 
+/** "50/0.2/30/28/5" — the thresholds in `WeatherPreferences` order. */
+function weatherPreferenceKey(preferences: WeatherPreferences): string {
+  return [
+    preferences.umbrellaProbability,
+    preferences.umbrellaMm,
+    preferences.foldingUmbrellaProbability,
+    preferences.heatstrokeWbgt,
+    preferences.coldApparentTemperature,
+  ].join("/");
+}
+
+/**
+ * Drop every cached briefing of a user so that the next request recomputes
+ * it (called after settings that change the routes are saved).
+ */
+export async function clearMorningBriefingCache(
+  db: D1Database,
+  userId: string,
+): Promise<void> {
+  await db
+    .prepare(`DELETE FROM morning_briefing_cache WHERE user_id = ?1`)
+    .bind(userId)
+    .run();
+}
+
 async function computeMorningBriefing(
   env: Env,
   userId: string,
   req: MorningBriefingRequest,
+  weatherPreferences: WeatherPreferences,
 ): Promise<MorningBriefingResult> {
-  const now = jstNow();
   const nowHHmm = toJstHHmm(new Date()); // based on real UTC
-  const nowMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
-  const dateStr = now.toISOString().split("T")[0] as string;
+  const today = jstToday();
+  const dateStr = req.date ?? today;
+  // Without events, weather is checked from now — or from the morning of
+  // another day
+  const idle =
+    dateStr === today
+      ? { label: "現在", time: toJstDateTime(new Date()) }
+      : { label: "朝", time: `${dateStr}T${OTHER_DAY_START_HHMM}` };
 
   const prepMinutes = req.prepMinutes ?? 30;
 
-  // 1️⃣ Calendar
-  const calendar = await getTodayEvents(env, userId);
+  // 1️⃣ Calendar — operating status and weather warnings are live feeds,
+  // applied after the cache (see applyLiveStatus)
+  const [calendar, preferences, places, mappings] = await Promise.all([
+    getEventsForDate(env, userId, dateStr),
+    getTransitPreferences(env.AUTH_DB, userId),
+    listSavedPlaces(env.AUTH_DB, userId),
+    listLocationMappings(env.AUTH_DB, userId),
+  ]);
+  const context: BriefingContext = {
+    currentLocation: req.currentLocation,
+    currentCoordinates: req.currentCoordinates ?? null,
+    prepMinutes,
+    preference: preferences.routePreference,
+    defaultMode: preferences.defaultMode,
+    places,
+    mappings,
+  };
 
   // Separate events with / without location
   const withLocation = calendar.events.filter(
@@ -267,60 +726,182 @@ async function computeMorningBriefing(
     (e) => e.isAllDay || !e.location || e.location.trim().length === 0,
   );
 
-  // 2️⃣ Transit + risk for each event with a location (in parallel)
-  const apiKey = env.GOOGLE_MAPS_API_KEY;
-  const briefings: EventBriefing[] = apiKey
-    ? await Promise.all(
-        withLocation.map((event) =>
-          buildEventBriefing(
-            apiKey,
-            req.currentLocation,
-            event,
-            prepMinutes,
-            nowMinutes,
-          ),
-        ),
-      )
-    : withLocation.map((event) => ({
-        event,
-        destination: event.location as string,
-        route: null,
-        transitMinutes: 0,
-        leaveBy: "--:--",
-        wakeUpBy: "--:--",
-        slackMinutes: 0,
-        lateRiskPercent: 0,
-      }));
-
   // Sort by event start time (earliest first)
-  briefings.sort((a, b) => {
-    const aMin = toJstMinutes(a.event.start);
-    const bMin = toJstMinutes(b.event.start);
+  withLocation.sort((a, b) => {
+    const aMin = toJstMinutes(a.start);
+    const bMin = toJstMinutes(b.start);
     return aMin - bMin;
   });
 
-  // The first (earliest) briefing is the most urgent
-  const urgent = briefings.length > 0 ? (briefings[0] ?? null) : null;
+  // 2️⃣ Transit + risk for each event with a location (in parallel) — the
+  // first from currentLocation (its coordinates when known), the next ones
+  // from the previous event
+  const briefings: EventBriefing[] = await Promise.all(
+    withLocation.map((event, index) => {
+      const previous = withLocation[index - 1];
+      return buildEventBriefing(
+        env,
+        context,
+        event,
+        previous?.location ?? context.currentLocation,
+        previous ? null : context.currentCoordinates,
+      );
+    }),
+  );
 
-  // 3️⃣ Weather — check at the departure location around the leave-by time
+  // The first (earliest) briefing with a known departure is the most urgent
+  const urgent = pickUrgent(briefings);
+
+  // Way home (and last train) from the event that ends last
+  const last = pickLastBriefing(briefings);
+  const lastAddress = last ? addressOf(context, last.destination) : null;
+  const homeAddress = addressOf(context, context.currentLocation);
+  let returnTrip: ReturnTrip | null = null;
+  if (
+    last &&
+    lastAddress &&
+    normalizeLocationKey(lastAddress) !== normalizeLocationKey(homeAddress)
+  ) {
+    returnTrip = await buildReturnTrip(
+      env,
+      last,
+      lastAddress,
+      homeAddress,
+      originCoordinates(context),
+      context.preference,
+    );
+  }
+
+  // 3️⃣ Weather on that day — umbrella for every place and hour the user is
+  // outside, heat / UV / pollen while walking, and hour by hour at the first
+  // destination from departure until the last event ends
+  const timelineLocation: string | WeatherPoint = urgent
+    ? weatherLocationOf(context, urgent.destination)
+    : originWeatherLocation(context);
+  const dayStart = urgent?.leaveAt
+    ? toJstDateTime(new Date(urgent.leaveAt))
+    : idle.time;
+  const dayEnd = last ? toJstDateTime(new Date(last.event.end)) : dayStart;
   let weather: WeatherInfo | null = null;
+  let weatherTimeline: WeatherTimeline | null = null;
   try {
-    const weatherLocation = urgent?.destination ?? req.currentLocation;
-    const weatherTime = urgent?.leaveBy ?? nowHHmm;
-    weather = await getWeather(weatherLocation, weatherTime, env);
+    [weather, weatherTimeline] = await Promise.all([
+      getWeather(
+        buildWeatherWindows(context, briefings, returnTrip, idle),
+        env,
+        {
+          walks: buildOutdoorWalks(context, briefings, returnTrip),
+          preferences: weatherPreferences,
+        },
+      ),
+      getWeatherTimeline(timelineLocation, dayStart, dayEnd, env),
+    ]);
   } catch {
     // Never let weather break the briefing
     weather = null;
+    weatherTimeline = null;
   }
 
+  // Clothing for the day's temperature range, wind and rain
+  const clothing: ClothingAdvice | null = weatherTimeline
+    ? adviseClothing(weatherTimeline.hours, weather?.umbrellaNeeded ?? false, {
+        ...clothingThresholdsFromEnv(env),
+        coatApparentTemperature: weatherPreferences.coldApparentTemperature,
+      })
+    : null;
+
   return {
     date: dateStr,
     now: nowHHmm,
+    currentLocation: req.currentLocation,
     totalEvents: calendar.events.length,
     briefings,
     urgent,
     eventsWithoutLocation: withoutLocation,
+    itinerary: buildItinerary(briefings),
+    returnTrip,
+    unconfirmedLocations: findUnconfirmedLocations(context, briefings),
+    weatherWarnings: [],
+    rainShift: null,
+    dailyFare: sumDailyFare(briefings, returnTrip),
     weather,
+    weatherTimeline,
+    clothing,
+  };
+}
+
+/**
+ * Bring a (possibly cached) briefing up to the moment it is read: today's
+ * operating status moves departures earlier, today's weather warnings along
+ * the trip raise the late risk, slack and late risk count from now, and the
+ * minute-level nowcast may find a dry departure for the urgent event. The
+ * cache keeps the briefing without them, so a delay or a 警報 issued after
+ * 05:00 still reaches the 05:00 slot.
+ */
+async function applyLiveStatus(
+  env: Env,
+  userId: string,
+  req: MorningBriefingRequest & { prepMinutes: number },
+  result: MorningBriefingResult,
+): Promise<MorningBriefingResult> {
+  // The feeds only know the present
+  const isToday = result.date === jstToday();
+  const [disruptions, warnings, places, mappings] = isToday
+    ? await Promise.all([
+        getLineDisruptions(env),
+        getWeatherWarnings(env),
+        listSavedPlaces(env.AUTH_DB, userId),
+        listLocationMappings(env.AUTH_DB, userId),
+      ])
+    : [[], [], [], []];
+  const context: PlaceContext = {
+    currentLocation: req.currentLocation,
+    currentCoordinates: req.currentCoordinates ?? null,
+    places,
+    mappings,
+  };
+
+  // Weather warnings where the day starts and at every event location
+  const weatherWarnings = matchAreaWarnings(
+    warnings,
+    [
+      context.currentLocation,
+      ...result.briefings.map((briefing) => briefing.destination),
+    ].flatMap((location) => [location, addressOf(context, location)]),
+  );
+  const live: LiveStatus = {
+    disruptions,
+    severeWeather: weatherWarnings.some(isSevereWarning),
+  };
+
+  const briefings = result.briefings.map((briefing) =>
+    timeBriefing(briefing, req.prepMinutes, live),
+  );
+  const urgent = pickUrgent(briefings);
+
+  // The nowcast only reaches a few hours ahead
+  let rainShift: RainShift | null = null;
+  if (urgent && isToday) {
+    try {
+      rainShift = await suggestRainShift(
+        env,
+        originWeatherLocation(context),
+        urgent,
+      );
+    } catch {
+      // Never let weather break the briefing
+      rainShift = null;
+    }
+  }
+
+  return {
+    ...result,
+    now: toJstHHmm(new Date()),
+    briefings,
+    urgent,
+    itinerary: buildItinerary(briefings),
+    weatherWarnings,
+    rainShift,
   };
 }
 
@@ -329,9 +910,26 @@ async function computeMorningBriefing(
  *
  * Flow:
  *   1. Fetch today's Google Calendar events
- *   2. For each event **with a location**, query Google Directions (transit)
- *   3. Compute departure time, wake-up time, slack, late-risk
- *   4. Return a sorted list + the most urgent item
+ *   2. For each event **with a location**, query the transit providers
+ *      (GTFS timetable router, Google DRIVE estimate as fallback) from the
+ *      previous event's location (currentLocation for the first) and rank
+ *      the alternatives by the user's route preference
+ *   3. Match the route's lines against the operating-status feed, and the
+ *      day's places against the weather-warning feed
+ *   4. Compute departure time, wake-up time, slack, late-risk — and an
+ *      earlier, dry departure within the slack when the nowcast has rain
+ *      at the urgent one
+ *   5. Chain the events into itinerary legs, flagging connections that
+ *      cannot be made in time
+ *   6. Route home from the event that ends last and check the last train
+ *   7. Flag event locations that probably geocoded to the wrong place
+ *      (locations are resolved through saved places and the user's learned
+ *      mappings before routing)
+ *   8. Return a sorted list + the most urgent item
+ *
+ * Steps 1–7 are cached per 05:00 / 23:00 slot. The operating status,
+ * weather warnings, slack and nowcast of steps 3–5 are applied again on
+ * every read (applyLiveStatus).
  */
 export async function getMorningBriefing(
   env: Env,
@@ -339,8 +937,18 @@ export async function getMorningBriefing(
   req: MorningBriefingRequest,
 ): Promise<MorningBriefingResult> {
   const prepMinutes = req.prepMinutes ?? 30;
-  const slotKey = getCacheSlotKey(new Date());
-  const locationKey = normalizeLocationKey(req.currentLocation);
+  const slotKey = getCacheSlotKey(new Date(), req.date ?? jstToday());
+  const weatherPreferences = await getWeatherPreferences(
+    env.AUTH_DB,
+    userId,
+    env,
+  );
+  // Coordinates rounded to ~100 m: nearby positions share a cache entry;
+  // changed weather thresholds get a new one
+  const originKey = req.currentCoordinates
+    ? `${normalizeLocationKey(req.currentLocation)}@${req.currentCoordinates.lat.toFixed(3)},${req.currentCoordinates.lon.toFixed(3)}`
+    : normalizeLocationKey(req.currentLocation);
+  const locationKey = `${originKey}|${weatherPreferenceKey(weatherPreferences)}`;
 
   if (!req.forceRefresh) {
     const cached = await readCache(
@@ -351,14 +959,16 @@ export async function getMorningBriefing(
       prepMinutes,
     );
     if (cached) {
-      return cached;
+      return applyLiveStatus(env, userId, { ...req, prepMinutes }, cached);
     }
   }
 
-  const computed = await computeMorningBriefing(env, userId, {
-    ...req,
-    prepMinutes,
-  });
+  const computed = await computeMorningBriefing(
+    env,
+    userId,
+    { ...req, prepMinutes },
+    weatherPreferences,
+  );
 
   await writeCache(
     env.AUTH_DB,
@@ -369,5 +979,5 @@ export async function getMorningBriefing(
     computed,
   );
 
-  return computed;
+  return applyLiveStatus(env, userId, { ...req, prepMinutes }, computed);
 }
@@ -1,19 +1,44 @@
 import type { CalendarEvent } from "../google-calendar/google-calendar.types";
-import type { TransitRoute } from "../transit/transit.types";
-import type { WeatherInfo } from "../weather/weather.types";
+import type { LineDisruption } from "../transit/disruption.types";
+import type {
+  Coordinates,
+  TransitError,
+  TransitRoute,
+  TravelMode,
+} from "../transit/transit.types";
+import type { WeatherWarning } from "../weather/warning.types";
+import type {
+  ClothingAdvice,
+  WeatherInfo,
+  WeatherTimeline,
+} from "../weather/weather.types";
 
 // ---------------------------------------------------------------------------
 // Request
 // ---------------------------------------------------------------------------
 
 export type MorningBriefingRequest = {
-  /** User's current location (address or place name, e.g. "大阪市北区中崎西2-4-12"). */
+  /**
+   * User's current location (address or place name, e.g. "大阪市北区中崎西2-4-12"),
+   * or the id / name / alias of a saved place (e.g. "自宅").
+   */
   currentLocation: string;
+  /**
+   * Exact current position (browser Geolocation API). Routing and weather
+   * start here and `currentLocation` is only its display name.
+   */
+  currentCoordinates?: Coordinates;
   /**
    * Minutes the user needs to get ready before leaving.
    * Default: 30
    */
   prepMinutes?: number;
+  /**
+   * JST day to brief ("YYYY-MM-DD"), e.g. tomorrow for the night-before
+   * check. Calendar, routes and weather all target it; operating status and
+   * weather warnings (live feeds) are only applied to today. Default: today.
+   */
+  date?: string;
   /**
    * Force bypass cache and recompute briefing immediately.
    * Used when user explicitly presses "更新".
@@ -29,21 +54,60 @@ export type MorningBriefingRequest = {
 export type EventBriefing = {
   /** The calendar event this briefing is for. */
   event: CalendarEvent;
+  /**
+   * Where the route starts — `currentLocation` for the first event, the
+   * previous event's location for the following ones.
+   */
+  origin: string;
   /** Destination extracted from the event (location field). */
   destination: string;
-  /** Best transit route from currentLocation → destination. */
+  /** Travel mode used — the event's "#徒歩" etc. tag, else the user's default. */
+  mode: TravelMode;
+  /** Best transit route from origin → destination (null when they match). */
   route: TransitRoute | null;
-  /** Transit duration in minutes. */
-  transitMinutes: number;
-  /** Recommended departure time (HH:mm, JST). */
-  leaveBy: string;
+  /**
+   * Why `route` is null when a move was needed (NOT_CONFIGURED,
+   * GEOCODE_FAILED, NO_ROUTE, UPSTREAM_ERROR). When set, the travel time,
+   * departure, wake-up, slack and late risk below are unknown (null).
+   */
+  routeError: TransitError | null;
+  /** Alternative on other lines, for when the main line is delayed. */
+  backupRoute: TransitRoute | null;
+  /** One-line backup hint (e.g. "JR京都線遅延時は阪急京都線で9:05発"), or null. */
+  backupNote: string | null;
+  /**
+   * The next-earlier safe option — leaving before `route` and arriving at
+   * least 10 minutes before the event starts — or null.
+   */
+  earlierRoute: TransitRoute | null;
+  /** Departure of `earlierRoute` (HH:mm, JST), or null. */
+  earlierLeaveBy: string | null;
+  /** Operating-status notices matching the lines of `route`. */
+  disruptions: LineDisruption[];
+  /** One line per disruption (e.g. "JR京都線 遅延 15分"). */
+  disruptionNotes: string[];
+  /** Minutes `leaveBy` was moved earlier because of `disruptions`. */
+  disruptionDelayMinutes: number;
+  /**
+   * Transit duration in minutes (for the time of day the route runs), 0 when
+   * no move is needed, null with `routeError`.
+   */
+  transitMinutes: number | null;
+  /**
+   * Recommended departure (ISO-8601) — the latest feasible departure of the
+   * route that arrives by event start (or event start itself when no move is
+   * needed), minus `disruptionDelayMinutes`. Null with `routeError`.
+   */
+  leaveAt: string | null;
+  /** Recommended departure time (HH:mm, JST) — leaveAt in JST. */
+  leaveBy: string | null;
   /** Recommended wake-up time (HH:mm, JST) — leaveBy minus prepMinutes. */
-  wakeUpBy: string;
+  wakeUpBy: string | null;
   /**
    * Minutes of slack (positive = you have spare time, negative = already late).
-   * Based on current time vs leaveBy.
+   * Based on current time vs leaveAt.
    */
-  slackMinutes: number;
+  slackMinutes: number | null;
   /**
    * Estimated late risk as a percentage (0–100).
    *
@@ -51,31 +115,166 @@ export type EventBriefing = {
    *   - 0% when slackMinutes >= 15 (comfortable margin)
    *   - 100% when slackMinutes <= -10 (almost certainly late)
    *   - Linear interpolation in between, with a 10% buffer penalty
-   *     for transit (delays happen)
+   *     for transit / taxi / car (delays happen; none for walk and
+   *     bicycle) — 30%, and at least 30% overall, when a line of the
+   *     route is disrupted
+   *   - +20% (and at least 20%) when a 警報 / 特別警報 is in force along
+   *     the day's trip
+   *
+   * Null with `routeError` (without a departure there is no slack).
+   */
+  lateRiskPercent: number | null;
+};
+
+// ---------------------------------------------------------------------------
+// Itinerary
+// ---------------------------------------------------------------------------
+
+/** One move of the day: to an event from the previous place. */
+export type ItineraryLeg = {
+  /** Event the leg leaves from, or null when it starts at currentLocation. */
+  fromEventId: string | null;
+  /** Event the leg arrives at. */
+  toEventId: string;
+  origin: string;
+  destination: string;
+  /**
+   * Travel minutes, including reported line delays (null when the route of
+   * the leg is unknown).
+   */
+  travelMinutes: number | null;
+  /**
+   * Minutes between the end of the previous event and the start of this
+   * one, or null for the first leg.
+   */
+  gapMinutes: number | null;
+  /**
+   * true when previous end + travelMinutes is after this event's start
+   * (never set when the route of the leg is unknown).
+   */
+  impossible: boolean;
+  /** e.g. "11:00終了から移動65分 — 12:00開始に5分間に合いません", or null. */
+  note: string | null;
+};
+
+/** Trip home from the event that ends last. */
+export type ReturnTrip = {
+  /** Event the trip leaves from. */
+  fromEventId: string;
+  /** Location of that event. */
+  origin: string;
+  /** Home — the briefing's currentLocation. */
+  destination: string;
+  mode: TravelMode;
+  /** Best route leaving when the event ends, or null. */
+  route: TransitRoute | null;
+  /** Why `route` is null. */
+  routeError: TransitError | null;
+  /**
+   * Last train (終電) home for transit events ending 20:00 or later, or null
+   * when not checked / unknown (only timetable providers know it).
    */
-  lateRiskPercent: number;
+  lastTrain: TransitRoute | null;
+  /** Latest time (ISO-8601) to leave the event to catch `lastTrain`. */
+  exitAt: string | null;
+  /** `exitAt` as "H:mm" (JST). */
+  exitBy: string | null;
+  /** true when the event ends after `exitAt`. */
+  missesLastTrain: boolean;
+  /** e.g. "終電 23:41 梅田発、懇親会は23:10までに退出", or null. */
+  warning: string | null;
+};
+
+/**
+ * An earlier departure, within the slack, that walks out between showers
+ * when the minute-level nowcast has rain at `leaveBy`.
+ */
+export type RainShift = {
+  /** Suggested departure (ISO-8601). */
+  leaveAt: string;
+  /** `leaveAt` as "H:mm" (JST). */
+  leaveBy: string;
+  /** Minutes before the recommended departure. */
+  shiftMinutes: number;
+  /** e.g. "8:25に出れば雨を避けられます" */
+  note: string;
 };
 
 // ---------------------------------------------------------------------------
 // Full response
 // ---------------------------------------------------------------------------
 
+/** Sum of the fares of every briefing route of the day and the way home (yen). */
+export type DailyFare = {
+  /** Sum of ticket prices of the priced routes. */
+  ticketYen: number;
+  /** Sum of IC prices, using the ticket price where no IC price is known. */
+  icYen: number;
+  /** Routes without a fare (DRIVE estimates, unpriced feeds) — not included. */
+  routesWithoutFare: number;
+};
+
 export type MorningBriefingResult = {
-  /** YYYY-MM-DD (JST) */
+  /** YYYY-MM-DD (JST) — the day briefed. */
   date: string;
   /** Current time at the moment the briefing was computed (HH:mm, JST). */
   now: string;
+  /**
+   * Where the day starts, as shown to the user (the reverse-geocoded name
+   * when the request gave coordinates).
+   */
+  currentLocation: string;
   /** Total calendar events found today. */
   totalEvents: number;
   /** Events that have a location → briefing computed. */
   briefings: EventBriefing[];
   /**
-   * The most urgent briefing (earliest event with location).
+   * The most urgent briefing (earliest event with location and a known
+   * departure — events whose route failed are skipped).
    * This is the one the user should act on first.
    */
   urgent: EventBriefing | null;
   /** Events that have NO location (listed for awareness). */
   eventsWithoutLocation: CalendarEvent[];
-  /** Weather / umbrella info at the departure location around leave-by time. */
+  /** The located events chained in start order, one leg per briefing. */
+  itinerary: ItineraryLeg[];
+  /**
+   * Way home from the event that ends last, or null without located
+   * events (or when it is already at currentLocation).
+   */
+  returnTrip: ReturnTrip | null;
+  /**
+   * Event locations that probably geocoded to the wrong place (e.g.
+   * "会議室A"). The dashboard asks the user once what they mean and saves a
+   * location mapping, applied before routing from then on.
+   */
+  unconfirmedLocations: string[];
+  /**
+   * Weather warnings and advisories (警報・注意報) in force where the day
+   * starts or at an event location. A 警報 raises every late risk.
+   * Empty for another day than today (the feed only knows the present).
+   */
+  weatherWarnings: WeatherWarning[];
+  /**
+   * Dry departure for `urgent` when rain is forecast minute by minute at
+   * its `leaveBy` (today only, and only when a nowcast is configured).
+   */
+  rainShift: RainShift | null;
+  /** Total transit fare of the day. */
+  dailyFare: DailyFare;
+  /**
+   * Umbrella decision over every place and hour the user is outside
+   * (leaving home, each move, the way home).
+   */
   weather: WeatherInfo | null;
+  /**
+   * Hourly temperature / wind / precipitation from the first departure
+   * until the last event ends (null when no forecast is available).
+   */
+  weatherTimeline: WeatherTimeline | null;
+  /**
+   * What to wear for the timeline's temperature range, wind and rain
+   * (e.g. "上着推奨・寒暖差大（8〜19°C）"), or null without a forecast.
+   */
+  clothing: ClothingAdvice | null;
 };
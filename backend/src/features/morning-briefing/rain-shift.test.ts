@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TransitRoute } from "../transit/transit.types";
+import { suggestRainShift } from "./rain-shift";
+
+/** The bundled nowcast: rain from 45 to 90 minutes after its anchor. */
+const env = { WEATHER_NOWCAST_PROVIDER: "fixture" };
+
+/** Known coordinates, so nothing is geocoded. */
+const home = { name: "自宅", lat: 34.7025, lon: 135.4959 };
+
+const NOW = "2026-10-20T08:00:00+09:00";
+
+function jstIso(clock: string): string {
+  return new Date(`2026-10-20T${clock}:00+09:00`).toISOString();
+}
+
+/** `walkMinutes` to the station, then the train. */
+function route(walkMinutes: number): TransitRoute {
+  return {
+    mode: "transit",
+    departureTime: "8:50",
+    arrivalTime: "9:30",
+    departureAt: jstIso("08:50"),
+    arrivalAt: jstIso("09:30"),
+    durationMinutes: 40,
+    summary: "Osaka Metro御堂筋線",
+    steps: [
+      {
+        mode: "WALKING",
+        instruction: "梅田駅まで歩く",
+        durationMinutes: walkMinutes,
+      },
+      {
+        mode: "TRANSIT",
+        instruction: "Osaka Metro御堂筋線",
+        durationMinutes: 40 - walkMinutes,
+        transitDetails: {
+          line: "Osaka Metro御堂筋線",
+          departureStop: "梅田",
+          arrivalStop: "天王寺",
+          numStops: 7,
+        },
+      },
+    ],
+    transferCount: 0,
+    walkingMinutes: walkMinutes,
+    firstBoardingStation: "梅田",
+    fare: null,
+    provider: "test",
+  };
+}
+
+describe("suggestRainShift", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(NOW));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("leaves before the shower when the slack allows it", async () => {
+    const shift = await suggestRainShift(env, home, {
+      route: route(10),
+      leaveAt: jstIso("08:50"),
+      slackMinutes: 40,
+    });
+
+    // Rain from 8:45: the 10-minute walk has to end by then
+    expect(shift).toEqual({
+      leaveAt: jstIso("08:35"),
+      leaveBy: "8:35",
+      shiftMinutes: 15,
+      note: "8:35に出れば雨を避けられます",
+    });
+  });
+
+  it("keeps the plan when the walk is already dry", async () => {
+    const shift = await suggestRainShift(env, home, {
+      route: route(10),
+      leaveAt: jstIso("08:20"),
+      slackMinutes: 40,
+    });
+
+    expect(shift).toBeNull();
+  });
+
+  it("does not shift further than the slack", async () => {
+    const shift = await suggestRainShift(env, home, {
+      route: route(10),
+      leaveAt: jstIso("08:50"),
+      slackMinutes: 10,
+    });
+
+    expect(shift).toBeNull();
+  });
+
+  it("needs a route, a departure and spare time", async () => {
+    await expect(
+      suggestRainShift(env, home, {
+        route: null,
+        leaveAt: jstIso("08:50"),
+        slackMinutes: 40,
+      }),
+    ).resolves.toBeNull();
+    await expect(
+      suggestRainShift(env, home, {
+        route: route(10),
+        leaveAt: jstIso("08:50"),
+        slackMinutes: 0,
+      }),
+    ).resolves.toBeNull();
+    // The route lookup failed: the departure is unknown
+    await expect(
+      suggestRainShift(env, home, {
+        route: route(10),
+        leaveAt: null,
+        slackMinutes: null,
+      }),
+    ).resolves.toBeNull();
+  });
+
+  it("says nothing without a nowcast", async () => {
+    const shift = await suggestRainShift({}, home, {
+      route: route(10),
+      leaveAt: jstIso("08:50"),
+      slackMinutes: 40,
+    });
+
+    expect(shift).toBeNull();
+  });
+});
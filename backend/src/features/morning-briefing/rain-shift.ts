@@ -0,0 +1,71 @@
+import type { TransitRoute } from "../transit/transit.types";
+import { formatJstClock } from "../transit/transit-time";
+import { getNowcast, suggestDryDeparture } from "../weather/nowcast.service";
+import { resolveWeatherPoint } from "../weather/weather.service";
+import type { WeatherPoint } from "../weather/weather.types";
+import type { EventBriefing, RainShift } from "./morning-briefing.types";
+
+/** Minimum time outside after leaving, even when the route starts riding. */
+const DOOR_TO_SHELTER_MINUTES = 5;
+
+/**
+ * Minutes outside right after leaving — the walk (or ride) before the first
+ * train, bus or car, or all of it when the route never boards one.
+ */
+function leadingOutdoorMinutes(route: TransitRoute): number {
+  let minutes = 0;
+  for (const step of route.steps) {
+    if (step.mode === "TRANSIT" || step.mode === "DRIVE") break;
+    minutes += step.durationMinutes;
+  }
+  return Math.max(DOOR_TO_SHELTER_MINUTES, minutes);
+}
+
+/**
+ * Suggest leaving a little earlier when the nowcast has rain at the urgent
+ * departure and an earlier start within its slack walks out in the dry.
+ */
+export async function suggestRainShift(
+  env: Pick<Env, "WEATHER_NOWCAST_PROVIDER"> &
+    Partial<
+      Pick<
+        Env,
+        | "WEATHER_DEFAULT_LAT"
+        | "WEATHER_DEFAULT_LON"
+        | "WEATHER_PROVIDER"
+        | "AUTH_DB"
+      >
+    >,
+  origin: string | WeatherPoint,
+  urgent: Pick<EventBriefing, "route" | "leaveAt" | "slackMinutes">,
+): Promise<RainShift | null> {
+  if (
+    !urgent.route ||
+    urgent.leaveAt === null ||
+    urgent.slackMinutes === null ||
+    urgent.slackMinutes <= 0
+  ) {
+    return null;
+  }
+
+  const point = await resolveWeatherPoint(origin, env);
+  const slots = await getNowcast(env, point);
+  const leaveAtMs = Date.parse(urgent.leaveAt);
+  const departureMs = suggestDryDeparture(
+    slots,
+    leaveAtMs,
+    urgent.slackMinutes,
+    leadingOutdoorMinutes(urgent.route),
+  );
+  if (departureMs === null) {
+    return null;
+  }
+
+  const leaveBy = formatJstClock(departureMs);
+  return {
+    leaveAt: new Date(departureMs).toISOString(),
+    leaveBy,
+    shiftMinutes: Math.round((leaveAtMs - departureMs) / (60 * 1000)),
+    note: `${leaveBy}に出れば雨を避けられます`,
+  };
+}
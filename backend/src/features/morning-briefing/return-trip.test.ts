@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type {
+  TransitProvider,
+  TransitQuery,
+  TransitRoute,
+} from "../transit/transit.types";
+import { formatJstClock } from "../transit/transit-time";
+import type { EventBriefing } from "./morning-briefing.types";
+import { buildReturnTrip } from "./return-trip";
+
+const MINUTE_MS = 60 * 1000;
+
+/** The providers are passed in, so neither D1 nor Maps is reached. */
+const env = { AUTH_DB: {} as D1Database, GOOGLE_MAPS_API_KEY: "" };
+
+function jst(clock: string): number {
+  return Date.parse(`2026-10-20T${clock.padStart(5, "0")}:00+09:00`);
+}
+
+function route(departMs: number): TransitRoute {
+  const arriveMs = departMs + 30 * MINUTE_MS;
+  return {
+    mode: "transit",
+    departureTime: formatJstClock(departMs),
+    arrivalTime: formatJstClock(arriveMs),
+    departureAt: new Date(departMs).toISOString(),
+    arrivalAt: new Date(arriveMs).toISOString(),
+    durationMinutes: 30,
+    summary: "阪急京都線",
+    steps: [],
+    transferCount: 0,
+    walkingMinutes: 0,
+    firstBoardingStation: "梅田",
+    fare: null,
+    provider: "test",
+  };
+}
+
+/**
+ * Trains every 20 minutes until the last one at 23:41; `latestDeparture`
+ * queries get every train left after `departureTime`.
+ */
+function timetable(queries: TransitQuery[]): TransitProvider {
+  return {
+    id: "test",
+    timetabled: true,
+    getDirections: async (query) => {
+      queries.push(query);
+      const fromMs = Date.parse(query.departureTime ?? "");
+      const trains = [];
+      for (let ms = jst("21:01"); ms <= jst("23:41"); ms += 20 * MINUTE_MS) {
+        if (ms >= fromMs) trains.push(route(ms));
+      }
+      return query.latestDeparture ? trains : trains.slice(0, 1);
+    },
+  };
+}
+
+function briefing(
+  start: string,
+  end: string,
+  mode: EventBriefing["mode"] = "transit",
+): EventBriefing {
+  return {
+    event: {
+      id: "party",
+      summary: "懇親会",
+      location: "梅田",
+      description: null,
+      start: new Date(jst(start)).toISOString(),
+      end: new Date(jst(end)).toISOString(),
+      isAllDay: false,
+      calendarId: "primary",
+      calendarColor: null,
+    },
+    origin: "自宅",
+    destination: "梅田",
+    mode,
+    route: null,
+    routeError: null,
+    backupRoute: null,
+    backupNote: null,
+    earlierRoute: null,
+    earlierLeaveBy: null,
+    disruptions: [],
+    disruptionNotes: [],
+    disruptionDelayMinutes: 0,
+    transitMinutes: 30,
+    leaveAt: null,
+    leaveBy: null,
+    wakeUpBy: null,
+    slackMinutes: null,
+    lateRiskPercent: null,
+  };
+}
+
+function tripHome(last: EventBriefing, queries: TransitQuery[] = []) {
+  return buildReturnTrip(env, last, "梅田", "自宅", null, "fastest", [
+    timetable(queries),
+  ]);
+}
+
+describe("buildReturnTrip", () => {
+  it("gives the time to leave the event for the last train", async () => {
+    const trip = await tripHome(briefing("19:00", "22:30"));
+
+    expect(trip.route?.departureTime).toBe("22:41");
+    expect(trip.lastTrain?.departureTime).toBe("23:41");
+    // 15 minutes to get from the venue to the platform
+    expect(trip.exitBy).toBe("23:26");
+    expect(trip.missesLastTrain).toBe(false);
+    expect(trip.warning).toBe("終電 23:41 梅田発、懇親会は23:26までに退出");
+  });
+
+  it("warns when the event ends inside the exit margin", async () => {
+    const trip = await tripHome(briefing("21:00", "23:30"));
+
+    expect(trip.exitBy).toBe("23:26");
+    expect(trip.missesLastTrain).toBe(true);
+    expect(trip.warning).toBe(
+      "終電 23:41 梅田発、懇親会は23:26までに退出（終了予定23:30では乗り遅れます）",
+    );
+  });
+
+  it("checks the last train only for transit events ending from 20:00", async () => {
+    const early: TransitQuery[] = [];
+    const beforeCutoff = await tripHome(briefing("18:00", "19:59"), early);
+    expect(early.some((query) => query.latestDeparture)).toBe(false);
+    expect(beforeCutoff.lastTrain).toBeNull();
+    expect(beforeCutoff.warning).toBeNull();
+
+    const atCutoff: TransitQuery[] = [];
+    await tripHome(briefing("18:00", "20:00"), atCutoff);
+    expect(atCutoff.some((query) => query.latestDeparture)).toBe(true);
+
+    const walking: TransitQuery[] = [];
+    const walk = await tripHome(briefing("21:00", "23:00", "walk"), walking);
+    expect(walking.some((query) => query.latestDeparture)).toBe(false);
+    expect(walk.lastTrain).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  createTransitProviders,
+  getTransitDirections,
+} from "../transit/transit.service";
+import type {
+  Coordinates,
+  RoutePreference,
+  TransitProvider,
+  TransitRoute,
+} from "../transit/transit.types";
+import { formatJstClock, toServiceClock } from "../transit/transit-time";
+import type { EventBriefing, ReturnTrip } from "./morning-briefing.types";
+
+/** Events ending at or after 20:00 get the last-train check. */
+const LATE_END_SECONDS = 20 * 60 * 60;
+
+/** Minutes to leave the venue and reach the platform. */
+const EXIT_MARGIN_MINUTES = 15;
+
+function latestDeparture(routes: TransitRoute[]): TransitRoute | null {
+  let latest: TransitRoute | null = null;
+  for (const route of routes) {
+    if (
+      !latest ||
+      Date.parse(route.departureAt) > Date.parse(latest.departureAt)
+    ) {
+      latest = route;
+    }
+  }
+  return latest;
+}
+
+/** The briefing whose event ends last — the one to go home from. */
+export function pickLastBriefing(
+  briefings: EventBriefing[],
+): EventBriefing | null {
+  let last: EventBriefing | null = null;
+  for (const briefing of briefings) {
+    const endMs = Date.parse(briefing.event.end);
+    if (Number.isNaN(endMs)) continue;
+    if (!last || endMs > Date.parse(last.event.end)) {
+      last = briefing;
+    }
+  }
+  return last;
+}
+
+/**
+ * Route home from the last event of the day.
+ *
+ * `route` is the first route leaving when the event ends. For transit events
+ * ending late (20:00 or later) the last train of the service day is looked
+ * up as well, and a warning tells by when to leave the event to catch it,
+ * e.g. "終電 23:41 梅田発、懇親会は23:10までに退出".
+ *
+ * @param origin          - Address of the last event (saved places resolved).
+ * @param home            - Address of where the day started (currentLocation).
+ * @param homeCoordinates - Its exact position when known, routed to instead
+ *                          of geocoding `home`.
+ * @param providers       - Override the provider chain (defaults to
+ *                          `createTransitProviders(env)`).
+ */
+export async function buildReturnTrip(
+  env: Pick<Env, "AUTH_DB" | "GOOGLE_MAPS_API_KEY">,
+  last: EventBriefing,
+  origin: string,
+  home: string,
+  homeCoordinates: Coordinates | null,
+  preference: RoutePreference,
+  providers: TransitProvider[] = createTransitProviders(env),
+): Promise<ReturnTrip> {
+  const { event, mode } = last;
+  const endMs = Date.parse(event.end);
+  const checkLastTrain =
+    mode === "transit" &&
+    toServiceClock(new Date(endMs)).seconds >= LATE_END_SECONDS;
+
+  const [transit, lastTrains] = await Promise.all([
+    getTransitDirections(
+      env,
+      {
+        origin,
+        destination: home,
+        destinationCoordinates: homeCoordinates ?? undefined,
+        departureTime: event.end,
+        preference,
+        mode,
+      },
+      providers,
+    ),
+    checkLastTrain
+      ? getTransitDirections(
+          env,
+          {
+            origin,
+            destination: home,
+            destinationCoordinates: homeCoordinates ?? undefined,
+            // From the event start so that a last train leaving before the
+            // end is still found (and reported as missed)
+            departureTime: event.start,
+            latestDeparture: true,
+            mode,
+          },
+          providers,
+        )
+      : null,
+  ]);
+
+  const trip: ReturnTrip = {
+    fromEventId: event.id,
+    origin,
+    destination: home,
+    mode,
+    route: transit.bestRoute,
+    routeError: transit.error,
+    lastTrain: null,
+    exitAt: null,
+    exitBy: null,
+    missesLastTrain: false,
+    warning: null,
+  };
+
+  const lastTrain = latestDeparture(lastTrains?.routes ?? []);
+  if (!lastTrain) {
+    return trip;
+  }
+
+  const exitAtMs =
+    Date.parse(lastTrain.departureAt) - EXIT_MARGIN_MINUTES * 60 * 1000;
+  const station = lastTrain.firstBoardingStation ?? origin;
+  trip.lastTrain = lastTrain;
+  trip.exitAt = new Date(exitAtMs).toISOString();
+  trip.exitBy = formatJstClock(exitAtMs);
+  trip.missesLastTrain = endMs > exitAtMs;
+  trip.warning = `終電 ${lastTrain.departureTime} ${station}発、${event.summary}は${trip.exitBy}までに退出`;
+  if (trip.missesLastTrain) {
+    trip.warning += `（終了予定${formatJstClock(endMs)}では乗り遅れます）`;
+  }
+  return trip;
+}
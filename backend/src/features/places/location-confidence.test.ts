@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { isLowConfidenceLocation } from "./location-confidence";
+
+describe("isLowConfidenceLocation", () => {
+  it("flags team-only names", () => {
+    for (const location of [
+      "第3会議室",
+      "いつものカフェ",
+      "B棟 2F",
+      "Ｂ棟",
+      "Meeting Room 4",
+      "本社",
+    ]) {
+      expect(isLowConfidenceLocation(location, null), location).toBe(true);
+    }
+  });
+
+  it("trusts them next to an address or a station", () => {
+    for (const location of [
+      "大阪市北区梅田3-1-1 第3会議室",
+      "梅田駅 いつもの改札",
+      "グランフロント大阪 B棟 ９－１",
+      "大阪大学 研究室",
+    ]) {
+      expect(isLowConfidenceLocation(location, null), location).toBe(false);
+    }
+  });
+
+  it("trusts plain place names", () => {
+    expect(isLowConfidenceLocation("梅田スカイビル", null)).toBe(false);
+    expect(isLowConfidenceLocation("スターバックス 茶屋町店", null)).toBe(
+      false,
+    );
+  });
+
+  it("asks whenever the location could not be geocoded or routed", () => {
+    const location = "大阪市北区梅田3-1-1";
+    expect(
+      isLowConfidenceLocation(location, {
+        code: "GEOCODE_FAILED",
+        message: "not found",
+      }),
+    ).toBe(true);
+    expect(
+      isLowConfidenceLocation(location, { code: "NO_ROUTE", message: "none" }),
+    ).toBe(true);
+    expect(
+      isLowConfidenceLocation(location, {
+        code: "UPSTREAM_ERROR",
+        message: "timeout",
+      }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import type { TransitError } from "../transit/transit.types";
+
+/**
+ * Names that only mean something inside the team: meeting rooms, "the
+ * usual" places, building nicknames, …
+ */
+const VAGUE_LOCATION_PATTERN =
+  /会議室|ミーティング|打ち合わせ|いつもの|例の|部室|研究室|教室|控室|応接|本社|本館|別館|[A-ZＡ-Ｚ]棟|room|office|オフィス/iu;
+
+/** Signs of a real address or station name. */
+const ADDRESS_PATTERN =
+  /[都道府県市区町村郡]|丁目|番地|[0-9０-９]+[-－ー][0-9０-９]+|〒|駅|空港|大学|病院|公園/u;
+
+/**
+ * Whether a calendar location probably did not geocode to the intended
+ * place and the user should be asked what it means.
+ *
+ * Heuristic, deterministic and cheap: providers failing to resolve the text
+ * (GEOCODE_FAILED / NO_ROUTE) is the strongest signal; otherwise team-only
+ * names without anything address-like are flagged even when a route was
+ * found, because the geocoder then matched some unrelated place.
+ */
+export function isLowConfidenceLocation(
+  location: string,
+  routeError: TransitError | null,
+): boolean {
+  if (
+    routeError?.code === "GEOCODE_FAILED" ||
+    routeError?.code === "NO_ROUTE"
+  ) {
+    return true;
+  }
+  return (
+    VAGUE_LOCATION_PATTERN.test(location) && !ADDRESS_PATTERN.test(location)
+  );
+}
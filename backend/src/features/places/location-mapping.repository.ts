@@ -0,0 +1,89 @@
+import type { LocationMapping } from "./place.types";
+import { normalizePlaceKey } from "./place-resolver";
+
+type MappingRow = {
+  location: string;
+  address: string;
+  updated_at: string;
+};
+
+function toMapping(row: MappingRow): LocationMapping {
+  return {
+    location: row.location,
+    address: row.address,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function listLocationMappings(
+  db: D1Database,
+  userId: string,
+): Promise<LocationMapping[]> {
+  const result = await db
+    .prepare(
+      `
+        select location, address, updated_at
+        from location_mappings
+        where user_id = ?
+        order by location
+      `,
+    )
+    .bind(userId)
+    .all<MappingRow>();
+
+  return (result.results ?? []).map(toMapping);
+}
+
+/**
+ * Remember what a calendar location means for this user. Mapping a location
+ * to itself confirms it as-is so that it is not asked about again.
+ */
+export async function saveLocationMapping(
+  db: D1Database,
+  userId: string,
+  location: string,
+  address: string,
+): Promise<LocationMapping> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `
+        insert into location_mappings (
+          user_id,
+          location_key,
+          location,
+          address,
+          created_at,
+          updated_at
+        )
+        values (?, ?, ?, ?, ?, ?)
+        on conflict(user_id, location_key) do update set
+          location = excluded.location,
+          address = excluded.address,
+          updated_at = excluded.updated_at
+      `,
+    )
+    .bind(userId, normalizePlaceKey(location), location, address, now, now)
+    .run();
+
+  return { location, address, updatedAt: now };
+}
+
+/** Returns false when no mapping exists for the location. */
+export async function deleteLocationMapping(
+  db: D1Database,
+  userId: string,
+  location: string,
+): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `
+        delete from location_mappings
+        where user_id = ? and location_key = ?
+      `,
+    )
+    .bind(userId, normalizePlaceKey(location))
+    .run();
+
+  return result.meta.changes > 0;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { SavedPlace } from "./place.types";
+import { suggestPlaces } from "./place-autocomplete";
+
+function savedPlace(name: string, aliases: string[] = []): SavedPlace {
+  return {
+    id: `place-${name}`,
+    name,
+    aliases,
+    address: "大阪市北区梅田3-1-1",
+    lat: null,
+    lon: null,
+    isDefaultOrigin: false,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+  };
+}
+
+function ids(text: string, places: SavedPlace[] = []): string[] {
+  return suggestPlaces(places, text).map((suggestion) => suggestion.id);
+}
+
+describe("suggestPlaces", () => {
+  it("folds width, case and kana before matching", () => {
+    for (const text of ["うめだ", "ウメダ", "ｳﾒﾀﾞ", " 梅田駅 "]) {
+      expect(ids(text)[0]).toBe("metro-umeda");
+    }
+    expect(ids("ｊｒ大阪")[0]).toBe("jr-osaka");
+  });
+
+  it("tells 梅田, 大阪梅田 and JR大阪 apart", () => {
+    // The Osaka Metro station first, then the others named after it —
+    // shorter names before longer ones
+    const umeda = ids("梅田");
+    expect(umeda.slice(0, 3)).toEqual([
+      "metro-umeda",
+      "metro-higashi-umeda",
+      "metro-nishi-umeda",
+    ]);
+    expect(umeda).toContain("hankyu-osaka-umeda");
+    expect(umeda).toContain("hanshin-osaka-umeda");
+    expect(umeda).not.toContain("jr-osaka");
+
+    expect(ids("大阪梅田").slice(0, 2)).toEqual([
+      "hankyu-osaka-umeda",
+      "hanshin-osaka-umeda",
+    ]);
+    expect(ids("阪急梅田")[0]).toBe("hankyu-osaka-umeda");
+
+    expect(ids("JR大阪")[0]).toBe("jr-osaka");
+    expect(suggestPlaces([], "JR大阪")[0]?.value).toBe("JR大阪駅");
+  });
+
+  it("forgives a typo in longer readings", () => {
+    // One edit from "しんおおさか"
+    expect(ids("しんおさか")[0]).toBe("shin-osaka");
+    // Too short to guess at
+    expect(ids("うま")).not.toContain("metro-umeda");
+  });
+
+  it("ranks exact matches first and saved places above the dictionary", () => {
+    const office = savedPlace("梅田オフィス", ["会社"]);
+    expect(ids("梅田", [office]).slice(0, 2)).toEqual([
+      "metro-umeda",
+      "place-梅田オフィス",
+    ]);
+    expect(ids("会社", [office])).toEqual(["place-梅田オフィス"]);
+  });
+
+  it("returns nothing for blank text and honours the limit", () => {
+    expect(suggestPlaces([], "  ")).toEqual([]);
+    expect(suggestPlaces([], "梅田", 2)).toHaveLength(2);
+  });
+});
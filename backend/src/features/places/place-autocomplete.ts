@@ -0,0 +1,188 @@
+import { distanceMeters } from "../transit/gtfs-raptor";
+import type { Coordinates } from "../transit/transit.types";
+import dictionary from "./kansai-place-dictionary.json";
+import type {
+  DictionaryPlace,
+  PlaceSuggestion,
+  SavedPlace,
+} from "./place.types";
+
+// ---------------------------------------------------------------------------
+// Offline place autocomplete
+//
+// Suggestions come from the user's saved places and a bundled dictionary of
+// Kansai stations and landmarks, so typing "梅田" offers 梅田 (御堂筋線),
+// 大阪梅田（阪急）, 東梅田, … and the chosen entry routes unambiguously. No
+// external API is involved.
+// ---------------------------------------------------------------------------
+
+const DICTIONARY = dictionary.places as DictionaryPlace[];
+
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 20;
+
+const EXACT_SCORE = 100;
+const PREFIX_SCORE = 80;
+const CONTAINS_SCORE = 60;
+const FUZZY_SCORE = 40;
+
+/** Saved places rank above dictionary entries matching as well. */
+const SAVED_BONUS = 10;
+
+/** "ウメダ" → "うめだ" (the long-vowel mark "ー" is kept). */
+function toHiragana(value: string): string {
+  return value.replace(/[ァ-ヶ]/gu, (char) =>
+    String.fromCharCode((char.codePointAt(0) ?? 0) - 0x60),
+  );
+}
+
+/** " ＪＲ大阪駅 " → "jr大阪", "ウメダ" → "うめだ" */
+function normalizeSearchKey(value: string): string {
+  return toHiragana(
+    value
+      .normalize("NFKC")
+      .toLowerCase()
+      .replace(/[\s()]+/gu, ""),
+  ).replace(/駅$/u, "");
+}
+
+function editDistance(a: string, b: string): number {
+  const source = [...a];
+  const target = [...b];
+  let previous = target.map((_, index) => index + 1);
+  previous.unshift(0);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + (source[i - 1] === target[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[target.length] ?? 0;
+}
+
+/**
+ * How well `key` matches `query` (both normalized), or 0.
+ * Fuzzy: the start of the key is one typo away from the query (two for
+ * longer queries), e.g. "しんおさか" → "しんおおさか".
+ */
+function scoreKey(query: string, key: string): number {
+  if (key === query) return EXACT_SCORE;
+  if (key.startsWith(query)) return PREFIX_SCORE;
+  if (key.includes(query)) return CONTAINS_SCORE;
+
+  const length = [...query].length;
+  if (length < 3) return 0;
+  const head = [...key].slice(0, length + 1).join("");
+  const allowed = length >= 6 ? 2 : 1;
+  return Math.min(
+    editDistance(query, head),
+    editDistance(query, head.slice(0, -1)),
+  ) <= allowed
+    ? FUZZY_SCORE
+    : 0;
+}
+
+function scoreKeys(query: string, keys: (string | null)[]): number {
+  let best = 0;
+  for (const key of keys) {
+    if (key) best = Math.max(best, scoreKey(query, normalizeSearchKey(key)));
+  }
+  return best;
+}
+
+type ScoredSuggestion = { suggestion: PlaceSuggestion; score: number };
+
+/**
+ * Suggestions for free text typed into a location field, best first.
+ *
+ * Names, aliases and readings are matched after NFKC / case / kana folding,
+ * so "ｳﾒﾀﾞ", "ウメダ" and "うめだ" find 梅田; ties go to the shorter name.
+ *
+ * @param places - The user's saved places (ranked first on equal matches).
+ * @param text   - What the user typed so far.
+ * @param limit  - Maximum number of suggestions.
+ */
+export function suggestPlaces(
+  places: SavedPlace[],
+  text: string,
+  limit: number = DEFAULT_SUGGESTION_LIMIT,
+): PlaceSuggestion[] {
+  const query = normalizeSearchKey(text);
+  if (query.length === 0) {
+    return [];
+  }
+
+  const scored: ScoredSuggestion[] = [];
+  for (const place of places) {
+    const score = scoreKeys(query, [place.name, ...place.aliases]);
+    if (score > 0) {
+      scored.push({
+        score: score + SAVED_BONUS,
+        suggestion: {
+          id: place.id,
+          kind: "saved",
+          name: place.name,
+          reading: null,
+          lines: [],
+          value: place.name,
+          lat: place.lat,
+          lon: place.lon,
+        },
+      });
+    }
+  }
+  for (const entry of DICTIONARY) {
+    const score = scoreKeys(query, [
+      entry.name,
+      entry.reading,
+      ...entry.aliases,
+    ]);
+    if (score > 0) {
+      scored.push({
+        score,
+        suggestion: {
+          id: entry.id,
+          kind: entry.kind,
+          name: entry.name,
+          reading: entry.reading,
+          lines: entry.lines,
+          value: entry.address,
+          lat: entry.lat,
+          lon: entry.lon,
+        },
+      });
+    }
+  }
+
+  // Array.prototype.sort is stable: equal entries keep dictionary order
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.suggestion.name.length - b.suggestion.name.length,
+    )
+    .slice(0, limit)
+    .map((item) => item.suggestion);
+}
+
+/** The dictionary entry closest to a point within `maxMeters`, or null. */
+export function findNearestDictionaryPlace(
+  point: Coordinates,
+  maxMeters: number,
+): DictionaryPlace | null {
+  let nearest: DictionaryPlace | null = null;
+  let nearestMeters = maxMeters;
+  for (const entry of DICTIONARY) {
+    const meters = distanceMeters(point, entry);
+    if (meters <= nearestMeters) {
+      nearest = entry;
+      nearestMeters = meters;
+    }
+  }
+  return nearest;
+}
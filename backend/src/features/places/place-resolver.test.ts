@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { LocationMapping, SavedPlace } from "./place.types";
+import { resolveLocation } from "./place-resolver";
+
+function savedPlace(
+  id: string,
+  name: string,
+  address: string,
+  aliases: string[] = [],
+): SavedPlace {
+  return {
+    id,
+    name,
+    aliases,
+    address,
+    lat: null,
+    lon: null,
+    isDefaultOrigin: false,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+  };
+}
+
+const home = savedPlace("home", "自宅", "大阪市北区中崎西2-4-12", ["家"]);
+const office = savedPlace("office", "会社", "大阪市北区梅田3-1-1", ["HOME"]);
+// Named like another place's id
+const gym = savedPlace("gym", "home", "大阪市福島区福島1-1-1");
+
+const mappings: LocationMapping[] = [
+  {
+    location: "本社",
+    address: "大阪市中央区本町1-1-1",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+  },
+  {
+    location: "会社",
+    address: "大阪市西区靭本町1-1-1",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+  },
+];
+
+describe("resolveLocation", () => {
+  it("tries the id, then the name, then the aliases", () => {
+    const places = [office, gym, home];
+
+    expect(resolveLocation(places, "home").place).toBe(home);
+    expect(resolveLocation(places, "ＨＯＭＥ").place).toBe(gym);
+    expect(resolveLocation([office, home], "ｈｏｍｅ").place).toBe(office);
+    expect(resolveLocation(places, " 家 ")).toEqual({
+      address: "大阪市北区中崎西2-4-12",
+      place: home,
+      mapping: null,
+    });
+  });
+
+  it("prefers a saved place over a learned mapping", () => {
+    expect(resolveLocation([office], "会社", mappings)).toMatchObject({
+      address: "大阪市北区梅田3-1-1",
+      place: office,
+      mapping: null,
+    });
+  });
+
+  it("falls back to a mapping, then to the text itself", () => {
+    expect(resolveLocation([office], " 本 社 ", mappings)).toEqual({
+      address: "大阪市中央区本町1-1-1",
+      place: null,
+      mapping: mappings[0],
+    });
+    expect(resolveLocation([office], " 梅田スカイビル ", mappings)).toEqual({
+      address: "梅田スカイビル",
+      place: null,
+      mapping: null,
+    });
+  });
+});
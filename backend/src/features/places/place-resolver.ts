@@ -0,0 +1,67 @@
+import type { Coordinates } from "../transit/transit.types";
+import type {
+  LocationMapping,
+  ResolvedLocation,
+  SavedPlace,
+} from "./place.types";
+
+export function normalizePlaceKey(value: string): string {
+  return value.normalize("NFKC").replace(/\s+/gu, "").toLowerCase();
+}
+
+/**
+ * The saved place named by `text`: an id, then a name, then an alias.
+ * Matching ignores width, case and spaces ("自宅", " 自 宅", "ＨＯＭＥ").
+ */
+export function findSavedPlace(
+  places: SavedPlace[],
+  text: string,
+): SavedPlace | null {
+  const trimmed = text.trim();
+  const byId = places.find((place) => place.id === trimmed);
+  if (byId) {
+    return byId;
+  }
+
+  const key = normalizePlaceKey(trimmed);
+  return (
+    places.find((place) => normalizePlaceKey(place.name) === key) ??
+    places.find((place) =>
+      place.aliases.some((alias) => normalizePlaceKey(alias) === key),
+    ) ??
+    null
+  );
+}
+
+/**
+ * Resolve free text to the address to route / geocode: a saved place first,
+ * then a learned location mapping, else the text itself.
+ */
+export function resolveLocation(
+  places: SavedPlace[],
+  text: string,
+  mappings: LocationMapping[] = [],
+): ResolvedLocation {
+  const place = findSavedPlace(places, text);
+  if (place) {
+    return { address: place.address, place, mapping: null };
+  }
+
+  const key = normalizePlaceKey(text);
+  const mapping =
+    mappings.find((item) => normalizePlaceKey(item.location) === key) ?? null;
+  return { address: mapping?.address ?? text.trim(), place: null, mapping };
+}
+
+export function findDefaultOrigin(places: SavedPlace[]): SavedPlace | null {
+  return places.find((place) => place.isDefaultOrigin) ?? null;
+}
+
+/** A saved place's coordinates, when it has them. */
+export function placeCoordinates(
+  place: SavedPlace | null | undefined,
+): Coordinates | null {
+  return place && place.lat !== null && place.lon !== null
+    ? { lat: place.lat, lon: place.lon }
+    : null;
+}
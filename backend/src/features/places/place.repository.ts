@@ -0,0 +1,220 @@
+import type { SavedPlace, SavedPlaceInput } from "./place.types";
+
+type PlaceRow = {
+  id: string;
+  name: string;
+  aliases_json: string;
+  address: string;
+  lat: number | null;
+  lon: number | null;
+  is_default_origin: number;
+  created_at: string;
+  updated_at: string;
+};
+
+const SELECT_COLUMNS = `
+  id,
+  name,
+  aliases_json,
+  address,
+  lat,
+  lon,
+  is_default_origin,
+  created_at,
+  updated_at
+`;
+
+function parseAliases(json: string): string[] {
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function toPlace(row: PlaceRow): SavedPlace {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: parseAliases(row.aliases_json),
+    address: row.address,
+    lat: row.lat,
+    lon: row.lon,
+    isDefaultOrigin: row.is_default_origin === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Statement clearing the default-origin flag of every other place. */
+function clearDefaultOrigin(
+  db: D1Database,
+  userId: string,
+  keepId: string,
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `
+        update saved_places
+        set is_default_origin = 0
+        where user_id = ? and id <> ?
+      `,
+    )
+    .bind(userId, keepId);
+}
+
+export async function listSavedPlaces(
+  db: D1Database,
+  userId: string,
+): Promise<SavedPlace[]> {
+  const result = await db
+    .prepare(
+      `
+        select ${SELECT_COLUMNS}
+        from saved_places
+        where user_id = ?
+        order by created_at
+      `,
+    )
+    .bind(userId)
+    .all<PlaceRow>();
+
+  return (result.results ?? []).map(toPlace);
+}
+
+export async function getSavedPlace(
+  db: D1Database,
+  userId: string,
+  id: string,
+): Promise<SavedPlace | null> {
+  const row = await db
+    .prepare(
+      `
+        select ${SELECT_COLUMNS}
+        from saved_places
+        where user_id = ? and id = ?
+        limit 1
+      `,
+    )
+    .bind(userId, id)
+    .first<PlaceRow>();
+
+  return row ? toPlace(row) : null;
+}
+
+/** Insert a place; saving it as default origin unsets the previous one. */
+export async function createSavedPlace(
+  db: D1Database,
+  userId: string,
+  input: SavedPlaceInput,
+): Promise<SavedPlace> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const insert = db
+    .prepare(
+      `
+        insert into saved_places (
+          id,
+          user_id,
+          name,
+          aliases_json,
+          address,
+          lat,
+          lon,
+          is_default_origin,
+          created_at,
+          updated_at
+        )
+        values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+    )
+    .bind(
+      id,
+      userId,
+      input.name,
+      JSON.stringify(input.aliases),
+      input.address,
+      input.lat,
+      input.lon,
+      input.isDefaultOrigin ? 1 : 0,
+      now,
+      now,
+    );
+
+  await db.batch(
+    input.isDefaultOrigin
+      ? [insert, clearDefaultOrigin(db, userId, id)]
+      : [insert],
+  );
+
+  return { id, ...input, createdAt: now, updatedAt: now };
+}
+
+/** Replace a place. Returns null when the user has no place with that id. */
+export async function updateSavedPlace(
+  db: D1Database,
+  userId: string,
+  id: string,
+  input: SavedPlaceInput,
+): Promise<SavedPlace | null> {
+  const now = new Date().toISOString();
+  const update = db
+    .prepare(
+      `
+        update saved_places
+        set
+          name = ?,
+          aliases_json = ?,
+          address = ?,
+          lat = ?,
+          lon = ?,
+          is_default_origin = ?,
+          updated_at = ?
+        where user_id = ? and id = ?
+      `,
+    )
+    .bind(
+      input.name,
+      JSON.stringify(input.aliases),
+      input.address,
+      input.lat,
+      input.lon,
+      input.isDefaultOrigin ? 1 : 0,
+      now,
+      userId,
+      id,
+    );
+
+  const [result] = await db.batch(
+    input.isDefaultOrigin
+      ? [update, clearDefaultOrigin(db, userId, id)]
+      : [update],
+  );
+  if (!result?.meta.changes) {
+    return null;
+  }
+
+  return getSavedPlace(db, userId, id);
+}
+
+/** Returns false when the user has no place with that id. */
+export async function deleteSavedPlace(
+  db: D1Database,
+  userId: string,
+  id: string,
+): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `
+        delete from saved_places
+        where user_id = ? and id = ?
+      `,
+    )
+    .bind(userId, id)
+    .run();
+
+  return result.meta.changes > 0;
+}
@@ -0,0 +1,82 @@
+/** A place saved by the user (e.g. "自宅", "会社"). */
+export type SavedPlace = {
+  id: string;
+  /** Display name, also matched when resolving (e.g. "自宅"). */
+  name: string;
+  /** Other names resolving to this place (e.g. ["家", "home"]). */
+  aliases: string[];
+  /** Address or place name handed to routing / geocoding. */
+  address: string;
+  /** Coordinates, when known — weather then skips geocoding. */
+  lat: number | null;
+  lon: number | null;
+  /** Used as currentLocation when a briefing does not give one. */
+  isDefaultOrigin: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Validated body of POST / PUT /places. */
+export type SavedPlaceInput = Pick<
+  SavedPlace,
+  "name" | "aliases" | "address" | "lat" | "lon" | "isDefaultOrigin"
+>;
+
+/** An entry of the bundled Kansai station / landmark dictionary. */
+export type DictionaryPlace = {
+  id: string;
+  kind: "station" | "landmark";
+  /** Display name, disambiguated by operator when shared (e.g. "大阪梅田（阪急）"). */
+  name: string;
+  /** Reading in hiragana (e.g. "おおさかうめだ"). */
+  reading: string;
+  /** Other names people type (e.g. ["阪急梅田"]). */
+  aliases: string[];
+  /** Lines serving the station (empty for landmarks). */
+  lines: string[];
+  /** Unambiguous text for routing / geocoding (e.g. "阪急大阪梅田駅"). */
+  address: string;
+  /** Approximate coordinates. */
+  lat: number;
+  lon: number;
+};
+
+/** A `GET /places/autocomplete` candidate. */
+export type PlaceSuggestion = {
+  /** Saved place id, or the dictionary id. */
+  id: string;
+  kind: "saved" | DictionaryPlace["kind"];
+  name: string;
+  /** Reading in hiragana, when known. */
+  reading: string | null;
+  lines: string[];
+  /**
+   * Text to put in a location field — the saved place's name (resolved by
+   * `resolveLocation`) or the dictionary entry's unambiguous address.
+   */
+  value: string;
+  lat: number | null;
+  lon: number | null;
+};
+
+/** What an ambiguous calendar location (e.g. "会議室A") means for a user. */
+export type LocationMapping = {
+  /** The location text as written in the calendar. */
+  location: string;
+  /** Address to route / geocode instead (the location itself = confirmed). */
+  address: string;
+  updatedAt: string;
+};
+
+/** Free text (a place id, name, alias or plain address) after resolution. */
+export type ResolvedLocation = {
+  /**
+   * What to route / geocode — the place's address, the learned mapping, or
+   * the text itself.
+   */
+  address: string;
+  /** The saved place the text named, or null. */
+  place: SavedPlace | null;
+  /** The learned mapping applied, or null. */
+  mapping: LocationMapping | null;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { toSavedPlaceInput } from "./place.validation";
+
+const place = { name: "自宅", address: "大阪市北区梅田3-1-1" };
+
+describe("toSavedPlaceInput", () => {
+  it("accepts a place without coordinates", () => {
+    expect(toSavedPlaceInput(place)).toMatchObject({
+      name: "自宅",
+      aliases: [],
+      lat: null,
+      lon: null,
+    });
+    expect(toSavedPlaceInput({ ...place, lat: null, lon: null })).toMatchObject(
+      { lat: null, lon: null },
+    );
+  });
+
+  it("keeps valid coordinates", () => {
+    expect(
+      toSavedPlaceInput({ ...place, lat: 34.7025, lon: 135.4959 }),
+    ).toMatchObject({ lat: 34.7025, lon: 135.4959 });
+  });
+
+  it("rejects coordinates instead of dropping them", () => {
+    expect(
+      toSavedPlaceInput({ ...place, lat: "34.7", lon: "135.5" }),
+    ).toBeNull();
+    expect(toSavedPlaceInput({ ...place, lat: 95, lon: 135.5 })).toBeNull();
+    expect(
+      toSavedPlaceInput({ ...place, lat: 34.7, lon: Number.NaN }),
+    ).toBeNull();
+  });
+
+  it("needs both coordinates or neither", () => {
+    expect(toSavedPlaceInput({ ...place, lat: 34.7 })).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import type { Coordinates } from "../transit/transit.types";
+import type { SavedPlaceInput } from "./place.types";
+
+const MAX_NAME_LENGTH = 40;
+const MAX_ADDRESS_LENGTH = 200;
+const MAX_ALIASES = 10;
+
+function parseName(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= MAX_NAME_LENGTH
+    ? trimmed
+    : null;
+}
+
+function parseAliases(value: unknown): string[] | null {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.length > MAX_ALIASES) {
+    return null;
+  }
+
+  const aliases: string[] = [];
+  for (const item of value) {
+    const alias = parseName(item);
+    if (!alias) {
+      return null;
+    }
+    if (!aliases.includes(alias)) aliases.push(alias);
+  }
+  return aliases;
+}
+
+function parseCoordinate(value: unknown, limit: number): number | null {
+  return typeof value === "number" &&
+    Number.isFinite(value) &&
+    Math.abs(value) <= limit
+    ? value
+    : null;
+}
+
+/**
+ * An optional coordinate: null when absent (undefined / null), undefined
+ * when given but not a valid number within `limit`.
+ */
+function parseOptionalCoordinate(
+  value: unknown,
+  limit: number,
+): number | null | undefined {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return parseCoordinate(value, limit) ?? undefined;
+}
+
+/** Validate a `{ lat, lon }` object (e.g. from the Geolocation API). */
+export function toCoordinates(input: unknown): Coordinates | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const candidate = input as Record<string, unknown>;
+  const lat = parseCoordinate(candidate.lat, 90);
+  const lon = parseCoordinate(candidate.lon, 180);
+  return lat !== null && lon !== null ? { lat, lon } : null;
+}
+
+/**
+ * Validate a POST / PUT /places body.
+ * `lat` and `lon` are optional but must be given together, and a given one
+ * must be a valid coordinate (never silently dropped).
+ */
+export function toSavedPlaceInput(input: unknown): SavedPlaceInput | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const candidate = input as Record<string, unknown>;
+  const name = parseName(candidate.name);
+  const aliases = parseAliases(candidate.aliases);
+  const address =
+    typeof candidate.address === "string" ? candidate.address.trim() : "";
+  if (
+    !name ||
+    !aliases ||
+    address.length === 0 ||
+    address.length > MAX_ADDRESS_LENGTH
+  ) {
+    return null;
+  }
+
+  const lat = parseOptionalCoordinate(candidate.lat, 90);
+  const lon = parseOptionalCoordinate(candidate.lon, 180);
+  if (
+    lat === undefined ||
+    lon === undefined ||
+    (lat === null) !== (lon === null)
+  ) {
+    return null;
+  }
+
+  return {
+    name,
+    aliases,
+    address,
+    lat,
+    lon,
+    isDefaultOrigin: candidate.isDefaultOrigin === true,
+  };
+}
+
+function parseText(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= MAX_ADDRESS_LENGTH
+    ? trimmed
+    : null;
+}
+
+/** Validate a PUT /location-mappings body. */
+export function toLocationMappingInput(
+  input: unknown,
+): { location: string; address: string } | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const candidate = input as Record<string, unknown>;
+  const location = parseText(candidate.location);
+  const address = parseText(candidate.address);
+  return location && address ? { location, address } : null;
+}
@@ -0,0 +1,69 @@
+import type { Coordinates } from "../transit/transit.types";
+import { findNearestDictionaryPlace } from "./place-autocomplete";
+
+/** Coordinates this close to a dictionary station / landmark are named by it. */
+const NEAR_PLACE_METERS = 300;
+
+const GEOCODING_API_URL = "https://maps.googleapis.com/maps/api/geocode/json";
+
+/** "日本、〒530-0001 大阪府大阪市北区梅田３丁目１" → "大阪府大阪市北区梅田３丁目１" */
+function shortenAddress(value: string): string {
+  return value
+    .replace(/^日本、/u, "")
+    .replace(/〒\s*\d{3}-?\d{4}\s*/u, "")
+    .trim();
+}
+
+/**
+ * Address of a point via the Google Geocoding API, or `null` on any failure
+ * so the caller can fall back.
+ *
+ * @example
+ * ```
+ * curl "https://maps.googleapis.com/maps/api/geocode/json?latlng=34.7025,135.4959&language=ja&key=$GOOGLE_MAPS_API_KEY"
+ * ```
+ */
+async function requestAddress(
+  apiKey: string,
+  point: Coordinates,
+): Promise<string | null> {
+  try {
+    const params = new URLSearchParams({
+      latlng: `${point.lat},${point.lon}`,
+      language: "ja",
+      key: apiKey,
+    });
+    const res = await fetch(`${GEOCODING_API_URL}?${params}`);
+    if (!res.ok) return null;
+
+    // biome-ignore lint/suspicious/noExplicitAny: Geocoding API response
+    const data = (await res.json()) as any;
+    const address = data?.results?.[0]?.formatted_address;
+    return typeof address === "string" ? shortenAddress(address) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A display name for coordinates from the browser's Geolocation API, also
+ * usable as free text for routing (e.g. the way home).
+ *
+ * Preference: a bundled station / landmark within 300 m (offline, short
+ * enough to read aloud) → the Google Geocoding address when an API key is
+ * configured → the coordinates themselves ("34.70250,135.49590").
+ */
+export async function reverseGeocode(
+  env: Pick<Env, "GOOGLE_MAPS_API_KEY">,
+  point: Coordinates,
+): Promise<string> {
+  const nearby = findNearestDictionaryPlace(point, NEAR_PLACE_METERS);
+  if (nearby) {
+    return nearby.address;
+  }
+
+  const address = env.GOOGLE_MAPS_API_KEY
+    ? await requestAddress(env.GOOGLE_MAPS_API_KEY, point)
+    : null;
+  return address ?? `${point.lat.toFixed(5)},${point.lon.toFixed(5)}`;
+}
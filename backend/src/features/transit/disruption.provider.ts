@@ -0,0 +1,84 @@
+import fixtureFeed from "./disruption.fixture.json";
+import type { DisruptionProvider, LineDisruption } from "./disruption.types";
+
+/**
+ * Feed format (shared by remote feeds and the bundled fixture):
+ *
+ *   { "lines": [ { "line": "JR京都線", "status": "delay" | "suspended" | "normal",
+ *                  "delayMinutes": 15, "message": "…" } ] }
+ *
+ * Entries with status "normal" or without a line name are dropped.
+ */
+export function parseDisruptionFeed(json: unknown): LineDisruption[] {
+  if (!json || typeof json !== "object") {
+    return [];
+  }
+
+  const lines = (json as { lines?: unknown }).lines;
+  if (!Array.isArray(lines)) {
+    return [];
+  }
+
+  return lines
+    .map((entry): LineDisruption | null => {
+      if (!entry || typeof entry !== "object") {
+        return null;
+      }
+
+      const candidate = entry as Record<string, unknown>;
+      const line =
+        typeof candidate.line === "string" ? candidate.line.trim() : "";
+      if (
+        line.length === 0 ||
+        (candidate.status !== "delay" && candidate.status !== "suspended")
+      ) {
+        return null;
+      }
+
+      const delayMinutes =
+        typeof candidate.delayMinutes === "number" &&
+        Number.isFinite(candidate.delayMinutes)
+          ? Math.max(0, Math.round(candidate.delayMinutes))
+          : 0;
+
+      return {
+        line,
+        status: candidate.status,
+        delayMinutes,
+        message:
+          typeof candidate.message === "string" ? candidate.message : null,
+      };
+    })
+    .filter((entry): entry is LineDisruption => entry !== null);
+}
+
+/**
+ * How long the feed may take — a hanging feed counts as failed (no
+ * disruptions) instead of stalling every briefing.
+ */
+const FEED_TIMEOUT_MS = 3000;
+
+/** Operating status fetched from a JSON feed in the format above. */
+export function createHttpDisruptionProvider(url: string): DisruptionProvider {
+  return {
+    id: "http",
+    getDisruptions: async () => {
+      const res = await fetch(url, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`Disruption feed HTTP ${res.status}`);
+      }
+      return parseDisruptionFeed(await res.json());
+    },
+  };
+}
+
+/** Offline stand-in: JR京都線 15分遅延, 京阪本線 10分遅延. */
+export function createFixtureDisruptionProvider(): DisruptionProvider {
+  return {
+    id: "fixture",
+    getDisruptions: async () => parseDisruptionFeed(fixtureFeed),
+  };
+}
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createFixtureDisruptionProvider,
+  createHttpDisruptionProvider,
+} from "./disruption.provider";
+import {
+  disruptionDelayMinutes,
+  getLineDisruptions,
+  matchRouteDisruptions,
+} from "./disruption.service";
+import type { LineDisruption } from "./disruption.types";
+import type { TransitRoute } from "./transit.types";
+
+function ridingRoute(...lines: string[]): TransitRoute {
+  return {
+    mode: "transit",
+    departureTime: "8:10",
+    arrivalTime: "9:09",
+    departureAt: "2026-10-20T08:10:00+09:00",
+    arrivalAt: "2026-10-20T09:09:00+09:00",
+    durationMinutes: 59,
+    summary: lines.join(" → "),
+    steps: lines.map((line) => ({
+      mode: "TRANSIT",
+      instruction: line,
+      durationMinutes: 20,
+      transitDetails: {
+        line,
+        departureStop: "淀屋橋",
+        arrivalStop: "出町柳",
+        numStops: 12,
+      },
+    })),
+    transferCount: lines.length - 1,
+    walkingMinutes: 0,
+    firstBoardingStation: "淀屋橋",
+    fare: null,
+    provider: "test",
+  };
+}
+
+function suspended(line: string): LineDisruption {
+  return { line, status: "suspended", delayMinutes: 0, message: null };
+}
+
+describe("getLineDisruptions", () => {
+  it("reads the fixture feed without the lines running normally", async () => {
+    const disruptions = await getLineDisruptions(
+      { TRANSIT_DISRUPTION_FEED_URL: "fixture" },
+      createFixtureDisruptionProvider(),
+    );
+
+    expect(disruptions.map((disruption) => disruption.line)).toEqual([
+      "JR京都線",
+      "京阪本線",
+    ]);
+  });
+
+  it("is empty without a feed", async () => {
+    expect(await getLineDisruptions({})).toEqual([]);
+  });
+
+  describe("from a feed URL", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it("gives up on a feed that does not answer in time", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      // Hangs until the request is aborted, as a stalled feed would
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(
+          (_url: string, init?: RequestInit) =>
+            new Promise<Response>((_resolve, reject) => {
+              init?.signal?.addEventListener("abort", () =>
+                reject(init.signal?.reason),
+              );
+            }),
+        ),
+      );
+
+      const disruptions = await getLineDisruptions(
+        {},
+        createHttpDisruptionProvider("https://example.com/status.json"),
+      );
+
+      expect(disruptions).toEqual([]);
+    }, 10_000);
+  });
+});
+
+describe("matchRouteDisruptions", () => {
+  it("matches the lines the route rides", async () => {
+    const disruptions = await getLineDisruptions(
+      {},
+      createFixtureDisruptionProvider(),
+    );
+
+    expect(
+      matchRouteDisruptions(ridingRoute("京阪本線"), disruptions),
+    ).toMatchObject([{ line: "京阪本線", delayMinutes: 10 }]);
+  });
+
+  it("ignores width, spaces and notes in parentheses", () => {
+    expect(
+      matchRouteDisruptions(ridingRoute("JR京都線"), [
+        suspended("ＪＲ 京都線（東海道本線）"),
+      ]),
+    ).toHaveLength(1);
+  });
+
+  it("matches one of several lines joined into one name", () => {
+    expect(
+      matchRouteDisruptions(ridingRoute("京阪本線・鴨東線"), [
+        suspended("鴨東線"),
+      ]),
+    ).toHaveLength(1);
+  });
+
+  it("does not match a short name inside another line's name", () => {
+    expect(
+      matchRouteDisruptions(ridingRoute("京阪本線", "阪急京都線"), [
+        suspended("本線"),
+        suspended("京都線"),
+        suspended("JR京都線"),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe("disruptionDelayMinutes", () => {
+  it("adds the reported delays and at least 30 minutes per suspension", () => {
+    expect(
+      disruptionDelayMinutes([
+        { line: "京阪本線", status: "delay", delayMinutes: 10, message: null },
+        suspended("JR京都線"),
+        { ...suspended("阪急京都線"), delayMinutes: 45 },
+      ]),
+    ).toBe(85);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  createFixtureDisruptionProvider,
+  createHttpDisruptionProvider,
+} from "./disruption.provider";
+import type { DisruptionProvider, LineDisruption } from "./disruption.types";
+import type { TransitRoute } from "./transit.types";
+
+/**
+ * Extra minutes assumed for a suspended line (運転見合わせ) — no delay is
+ * reported, but the trip will take at least this much longer via detours.
+ */
+const SUSPENDED_DELAY_MINUTES = 30;
+
+/**
+ * `TRANSIT_DISRUPTION_FEED_URL` selects the feed: a URL is fetched, the
+ * value "fixture" uses the bundled JSON, unset disables disruption checks.
+ */
+export function createDisruptionProvider(
+  env: Pick<Env, "TRANSIT_DISRUPTION_FEED_URL">,
+): DisruptionProvider | null {
+  const source = env.TRANSIT_DISRUPTION_FEED_URL?.trim();
+  if (!source) {
+    return null;
+  }
+  return source === "fixture"
+    ? createFixtureDisruptionProvider()
+    : createHttpDisruptionProvider(source);
+}
+
+/**
+ * Current disruptions, or an empty list when no feed is configured or the
+ * feed fails (a broken feed must never break the briefing).
+ */
+export async function getLineDisruptions(
+  env: Pick<Env, "TRANSIT_DISRUPTION_FEED_URL">,
+  provider: DisruptionProvider | null = createDisruptionProvider(env),
+): Promise<LineDisruption[]> {
+  if (!provider) {
+    return [];
+  }
+
+  try {
+    return await provider.getDisruptions();
+  } catch (error) {
+    console.error(`Disruption provider "${provider.id}" failed:`, error);
+    return [];
+  }
+}
+
+/** "ＪＲ 京都線（東海道本線）" → "JR京都線" */
+function normalizeLineName(value: string): string {
+  return value
+    .normalize("NFKC")
+    .replace(/\s+/gu, "")
+    .replace(/\(.*?\)/gu, "");
+}
+
+/** "京阪本線・鴨東線" → ["京阪本線", "鴨東線"] — each a whole line name. */
+function lineNames(value: string): string[] {
+  return normalizeLineName(value)
+    .split(/[・/／]/u)
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * Disruptions on lines ridden by `route`. Only whole names match — feeds and
+ * GTFS may join several lines into one name ("京阪本線・鴨東線"), but a
+ * short name like "京都線" or "本線" never matches a longer one.
+ */
+export function matchRouteDisruptions(
+  route: TransitRoute | null,
+  disruptions: LineDisruption[],
+): LineDisruption[] {
+  if (!route || disruptions.length === 0) {
+    return [];
+  }
+
+  const lines = new Set(
+    route.steps
+      .map((step) => step.transitDetails?.line)
+      .filter((line): line is string => typeof line === "string")
+      .flatMap(lineNames),
+  );
+
+  return disruptions.filter((disruption) =>
+    lineNames(disruption.line).some((name) => lines.has(name)),
+  );
+}
+
+/** Minutes to leave earlier to absorb the matched disruptions. */
+export function disruptionDelayMinutes(disruptions: LineDisruption[]): number {
+  return disruptions.reduce(
+    (total, disruption) =>
+      total +
+      (disruption.status === "suspended"
+        ? Math.max(SUSPENDED_DELAY_MINUTES, disruption.delayMinutes)
+        : disruption.delayMinutes),
+    0,
+  );
+}
+
+/** "JR京都線 遅延 15分" / "JR京都線 運転見合わせ" */
+export function formatDisruption(disruption: LineDisruption): string {
+  if (disruption.status === "suspended") {
+    return `${disruption.line} 運転見合わせ`;
+  }
+  return disruption.delayMinutes > 0
+    ? `${disruption.line} 遅延 ${disruption.delayMinutes}分`
+    : `${disruption.line} 遅延`;
+}
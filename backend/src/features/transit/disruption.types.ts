@@ -0,0 +1,21 @@
+/** Operating status of one line (運行情報) as reported by a feed. */
+export type LineDisruption = {
+  /** Line name as the operator publishes it (e.g. "JR京都線"). */
+  line: string;
+  /** delay — running late · suspended — 運転見合わせ */
+  status: "delay" | "suspended";
+  /** Reported delay in minutes (0 when unknown or suspended). */
+  delayMinutes: number;
+  /** Free-text notice from the operator, when available. */
+  message: string | null;
+};
+
+/**
+ * A source of operating status (an operator / aggregator JSON feed, the
+ * bundled fixture, …). Only lines that are *not* running normally are
+ * returned.
+ */
+export type DisruptionProvider = {
+  id: string;
+  getDisruptions(): Promise<LineDisruption[]>;
+};
@@ -0,0 +1,331 @@
+import type {
+  TransitProvider,
+  TransitQuery,
+  TransitRoute,
+  TransitStep,
+  TravelMode,
+} from "./transit.types";
+import { TransitLookupError } from "./transit-error";
+import { formatJstClock, parseIsoMs } from "./transit-time";
+import { DEFAULT_TRAVEL_MODE, TRAVEL_MODE_LABELS } from "./travel-mode";
+
+// ---------------------------------------------------------------------------
+// Google Routes API helpers
+// ---------------------------------------------------------------------------
+
+const ROUTES_API_URL =
+  "https://routes.googleapis.com/directions/v2:computeRoutes";
+
+/**
+ * Field mask — tells Routes API which fields to return.
+ * Keep it minimal to reduce response size and billing.
+ */
+const FIELD_MASK = [
+  "routes.duration",
+  "routes.distanceMeters",
+  "routes.legs.duration",
+  "routes.legs.distanceMeters",
+  "routes.legs.startLocation",
+  "routes.legs.endLocation",
+  "routes.legs.steps.navigationInstruction",
+  "routes.legs.steps.localizedValues",
+  "routes.legs.steps.travelMode",
+  "geocodingResults",
+].join(",");
+
+/** "123s" → number of seconds. */
+function parseDurationSeconds(dur: unknown): number {
+  if (typeof dur === "string") {
+    return Number.parseInt(dur.replace("s", ""), 10) || 0;
+  }
+  if (typeof dur === "number") return dur;
+  return 0;
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+const PROVIDER_ID = "google-routes";
+
+/**
+ * Routes API `travelMode` per mode. Transit is approximated by DRIVE (see
+ * `TRANSIT_MULTIPLIER`); taxi and car are plain DRIVE.
+ */
+const ROUTES_TRAVEL_MODES: Record<TravelMode, "DRIVE" | "WALK" | "BICYCLE"> = {
+  transit: "DRIVE",
+  walk: "WALK",
+  bicycle: "BICYCLE",
+  taxi: "DRIVE",
+  car: "DRIVE",
+};
+
+/** Routes API step `travelMode` → `TransitStep.mode`. */
+const STEP_MODES: Record<string, string> = {
+  WALK: "WALKING",
+  BICYCLE: "BICYCLE",
+};
+
+/**
+ * Multiplier to approximate public-transport time from driving time.
+ * Trains in Japan are often comparable or faster than driving, but
+ * walks + waits add overhead. 1.3× is a conservative estimate.
+ */
+const TRANSIT_MULTIPLIER = 1.3;
+
+/** Lead time used for the first arrive-by pass, before the duration is known. */
+const ROUGH_LEAD_MS = 60 * 60 * 1000;
+
+/** The Routes API rejects departure times that are already in the past. */
+const MIN_DEPARTURE_LEAD_MS = 60 * 1000;
+
+type RouteEstimate = {
+  estimatedMinutes: number;
+  distanceKm: number;
+  steps: TransitStep[];
+};
+
+/**
+ * Look up directions via the **Google Routes API**.
+ *
+ * Google does not provide transit (train/bus) routing for Japan.
+ * For "transit" we use DRIVE mode to estimate travel duration, then apply a
+ * multiplier (×1.3 by default) to approximate public-transport time. Walk,
+ * bicycle, taxi and car use their own mode's duration as-is.
+ *
+ * Future DRIVE departures are sent as `departureTime` with `TRAFFIC_AWARE`
+ * routing so the duration reflects that time of day (rush hour vs.
+ * off-peak).
+ *
+ * Cost: covered by the $200/month free Google Maps Platform credit.
+ *
+ * @see https://developers.google.com/maps/documentation/routes/compute_route_directions
+ *
+ * @param apiKey      - Google Maps Platform API key (Routes API enabled).
+ * @param query       - Origin / destination.
+ * @param mode        - Travel mode to route for.
+ * @param departureMs - Epoch ms the trip starts at.
+ */
+async function requestRouteEstimates(
+  apiKey: string,
+  query: TransitQuery,
+  mode: TravelMode,
+  departureMs: number,
+): Promise<RouteEstimate[]> {
+  const travelMode = ROUTES_TRAVEL_MODES[mode];
+  const multiplier = mode === "transit" ? TRANSIT_MULTIPLIER : 1;
+  const body: Record<string, unknown> = {
+    origin: query.originCoordinates
+      ? {
+          location: {
+            latLng: {
+              latitude: query.originCoordinates.lat,
+              longitude: query.originCoordinates.lon,
+            },
+          },
+        }
+      : { address: query.origin },
+    destination: query.destinationCoordinates
+      ? {
+          location: {
+            latLng: {
+              latitude: query.destinationCoordinates.lat,
+              longitude: query.destinationCoordinates.lon,
+            },
+          },
+        }
+      : { address: query.destination },
+    travelMode,
+    languageCode: "ja",
+    regionCode: "JP",
+    computeAlternativeRoutes: true,
+  };
+  if (
+    travelMode === "DRIVE" &&
+    departureMs > Date.now() + MIN_DEPARTURE_LEAD_MS
+  ) {
+    body.departureTime = new Date(departureMs).toISOString();
+    body.routingPreference = "TRAFFIC_AWARE";
+  }
+
+  const res = await fetch(ROUTES_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Api-Key": apiKey,
+      "X-Goog-FieldMask": FIELD_MASK,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    throw new TransitLookupError(
+      "UPSTREAM_ERROR",
+      `Routes API HTTP ${res.status}: ${await res.text()}`,
+    );
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Routes API response
+  const data = (await res.json()) as any;
+
+  if (!data.routes || !Array.isArray(data.routes) || data.routes.length === 0) {
+    // A non-zero geocoder status means the address itself was not found
+    const geocoding = data.geocodingResults ?? {};
+    for (const [label, waypoint] of [
+      ["origin", geocoding.origin],
+      ["destination", geocoding.destination],
+    ]) {
+      if (waypoint?.geocoderStatus?.code) {
+        throw new TransitLookupError(
+          "GEOCODE_FAILED",
+          `Routes API could not geocode the ${label}: ${waypoint.geocoderStatus.message ?? waypoint.geocoderStatus.code}`,
+        );
+      }
+    }
+    throw new TransitLookupError("NO_ROUTE", "Routes API returned no route.");
+  }
+
+  return (
+    data.routes
+      // biome-ignore lint/suspicious/noExplicitAny: Routes API route object
+      .map((route: any): RouteEstimate | null => {
+        const leg = route.legs?.[0];
+        if (!leg) return null;
+
+        const rawDurationSec = parseDurationSeconds(
+          route.duration ?? leg.duration,
+        );
+        const distanceKm =
+          Math.round(
+            ((route.distanceMeters ?? leg.distanceMeters ?? 0) as number) / 100,
+          ) / 10;
+
+        // biome-ignore lint/suspicious/noExplicitAny: Routes API step
+        const steps = (leg.steps ?? []).map((step: any) => ({
+          mode: STEP_MODES[step.travelMode as string] ?? "DRIVE",
+          instruction:
+            (step.navigationInstruction?.instructions as string)?.replace(
+              /<[^>]*>/g,
+              "",
+            ) ?? "",
+          durationMinutes: Math.ceil(
+            parseDurationSeconds(step.staticDuration ?? step.duration) / 60,
+          ),
+        }));
+
+        return {
+          estimatedMinutes: Math.ceil((rawDurationSec / 60) * multiplier),
+          distanceKm,
+          steps,
+        };
+      })
+      .filter(Boolean) as RouteEstimate[]
+  );
+}
+
+function toTransitRoute(
+  estimate: RouteEstimate,
+  mode: TravelMode,
+  departureMs: number,
+): TransitRoute {
+  const arrivalMs = departureMs + estimate.estimatedMinutes * 60 * 1000;
+  const isTransit = mode === "transit";
+  return {
+    mode,
+    departureTime: formatJstClock(departureMs),
+    arrivalTime: formatJstClock(arrivalMs),
+    departureAt: new Date(departureMs).toISOString(),
+    arrivalAt: new Date(arrivalMs).toISOString(),
+    durationMinutes: estimate.estimatedMinutes,
+    summary: isTransit
+      ? `車で約${estimate.distanceKm}km（推定${estimate.estimatedMinutes}分・乗換含む概算）`
+      : `${TRAVEL_MODE_LABELS[mode]}で約${estimate.distanceKm}km`,
+    steps: estimate.steps,
+    // A DRIVE estimate of a transit trip says nothing about the rail / bus
+    // legs; the other modes never transfer
+    transferCount: isTransit ? null : 0,
+    walkingMinutes: isTransit
+      ? null
+      : mode === "walk"
+        ? estimate.estimatedMinutes
+        : 0,
+    firstBoardingStation: null,
+    fare: null,
+    provider: PROVIDER_ID,
+  };
+}
+
+/**
+ * Depart-at: estimate from the requested departure (or now).
+ *
+ * Arrive-by: the Routes API only accepts `arrivalTime` for TRANSIT, so for
+ * DRIVE the departure is found in two passes — a rough guess one hour ahead
+ * of the deadline, then the time-of-day duration for the guessed departure.
+ * Walking and cycling times do not depend on the time of day, so one pass
+ * is enough. Each route is anchored so that it arrives exactly at the
+ * deadline.
+ */
+async function getRouteEstimates(
+  apiKey: string,
+  query: TransitQuery,
+): Promise<TransitRoute[]> {
+  const mode = query.mode ?? DEFAULT_TRAVEL_MODE;
+  const arriveByMs = parseIsoMs(query.arrivalTime);
+
+  // Estimates know no timetable, hence no last train
+  if (arriveByMs === null && query.latestDeparture) {
+    return [];
+  }
+
+  if (arriveByMs === null) {
+    const departureMs = parseIsoMs(query.departureTime) ?? Date.now();
+    const estimates = await requestRouteEstimates(
+      apiKey,
+      query,
+      mode,
+      departureMs,
+    );
+    return estimates.map((estimate) =>
+      toTransitRoute(estimate, mode, departureMs),
+    );
+  }
+
+  let estimates = await requestRouteEstimates(
+    apiKey,
+    query,
+    mode,
+    arriveByMs - ROUGH_LEAD_MS,
+  );
+  const rough = estimates[0];
+  if (!rough) {
+    return [];
+  }
+
+  if (ROUTES_TRAVEL_MODES[mode] === "DRIVE") {
+    estimates = await requestRouteEstimates(
+      apiKey,
+      query,
+      mode,
+      arriveByMs - rough.estimatedMinutes * 60 * 1000,
+    );
+  }
+  return estimates.map((estimate) =>
+    toTransitRoute(
+      estimate,
+      mode,
+      arriveByMs - estimate.estimatedMinutes * 60 * 1000,
+    ),
+  );
+}
+
+/**
+ * Google Routes API provider: the only provider for walk / bicycle / taxi /
+ * car, and the last-resort DRIVE-based estimate for transit when no
+ * timetable provider could answer the query.
+ */
+export function createGoogleRoutesProvider(apiKey: string): TransitProvider {
+  return {
+    id: PROVIDER_ID,
+    getDirections: (query) => getRouteEstimates(apiKey, query),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Minimal RFC 4180 CSV parser for GTFS text files.
+ *
+ * Handles a UTF-8 BOM, quoted fields (with `""` escapes and embedded
+ * newlines) and CRLF line endings. Returns one record per data row keyed by
+ * the header names.
+ */
+export function parseGtfsCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...data] = rows.filter(
+    (r) => r.length > 1 || (r[0] ?? "").trim().length > 0,
+  );
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map((key) => key.trim());
+  return data.map((values) => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      record[key] = (values[index] ?? "").trim();
+    });
+    return record;
+  });
+}
+
+/** "25:10:00" → 90600. Returns `null` for blank / malformed values. */
+export function parseGtfsTime(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = value.trim().match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
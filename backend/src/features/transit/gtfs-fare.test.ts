@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { GtfsTimetable } from "./gtfs.types";
+import { computeJourneyFare } from "./gtfs-fare";
+import { buildRaptorNetwork, searchDepartAt } from "./gtfs-raptor";
+import { getFixtureGtfsTimetable } from "./gtfs-timetable.fixture";
+
+const timetable = getFixtureGtfsTimetable();
+const network = buildRaptorNetwork(timetable);
+
+/** 8:00 */
+const MORNING_SECONDS = 8 * 3600;
+
+function fareBetween(
+  from: string,
+  to: string,
+  table: GtfsTimetable = timetable,
+) {
+  const [journey] = searchDepartAt(network, [from], [to], MORNING_SECONDS);
+  if (!journey) throw new Error(`No journey ${from} → ${to}`);
+  return computeJourneyFare(table, journey);
+}
+
+describe("computeJourneyFare", () => {
+  it("prices a ride by the zones it starts and ends in", () => {
+    // 梅田 → 天王寺, about 6 km
+    expect(fareBetween("osaka-metro:M16", "osaka-metro:M23")).toEqual({
+      ticketYen: 240,
+      icYen: 240,
+    });
+  });
+
+  it("charges each operator once", () => {
+    // 御堂筋線 梅田 → 淀屋橋 (190), 京阪 淀屋橋 → 出町柳 (490)
+    expect(fareBetween("osaka-metro:M16", "keihan:KH42")).toEqual({
+      ticketYen: 680,
+      icYen: 680,
+    });
+  });
+
+  it("charges one flat fare for the whole bus ride", () => {
+    expect(fareBetween("osaka-citybus:B01", "osaka-citybus:B06")).toEqual({
+      ticketYen: 210,
+      icYen: 210,
+    });
+  });
+
+  it("leaves the IC price unknown when an operator does not publish it", () => {
+    const fares = new Map(
+      [...timetable.fares].map(([key, fare]) => [
+        key,
+        key.startsWith("keihan:") ? { ...fare, icPriceYen: null } : fare,
+      ]),
+    );
+
+    expect(
+      fareBetween("osaka-metro:M16", "keihan:KH42", { ...timetable, fares }),
+    ).toEqual({ ticketYen: 680, icYen: null });
+  });
+
+  it("gives no fare when a ride cannot be priced", () => {
+    const fareRules = timetable.fareRules.filter(
+      (rule) => !rule.fareKey.startsWith("keihan:"),
+    );
+
+    expect(
+      fareBetween("osaka-metro:M16", "keihan:KH42", {
+        ...timetable,
+        fareRules,
+      }),
+    ).toBeNull();
+  });
+
+  it("costs nothing without a ride", () => {
+    expect(
+      computeJourneyFare(timetable, {
+        legs: [
+          {
+            kind: "walk",
+            fromStop: "osaka-metro:M17",
+            toStop: "keihan:KH01",
+            departSeconds: MORNING_SECONDS,
+            arriveSeconds: MORNING_SECONDS + 120,
+          },
+        ],
+        departSeconds: MORNING_SECONDS,
+        arriveSeconds: MORNING_SECONDS + 120,
+        transfers: 0,
+      }),
+    ).toEqual({ ticketYen: 0, icYen: 0 });
+  });
+});
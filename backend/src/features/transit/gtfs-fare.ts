@@ -0,0 +1,125 @@
+import type { GtfsFare, GtfsFareRule, GtfsTimetable } from "./gtfs.types";
+import type { RaptorJourney } from "./gtfs-raptor";
+import type { TransitFare } from "./transit.types";
+
+/**
+ * Consecutive rides on one operator, paid as a single fare (transfers inside
+ * the gates of the same operator are not charged again).
+ */
+type FareSegment = {
+  feedId: string;
+  routeKeys: Set<string>;
+  originStop: string;
+  destinationStop: string;
+};
+
+function feedOf(key: string): string {
+  return key.slice(0, key.indexOf(":"));
+}
+
+function toSegments(journey: RaptorJourney): FareSegment[] {
+  const segments: FareSegment[] = [];
+  for (const leg of journey.legs) {
+    if (leg.kind !== "transit") continue;
+
+    const feedId = feedOf(leg.trip.key);
+    const last = segments[segments.length - 1];
+    if (last && last.feedId === feedId) {
+      last.routeKeys.add(leg.trip.routeKey);
+      last.destinationStop = leg.toStop;
+    } else {
+      segments.push({
+        feedId,
+        routeKeys: new Set([leg.trip.routeKey]),
+        originStop: leg.fromStop,
+        destinationStop: leg.toStop,
+      });
+    }
+  }
+  return segments;
+}
+
+/** Number of constrained fields; more specific rules win. */
+function specificity(rule: GtfsFareRule): number {
+  return [rule.routeKey, rule.originZoneKey, rule.destinationZoneKey].filter(
+    (field) => field !== null,
+  ).length;
+}
+
+/**
+ * Fare for one segment: the most specific matching rule, the cheapest one
+ * on ties. A feed without rules and with a single fare is a flat fare.
+ */
+function findSegmentFare(
+  timetable: GtfsTimetable,
+  segment: FareSegment,
+): GtfsFare | null {
+  const originZone = timetable.stops.get(segment.originStop)?.zoneKey ?? null;
+  const destinationZone =
+    timetable.stops.get(segment.destinationStop)?.zoneKey ?? null;
+
+  const feedRules = timetable.fareRules.filter(
+    (rule) => feedOf(rule.fareKey) === segment.feedId,
+  );
+  if (feedRules.length === 0) {
+    const feedFares = [...timetable.fares.values()].filter(
+      (fare) => feedOf(fare.key) === segment.feedId,
+    );
+    return feedFares.length === 1 ? (feedFares[0] ?? null) : null;
+  }
+
+  let best: { fare: GtfsFare; specificity: number } | null = null;
+  for (const rule of feedRules) {
+    if (
+      (rule.routeKey !== null && !segment.routeKeys.has(rule.routeKey)) ||
+      (rule.originZoneKey !== null && rule.originZoneKey !== originZone) ||
+      (rule.destinationZoneKey !== null &&
+        rule.destinationZoneKey !== destinationZone)
+    ) {
+      continue;
+    }
+
+    const fare = timetable.fares.get(rule.fareKey);
+    if (!fare) continue;
+
+    const score = specificity(rule);
+    if (
+      !best ||
+      score > best.specificity ||
+      (score === best.specificity && fare.priceYen < best.fare.priceYen)
+    ) {
+      best = { fare, specificity: score };
+    }
+  }
+  return best?.fare ?? null;
+}
+
+/**
+ * Total fare of a journey, or null when a ride cannot be priced (a partial
+ * sum would understate the cost). The IC price is known only when every
+ * operator on the way publishes one.
+ */
+export function computeJourneyFare(
+  timetable: GtfsTimetable,
+  journey: RaptorJourney,
+): TransitFare | null {
+  const segments = toSegments(journey);
+  if (segments.length === 0) {
+    return { ticketYen: 0, icYen: 0 };
+  }
+
+  let ticketYen = 0;
+  let icYen: number | null = 0;
+  for (const segment of segments) {
+    const fare = findSegmentFare(timetable, segment);
+    if (!fare) {
+      return null;
+    }
+    ticketYen += fare.priceYen;
+    icYen =
+      icYen !== null && fare.icPriceYen !== null
+        ? icYen + fare.icPriceYen
+        : null;
+  }
+  return { ticketYen, icYen };
+}
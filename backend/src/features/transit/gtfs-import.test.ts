@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { GtfsFeedError, planGtfsImport, toSqlScript } from "./gtfs-import";
+
+const files = {
+  "stops.txt": [
+    "stop_id,stop_name,stop_lat,stop_lon",
+    "S1,梅田,34.7025,135.4959",
+    "S2,O'Hare  前,34.6937,135.5023",
+  ].join("\n"),
+  "routes.txt": "route_id,route_long_name,route_type\nR1,御堂筋線,1",
+  "trips.txt": "route_id,service_id,trip_id\nR1,WD,T1",
+  "stop_times.txt": [
+    "trip_id,arrival_time,departure_time,stop_id,stop_sequence",
+    "T1,08:00:00,08:00:00,S1,1",
+    "T1,08:05:00,08:05:00,S2,2",
+  ].join("\n"),
+};
+
+describe("planGtfsImport", () => {
+  it("writes a new version, switches to it, then drops the old ones", () => {
+    const { statements, summary } = planGtfsImport(
+      { feedId: "metro", name: "Osaka Metro", files },
+      new Date("2026-10-20T00:00:00Z"),
+    );
+
+    expect(summary).toEqual({
+      feedId: "metro",
+      stops: 2,
+      routes: 1,
+      trips: 1,
+      stopTimes: 2,
+      fares: 0,
+    });
+    const switchIndex = statements.findIndex((statement) =>
+      statement.sql.includes("insert into gtfs_feeds"),
+    );
+    const inserts = statements.filter((statement) =>
+      /insert into gtfs_(stops|routes|trips|stop_times)\b/.test(statement.sql),
+    );
+    expect(inserts).toHaveLength(6);
+    expect(
+      inserts.every((statement) => statements.indexOf(statement) < switchIndex),
+    ).toBe(true);
+    expect(statements.slice(switchIndex + 1).length).toBeGreaterThan(0);
+    expect(
+      statements
+        .slice(switchIndex + 1)
+        .every((statement) => statement.sql.includes("delete from")),
+    ).toBe(true);
+  });
+
+  it("rejects a feed without stop times", () => {
+    expect(() =>
+      planGtfsImport({
+        feedId: "metro",
+        name: "Osaka Metro",
+        files: { "stops.txt": files["stops.txt"] },
+      }),
+    ).toThrow(GtfsFeedError);
+  });
+});
+
+describe("toSqlScript", () => {
+  it("inlines the parameters as SQL literals", () => {
+    const sql = toSqlScript([
+      {
+        sql: `
+          insert into gtfs_stops (feed_id, stop_id, stop_name, zone_id)
+          values (?, ?, ?, ?)
+        `,
+        params: ["metro@1", "S2", "O'Hare  前?", null],
+      },
+      { sql: "delete from gtfs_stops where stop_lat > ?", params: [34.5] },
+    ]);
+
+    expect(sql).toBe(
+      "insert into gtfs_stops (feed_id, stop_id, stop_name, zone_id) values ('metro@1', 'S2', 'O''Hare  前?', null);\n" +
+        "delete from gtfs_stops where stop_lat > 34.5;\n",
+    );
+  });
+});
@@ -0,0 +1,370 @@
+import type {
+  GtfsFeedInput,
+  GtfsImportPlan,
+  GtfsStatement,
+} from "./gtfs.types";
+import { parseGtfsCsv, parseGtfsTime } from "./gtfs-csv";
+
+/**
+ * Thrown when the GTFS files themselves cannot be imported (missing files,
+ * too large to import in a request), as opposed to a database failure.
+ */
+export class GtfsFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GtfsFeedError";
+  }
+}
+
+const FEED_TABLES = [
+  "gtfs_stop_times",
+  "gtfs_trips",
+  "gtfs_routes",
+  "gtfs_stops",
+  "gtfs_calendar",
+  "gtfs_calendar_dates",
+  "gtfs_fare_attributes",
+  "gtfs_fare_rules",
+] as const;
+
+function flag(value: string | undefined): number {
+  return value === "1" ? 1 : 0;
+}
+
+/** Whole yen, or null for a missing / malformed price. */
+function yen(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? Math.round(price) : null;
+}
+
+/**
+ * Delete the rows of every version of a feed except the one `gtfs_feeds`
+ * points to — leftovers of an import that failed part way before the
+ * switch, the version just replaced after it.
+ */
+function deleteInactiveVersions(feedId: string): GtfsStatement[] {
+  const prefix = `${feedId}@`;
+  return FEED_TABLES.map((table) => ({
+    sql: `
+      delete from ${table}
+      where (feed_id = ? or substr(feed_id, 1, ?) = ?)
+        and feed_id != coalesce(
+          (select coalesce(version_id, feed_id) from gtfs_feeds where feed_id = ?),
+          ''
+        )
+    `,
+    params: [feedId, prefix.length, prefix, feedId],
+  }));
+}
+
+/**
+ * Every statement that replaces one feed with the contents of the given
+ * GTFS files, in the order they must run.
+ *
+ * Only the files the router needs are read: `stops.txt`, `routes.txt`,
+ * `trips.txt`, `stop_times.txt`, `calendar.txt` / `calendar_dates.txt` and
+ * the optional `fare_attributes.txt` / `fare_rules.txt` (JPY fares only).
+ *
+ * The rows go to a new version of the feed (`${feedId}@<time>`) that
+ * `gtfs_feeds` switches to only after every insert; the older versions are
+ * deleted last. Until the switch — and for good when an import fails —
+ * routing keeps using the previous version.
+ */
+export function planGtfsImport(
+  input: GtfsFeedInput,
+  now: Date = new Date(),
+): GtfsImportPlan {
+  const { feedId, files } = input;
+  const stops = parseGtfsCsv(files["stops.txt"] ?? "");
+  const routes = parseGtfsCsv(files["routes.txt"] ?? "");
+  const trips = parseGtfsCsv(files["trips.txt"] ?? "");
+  const stopTimes = parseGtfsCsv(files["stop_times.txt"] ?? "");
+  const calendar = parseGtfsCsv(files["calendar.txt"] ?? "");
+  const calendarDates = parseGtfsCsv(files["calendar_dates.txt"] ?? "");
+  const fareAttributes = parseGtfsCsv(files["fare_attributes.txt"] ?? "");
+  const fareRules = parseGtfsCsv(files["fare_rules.txt"] ?? "");
+
+  if (stops.length === 0 || trips.length === 0 || stopTimes.length === 0) {
+    throw new GtfsFeedError(
+      "GTFS feed must include stops.txt, trips.txt and stop_times.txt.",
+    );
+  }
+
+  const storageId = `${feedId}@${now.getTime().toString(36)}`;
+  const statements: GtfsStatement[] = deleteInactiveVersions(feedId);
+
+  for (const stop of stops) {
+    const lat = Number(stop.stop_lat);
+    const lon = Number(stop.stop_lon);
+    if (!stop.stop_id || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+      continue;
+    }
+    statements.push({
+      sql: `
+        insert into gtfs_stops (
+          feed_id,
+          stop_id,
+          stop_name,
+          stop_lat,
+          stop_lon,
+          zone_id
+        )
+        values (?, ?, ?, ?, ?, ?)
+      `,
+      params: [
+        storageId,
+        stop.stop_id,
+        stop.stop_name ?? stop.stop_id,
+        lat,
+        lon,
+        stop.zone_id || null,
+      ],
+    });
+  }
+
+  for (const route of routes) {
+    if (!route.route_id) {
+      continue;
+    }
+    const name =
+      route.route_long_name || route.route_short_name || route.route_id;
+    statements.push({
+      sql: `
+        insert into gtfs_routes (feed_id, route_id, route_name, route_type)
+        values (?, ?, ?, ?)
+      `,
+      params: [storageId, route.route_id, name, Number(route.route_type) || 0],
+    });
+  }
+
+  // Trip time bounds let the loader fetch only trips overlapping a window.
+  const tripBounds = new Map<string, { start: number; end: number }>();
+  let stopTimeCount = 0;
+  for (const stopTime of stopTimes) {
+    const arrival = parseGtfsTime(stopTime.arrival_time);
+    const departure = parseGtfsTime(stopTime.departure_time);
+    const arrivalSeconds = arrival ?? departure;
+    const departureSeconds = departure ?? arrival;
+    if (
+      !stopTime.trip_id ||
+      !stopTime.stop_id ||
+      arrivalSeconds === null ||
+      departureSeconds === null
+    ) {
+      continue;
+    }
+
+    const bounds = tripBounds.get(stopTime.trip_id);
+    tripBounds.set(stopTime.trip_id, {
+      start: Math.min(bounds?.start ?? departureSeconds, departureSeconds),
+      end: Math.max(bounds?.end ?? arrivalSeconds, arrivalSeconds),
+    });
+
+    stopTimeCount++;
+    statements.push({
+      sql: `
+        insert into gtfs_stop_times (
+          feed_id,
+          trip_id,
+          stop_sequence,
+          stop_id,
+          arrival_seconds,
+          departure_seconds
+        )
+        values (?, ?, ?, ?, ?, ?)
+      `,
+      params: [
+        storageId,
+        stopTime.trip_id,
+        Number(stopTime.stop_sequence) || 0,
+        stopTime.stop_id,
+        arrivalSeconds,
+        departureSeconds,
+      ],
+    });
+  }
+
+  let tripCount = 0;
+  for (const trip of trips) {
+    const bounds = tripBounds.get(trip.trip_id);
+    if (!bounds) {
+      continue;
+    }
+    tripCount++;
+    statements.push({
+      sql: `
+        insert into gtfs_trips (
+          feed_id,
+          trip_id,
+          route_id,
+          service_id,
+          trip_headsign,
+          start_seconds,
+          end_seconds
+        )
+        values (?, ?, ?, ?, ?, ?, ?)
+      `,
+      params: [
+        storageId,
+        trip.trip_id,
+        trip.route_id,
+        trip.service_id,
+        trip.trip_headsign || null,
+        bounds.start,
+        bounds.end,
+      ],
+    });
+  }
+
+  for (const service of calendar) {
+    statements.push({
+      sql: `
+        insert into gtfs_calendar (
+          feed_id,
+          service_id,
+          monday,
+          tuesday,
+          wednesday,
+          thursday,
+          friday,
+          saturday,
+          sunday,
+          start_date,
+          end_date
+        )
+        values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      params: [
+        storageId,
+        service.service_id,
+        flag(service.monday),
+        flag(service.tuesday),
+        flag(service.wednesday),
+        flag(service.thursday),
+        flag(service.friday),
+        flag(service.saturday),
+        flag(service.sunday),
+        service.start_date,
+        service.end_date,
+      ],
+    });
+  }
+
+  for (const exception of calendarDates) {
+    statements.push({
+      sql: `
+        insert into gtfs_calendar_dates (feed_id, service_id, date, exception_type)
+        values (?, ?, ?, ?)
+      `,
+      params: [
+        storageId,
+        exception.service_id,
+        exception.date,
+        Number(exception.exception_type) || 0,
+      ],
+    });
+  }
+
+  const fareIds = new Set<string>();
+  for (const fare of fareAttributes) {
+    const price = yen(fare.price);
+    if (
+      !fare.fare_id ||
+      price === null ||
+      (fare.currency_type && fare.currency_type !== "JPY")
+    ) {
+      continue;
+    }
+    fareIds.add(fare.fare_id);
+    statements.push({
+      sql: `
+        insert into gtfs_fare_attributes (feed_id, fare_id, price, ic_price)
+        values (?, ?, ?, ?)
+      `,
+      params: [storageId, fare.fare_id, price, yen(fare.ic_price)],
+    });
+  }
+
+  for (const rule of fareRules) {
+    if (!fareIds.has(rule.fare_id ?? "")) {
+      continue;
+    }
+    statements.push({
+      sql: `
+        insert into gtfs_fare_rules (
+          feed_id,
+          fare_id,
+          route_id,
+          origin_id,
+          destination_id
+        )
+        values (?, ?, ?, ?, ?)
+      `,
+      params: [
+        storageId,
+        rule.fare_id,
+        rule.route_id || null,
+        rule.origin_id || null,
+        rule.destination_id || null,
+      ],
+    });
+  }
+
+  statements.push(
+    {
+      sql: `
+        insert into gtfs_feeds (feed_id, name, version_id, imported_at)
+        values (?, ?, ?, ?)
+        on conflict(feed_id) do update set
+          name = excluded.name,
+          version_id = excluded.version_id,
+          imported_at = excluded.imported_at
+      `,
+      params: [feedId, input.name, storageId, now.toISOString()],
+    },
+    ...deleteInactiveVersions(feedId),
+  );
+
+  return {
+    statements,
+    summary: {
+      feedId,
+      stops: stops.length,
+      routes: routes.length,
+      trips: tripCount,
+      stopTimes: stopTimeCount,
+      fares: fareIds.size,
+    },
+  };
+}
+
+function toSqlLiteral(value: string | number | null): string {
+  if (value === null) {
+    return "null";
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return `'${value.replaceAll("'", "''")}'`;
+}
+
+/**
+ * The statements as one SQL script with the parameters inlined, one
+ * statement per line — for `wrangler d1 execute --file`.
+ */
+export function toSqlScript(statements: GtfsStatement[]): string {
+  return statements
+    .map((statement) => {
+      // Collapse the template first: values keep their own whitespace
+      let index = 0;
+      const sql = statement.sql
+        .trim()
+        .replace(/\s+/g, " ")
+        .replace(/\?/g, () => toSqlLiteral(statement.params[index++] ?? null));
+      return `${sql};\n`;
+    })
+    .join("");
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRaptorNetwork,
+  type RaptorJourney,
+  searchArriveBy,
+  searchDepartAt,
+} from "./gtfs-raptor";
+import { getFixtureGtfsTimetable } from "./gtfs-timetable.fixture";
+
+const network = buildRaptorNetwork(getFixtureGtfsTimetable());
+
+const UMEDA = "osaka-metro:M16";
+const TENNOJI = "osaka-metro:M23";
+const DEMACHIYANAGI = "keihan:KH42";
+
+/** "8:01" → seconds since midnight */
+function at(clock: string): number {
+  const [h, m] = clock.split(":").map(Number);
+  return (h ?? 0) * 3600 + (m ?? 0) * 60;
+}
+
+function expectConnected(journey: RaptorJourney): void {
+  journey.legs.forEach((leg, index) => {
+    const previous = journey.legs[index - 1];
+    if (previous) {
+      expect(leg.fromStop).toBe(previous.toStop);
+      expect(leg.departSeconds).toBeGreaterThanOrEqual(previous.arriveSeconds);
+    }
+  });
+}
+
+describe("searchDepartAt", () => {
+  it("rides the next train on a single line", () => {
+    const [journey] = searchDepartAt(network, [UMEDA], [TENNOJI], at("8:00"));
+
+    expect(journey).toMatchObject({
+      departSeconds: at("8:01"),
+      arriveSeconds: at("8:15"),
+      transfers: 0,
+    });
+    expect(journey?.legs).toHaveLength(1);
+    expect(journey?.legs[0]).toMatchObject({
+      kind: "transit",
+      fromStop: UMEDA,
+      toStop: TENNOJI,
+      numStops: 7,
+    });
+  });
+
+  it("walks between operators at a shared station", () => {
+    const [journey] = searchDepartAt(
+      network,
+      [UMEDA],
+      [DEMACHIYANAGI],
+      at("8:00"),
+    );
+
+    expect(journey?.legs.map((leg) => leg.kind)).toEqual([
+      "transit",
+      "walk",
+      "transit",
+    ]);
+    expect(journey?.legs[1]).toMatchObject({
+      fromStop: "osaka-metro:M17",
+      toStop: "keihan:KH01",
+    });
+    expect(journey).toMatchObject({
+      arriveSeconds: at("9:09"),
+      transfers: 1,
+    });
+    if (journey) expectConnected(journey);
+  });
+
+  it("finds nothing after the last train", () => {
+    expect(searchDepartAt(network, [UMEDA], [TENNOJI], at("23:57"))).toEqual(
+      [],
+    );
+  });
+});
+
+describe("searchArriveBy", () => {
+  it("leaves on the last train that arrives in time", () => {
+    const [journey] = searchArriveBy(network, [UMEDA], [TENNOJI], at("9:00"));
+
+    expect(journey).toMatchObject({
+      departSeconds: at("8:46"),
+      arriveSeconds: at("9:00"),
+      transfers: 0,
+    });
+  });
+
+  it("transfers backwards in time as the forward search does", () => {
+    const [journey] = searchArriveBy(
+      network,
+      [UMEDA],
+      [DEMACHIYANAGI],
+      at("9:09"),
+    );
+
+    expect(journey?.legs.map((leg) => leg.kind)).toEqual([
+      "transit",
+      "walk",
+      "transit",
+    ]);
+    expect(journey?.arriveSeconds).toBeLessThanOrEqual(at("9:09"));
+    expect(journey?.departSeconds).toBeGreaterThanOrEqual(at("8:01"));
+    if (journey) expectConnected(journey);
+  });
+});
@@ -0,0 +1,680 @@
+import type { GtfsStop, GtfsTimetable, GtfsTrip } from "./gtfs.types";
+
+// ---------------------------------------------------------------------------
+// RAPTOR (Round-bAsed Public Transit Optimized Router)
+//
+// Delling, Pajor & Werneck, "Round-Based Public Transit Routing" (2012).
+// Round k finds the earliest arrival at every stop using at most k vehicles,
+// so each round that improves the destination yields one Pareto-optimal
+// journey (arrival time vs. number of transfers). The arrive-by variant runs
+// the same rounds backwards in time from the destination.
+// ---------------------------------------------------------------------------
+
+/** Extra time needed to change vehicles at the same stop. */
+const SAME_STOP_TRANSFER_SECONDS = 60;
+/** Stops closer than this are connected by a walking transfer. */
+const MAX_FOOTPATH_METERS = 500;
+/** ~4.8 km/h, the usual Japanese real-estate walking speed. */
+const WALK_METERS_PER_MINUTE = 80;
+/** Default number of transfers explored (rounds = transfers + 1). */
+const DEFAULT_MAX_TRANSFERS = 4;
+
+type Pattern = {
+  routeKey: string;
+  stopKeys: string[];
+  /** Sorted by departure at the first stop (trips assumed not to overtake). */
+  trips: GtfsTrip[];
+};
+
+type Footpath = { toStop: string; seconds: number };
+
+export type RaptorNetwork = {
+  stops: Map<string, GtfsStop>;
+  patterns: Pattern[];
+  patternsByStop: Map<string, { patternIndex: number; position: number }[]>;
+  footpaths: Map<string, Footpath[]>;
+};
+
+/**
+ * How a stop was reached in a round. For walks, `viaStop` is the neighbour on
+ * the search-root side: the stop walked *from* in a forward search, *to* in a
+ * backward one.
+ */
+type Label =
+  | { kind: "root" }
+  | {
+      kind: "transit";
+      patternIndex: number;
+      tripIndex: number;
+      boardPosition: number;
+      alightPosition: number;
+    }
+  | { kind: "walk"; viaStop: string; seconds: number };
+
+export type RaptorLeg =
+  | {
+      kind: "transit";
+      trip: GtfsTrip;
+      fromStop: string;
+      toStop: string;
+      departSeconds: number;
+      arriveSeconds: number;
+      numStops: number;
+    }
+  | {
+      kind: "walk";
+      fromStop: string;
+      toStop: string;
+      departSeconds: number;
+      arriveSeconds: number;
+    };
+
+export type RaptorJourney = {
+  legs: RaptorLeg[];
+  departSeconds: number;
+  arriveSeconds: number;
+  transfers: number;
+};
+
+// ---------------------------------------------------------------------------
+// Network construction
+// ---------------------------------------------------------------------------
+
+/** Great-circle distance between two points (stops, coordinates, …). */
+export function distanceMeters(
+  a: Pick<GtfsStop, "lat" | "lon">,
+  b: Pick<GtfsStop, "lat" | "lon">,
+): number {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLon = (b.lon - a.lon) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+/** Walking time used for footpaths and station access, in seconds. */
+export function walkingSeconds(meters: number): number {
+  return Math.max(1, Math.ceil(meters / WALK_METERS_PER_MINUTE)) * 60;
+}
+
+/**
+ * Group trips into patterns (same line, same stop sequence) and derive
+ * walking transfers between nearby stops, e.g. Keihan and Osaka Metro
+ * platforms at 淀屋橋.
+ */
+export function buildRaptorNetwork(timetable: GtfsTimetable): RaptorNetwork {
+  const byPattern = new Map<string, Pattern>();
+  for (const trip of timetable.trips) {
+    const id = `${trip.routeKey}|${trip.stopKeys.join(">")}`;
+    let pattern = byPattern.get(id);
+    if (!pattern) {
+      pattern = { routeKey: trip.routeKey, stopKeys: trip.stopKeys, trips: [] };
+      byPattern.set(id, pattern);
+    }
+    pattern.trips.push(trip);
+  }
+
+  const patterns = [...byPattern.values()];
+  const patternsByStop = new Map<
+    string,
+    { patternIndex: number; position: number }[]
+  >();
+  patterns.forEach((pattern, patternIndex) => {
+    pattern.trips.sort(
+      (a, b) => (a.departures[0] ?? 0) - (b.departures[0] ?? 0),
+    );
+    pattern.stopKeys.forEach((stopKey, position) => {
+      const list = patternsByStop.get(stopKey) ?? [];
+      list.push({ patternIndex, position });
+      patternsByStop.set(stopKey, list);
+    });
+  });
+
+  const served = [...patternsByStop.keys()]
+    .map((key) => timetable.stops.get(key))
+    .filter((stop): stop is GtfsStop => stop !== undefined);
+  const footpaths = new Map<string, Footpath[]>();
+  for (let i = 0; i < served.length; i++) {
+    for (let j = i + 1; j < served.length; j++) {
+      const a = served[i] as GtfsStop;
+      const b = served[j] as GtfsStop;
+      const meters = distanceMeters(a, b);
+      if (meters > MAX_FOOTPATH_METERS) {
+        continue;
+      }
+      const seconds = walkingSeconds(meters) + SAME_STOP_TRANSFER_SECONDS;
+      footpaths.set(a.key, [
+        ...(footpaths.get(a.key) ?? []),
+        { toStop: b.key, seconds },
+      ]);
+      footpaths.set(b.key, [
+        ...(footpaths.get(b.key) ?? []),
+        { toStop: a.key, seconds },
+      ]);
+    }
+  }
+
+  return { stops: timetable.stops, patterns, patternsByStop, footpaths };
+}
+
+// ---------------------------------------------------------------------------
+// Search helpers
+// ---------------------------------------------------------------------------
+
+/** Index of the first trip departing `position` at or after `time`, or -1. */
+function earliestTrip(
+  pattern: Pattern,
+  position: number,
+  time: number,
+): number {
+  let lo = 0;
+  let hi = pattern.trips.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    const departure = pattern.trips[mid]?.departures[position] ?? 0;
+    if (departure < time) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo < pattern.trips.length ? lo : -1;
+}
+
+/** Index of the last trip arriving at `position` at or before `time`, or -1. */
+function latestTrip(pattern: Pattern, position: number, time: number): number {
+  let lo = 0;
+  let hi = pattern.trips.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    const arrival = pattern.trips[mid]?.arrivals[position] ?? 0;
+    if (arrival <= time) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo - 1;
+}
+
+/** Latest round ≤ `round` in which `stop` was labelled. */
+function findLabel(
+  labels: Map<string, Label>[],
+  stop: string,
+  round: number,
+): { label: Label; round: number } | null {
+  for (let r = round; r >= 0; r--) {
+    const label = labels[r]?.get(stop);
+    if (label) {
+      return { label, round: r };
+    }
+  }
+  return null;
+}
+
+function reconstructForward(
+  network: RaptorNetwork,
+  arrivals: Map<string, number>[],
+  labels: Map<string, Label>[],
+  target: string,
+  round: number,
+): RaptorJourney | null {
+  const legs: RaptorLeg[] = [];
+  let stop = target;
+  let current = round;
+
+  while (true) {
+    const found = findLabel(labels, stop, current);
+    if (!found) {
+      return null;
+    }
+
+    const { label } = found;
+    if (label.kind === "root") {
+      break;
+    }
+
+    if (label.kind === "walk") {
+      const departSeconds = arrivals[found.round]?.get(label.viaStop) ?? 0;
+      legs.unshift({
+        kind: "walk",
+        fromStop: label.viaStop,
+        toStop: stop,
+        departSeconds,
+        arriveSeconds: departSeconds + label.seconds,
+      });
+      stop = label.viaStop;
+      current = found.round;
+      continue;
+    }
+
+    const pattern = network.patterns[label.patternIndex] as Pattern;
+    const trip = pattern.trips[label.tripIndex] as GtfsTrip;
+    const fromStop = pattern.stopKeys[label.boardPosition] as string;
+    legs.unshift({
+      kind: "transit",
+      trip,
+      fromStop,
+      toStop: stop,
+      departSeconds: trip.departures[label.boardPosition] ?? 0,
+      arriveSeconds: trip.arrivals[label.alightPosition] ?? 0,
+      numStops: label.alightPosition - label.boardPosition,
+    });
+    stop = fromStop;
+    current = found.round - 1;
+  }
+
+  // Leave just in time for the first vehicle instead of at the query time.
+  const [first, second] = legs;
+  if (first?.kind === "walk" && second?.kind === "transit") {
+    const walk = first.arriveSeconds - first.departSeconds;
+    first.arriveSeconds = second.departSeconds;
+    first.departSeconds = second.departSeconds - walk;
+  }
+
+  return toJourney(legs);
+}
+
+function reconstructBackward(
+  network: RaptorNetwork,
+  departures: Map<string, number>[],
+  labels: Map<string, Label>[],
+  origin: string,
+  round: number,
+): RaptorJourney | null {
+  const legs: RaptorLeg[] = [];
+  let stop = origin;
+  let current = round;
+
+  while (true) {
+    const found = findLabel(labels, stop, current);
+    if (!found) {
+      return null;
+    }
+
+    const { label } = found;
+    if (label.kind === "root") {
+      break;
+    }
+
+    if (label.kind === "walk") {
+      const arriveSeconds = departures[found.round]?.get(label.viaStop) ?? 0;
+      legs.push({
+        kind: "walk",
+        fromStop: stop,
+        toStop: label.viaStop,
+        departSeconds: arriveSeconds - label.seconds,
+        arriveSeconds,
+      });
+      stop = label.viaStop;
+      current = found.round;
+      continue;
+    }
+
+    const pattern = network.patterns[label.patternIndex] as Pattern;
+    const trip = pattern.trips[label.tripIndex] as GtfsTrip;
+    const toStop = pattern.stopKeys[label.alightPosition] as string;
+    legs.push({
+      kind: "transit",
+      trip,
+      fromStop: stop,
+      toStop,
+      departSeconds: trip.departures[label.boardPosition] ?? 0,
+      arriveSeconds: trip.arrivals[label.alightPosition] ?? 0,
+      numStops: label.alightPosition - label.boardPosition,
+    });
+    stop = toStop;
+    current = found.round - 1;
+  }
+
+  // Walk on as soon as the last vehicle arrives instead of at the deadline.
+  const last = legs[legs.length - 1];
+  const beforeLast = legs[legs.length - 2];
+  if (last?.kind === "walk" && beforeLast?.kind === "transit") {
+    const walk = last.arriveSeconds - last.departSeconds;
+    last.departSeconds = beforeLast.arriveSeconds;
+    last.arriveSeconds = beforeLast.arriveSeconds + walk;
+  }
+
+  return toJourney(legs);
+}
+
+function toJourney(legs: RaptorLeg[]): RaptorJourney | null {
+  const first = legs[0];
+  const last = legs[legs.length - 1];
+  if (!first || !last) {
+    return null;
+  }
+
+  const transitLegs = legs.filter((leg) => leg.kind === "transit").length;
+  return {
+    legs,
+    departSeconds: first.departSeconds,
+    arriveSeconds: last.arriveSeconds,
+    transfers: Math.max(0, transitLegs - 1),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public
+// ---------------------------------------------------------------------------
+
+/**
+ * Earliest-arrival search leaving the origin stops at `departSeconds`.
+ *
+ * Returns one journey per transfer count that improved the arrival time,
+ * fastest first.
+ */
+export function searchDepartAt(
+  network: RaptorNetwork,
+  originStops: string[],
+  targetStops: string[],
+  departSeconds: number,
+  maxTransfers = DEFAULT_MAX_TRANSFERS,
+): RaptorJourney[] {
+  const targets = new Set(targetStops);
+  const best = new Map<string, number>();
+  const arrivals: Map<string, number>[] = [new Map()];
+  const labels: Map<string, Label>[] = [new Map()];
+  const journeys: RaptorJourney[] = [];
+  let bestTarget = Number.POSITIVE_INFINITY;
+
+  const improve = (
+    round: number,
+    stop: string,
+    time: number,
+    label: Label,
+  ): boolean => {
+    if (
+      time >= Math.min(best.get(stop) ?? Number.POSITIVE_INFINITY, bestTarget)
+    ) {
+      return false;
+    }
+    arrivals[round]?.set(stop, time);
+    labels[round]?.set(stop, label);
+    best.set(stop, time);
+    return true;
+  };
+
+  const relaxFootpaths = (round: number, from: Iterable<string>): string[] => {
+    const reached: string[] = [];
+    for (const stop of [...from]) {
+      const base = arrivals[round]?.get(stop);
+      if (base === undefined) continue;
+      for (const path of network.footpaths.get(stop) ?? []) {
+        const label: Label = {
+          kind: "walk",
+          viaStop: stop,
+          seconds: path.seconds,
+        };
+        if (improve(round, path.toStop, base + path.seconds, label)) {
+          reached.push(path.toStop);
+        }
+      }
+    }
+    return reached;
+  };
+
+  let marked = new Set<string>();
+  for (const stop of originStops) {
+    if (improve(0, stop, departSeconds, { kind: "root" })) {
+      marked.add(stop);
+    }
+  }
+  for (const stop of relaxFootpaths(0, marked)) {
+    marked.add(stop);
+  }
+
+  for (let round = 1; round <= maxTransfers + 1 && marked.size > 0; round++) {
+    const previous = arrivals[round - 1] as Map<string, number>;
+    arrivals.push(new Map(previous));
+    labels.push(new Map());
+
+    const queue = new Map<number, number>();
+    for (const stop of marked) {
+      for (const { patternIndex, position } of network.patternsByStop.get(
+        stop,
+      ) ?? []) {
+        const queued = queue.get(patternIndex);
+        if (queued === undefined || position < queued) {
+          queue.set(patternIndex, position);
+        }
+      }
+    }
+
+    const improved = new Set<string>();
+    for (const [patternIndex, startPosition] of queue) {
+      const pattern = network.patterns[patternIndex] as Pattern;
+      let tripIndex = -1;
+      let boardPosition = -1;
+
+      for (
+        let position = startPosition;
+        position < pattern.stopKeys.length;
+        position++
+      ) {
+        const stop = pattern.stopKeys[position] as string;
+
+        if (tripIndex >= 0) {
+          const trip = pattern.trips[tripIndex] as GtfsTrip;
+          const arrival = trip.arrivals[position] ?? 0;
+          const label: Label = {
+            kind: "transit",
+            patternIndex,
+            tripIndex,
+            boardPosition,
+            alightPosition: position,
+          };
+          if (improve(round, stop, arrival, label)) {
+            improved.add(stop);
+          }
+        }
+
+        const reachedAt = previous.get(stop);
+        if (reachedAt === undefined) continue;
+
+        const arrivedBy = findLabel(labels, stop, round - 1)?.label.kind;
+        const ready =
+          reachedAt +
+          (arrivedBy === "transit" ? SAME_STOP_TRANSFER_SECONDS : 0);
+        const currentDeparture =
+          tripIndex >= 0
+            ? (pattern.trips[tripIndex]?.departures[position] ?? 0)
+            : Number.POSITIVE_INFINITY;
+        if (ready <= currentDeparture) {
+          const candidate = earliestTrip(pattern, position, ready);
+          if (candidate >= 0) {
+            tripIndex = candidate;
+            boardPosition = position;
+          }
+        }
+      }
+    }
+
+    for (const stop of relaxFootpaths(round, improved)) {
+      improved.add(stop);
+    }
+
+    let roundTarget: string | null = null;
+    for (const stop of targets) {
+      const time = arrivals[round]?.get(stop);
+      if (time !== undefined && labels[round]?.has(stop) && time < bestTarget) {
+        bestTarget = time;
+        roundTarget = stop;
+      }
+    }
+    if (roundTarget) {
+      const journey = reconstructForward(
+        network,
+        arrivals,
+        labels,
+        roundTarget,
+        round,
+      );
+      if (journey) journeys.push(journey);
+    }
+
+    marked = improved;
+  }
+
+  return journeys.sort((a, b) => a.arriveSeconds - b.arriveSeconds);
+}
+
+/**
+ * Latest-departure search reaching the target stops by `arriveSeconds`
+ * (arrive-by). Mirrors `searchDepartAt` backwards in time.
+ *
+ * Returns one journey per transfer count that improved the departure time,
+ * latest departure first.
+ */
+export function searchArriveBy(
+  network: RaptorNetwork,
+  originStops: string[],
+  targetStops: string[],
+  arriveSeconds: number,
+  maxTransfers = DEFAULT_MAX_TRANSFERS,
+): RaptorJourney[] {
+  const origins = new Set(originStops);
+  const best = new Map<string, number>();
+  const departures: Map<string, number>[] = [new Map()];
+  const labels: Map<string, Label>[] = [new Map()];
+  const journeys: RaptorJourney[] = [];
+  let bestOrigin = Number.NEGATIVE_INFINITY;
+
+  const improve = (
+    round: number,
+    stop: string,
+    time: number,
+    label: Label,
+  ): boolean => {
+    if (
+      time <= Math.max(best.get(stop) ?? Number.NEGATIVE_INFINITY, bestOrigin)
+    ) {
+      return false;
+    }
+    departures[round]?.set(stop, time);
+    labels[round]?.set(stop, label);
+    best.set(stop, time);
+    return true;
+  };
+
+  const relaxFootpaths = (round: number, from: Iterable<string>): string[] => {
+    const reached: string[] = [];
+    for (const stop of [...from]) {
+      const base = departures[round]?.get(stop);
+      if (base === undefined) continue;
+      for (const path of network.footpaths.get(stop) ?? []) {
+        const label: Label = {
+          kind: "walk",
+          viaStop: stop,
+          seconds: path.seconds,
+        };
+        if (improve(round, path.toStop, base - path.seconds, label)) {
+          reached.push(path.toStop);
+        }
+      }
+    }
+    return reached;
+  };
+
+  let marked = new Set<string>();
+  for (const stop of targetStops) {
+    if (improve(0, stop, arriveSeconds, { kind: "root" })) {
+      marked.add(stop);
+    }
+  }
+  for (const stop of relaxFootpaths(0, marked)) {
+    marked.add(stop);
+  }
+
+  for (let round = 1; round <= maxTransfers + 1 && marked.size > 0; round++) {
+    const previous = departures[round - 1] as Map<string, number>;
+    departures.push(new Map(previous));
+    labels.push(new Map());
+
+    const queue = new Map<number, number>();
+    for (const stop of marked) {
+      for (const { patternIndex, position } of network.patternsByStop.get(
+        stop,
+      ) ?? []) {
+        const queued = queue.get(patternIndex);
+        if (queued === undefined || position > queued) {
+          queue.set(patternIndex, position);
+        }
+      }
+    }
+
+    const improved = new Set<string>();
+    for (const [patternIndex, startPosition] of queue) {
+      const pattern = network.patterns[patternIndex] as Pattern;
+      let tripIndex = -1;
+      let alightPosition = -1;
+
+      for (let position = startPosition; position >= 0; position--) {
+        const stop = pattern.stopKeys[position] as string;
+
+        if (tripIndex >= 0) {
+          const trip = pattern.trips[tripIndex] as GtfsTrip;
+          const departure = trip.departures[position] ?? 0;
+          const label: Label = {
+            kind: "transit",
+            patternIndex,
+            tripIndex,
+            boardPosition: position,
+            alightPosition,
+          };
+          if (improve(round, stop, departure, label)) {
+            improved.add(stop);
+          }
+        }
+
+        const neededAt = previous.get(stop);
+        if (neededAt === undefined) continue;
+
+        const leavesBy = findLabel(labels, stop, round - 1)?.label.kind;
+        const ready =
+          neededAt - (leavesBy === "transit" ? SAME_STOP_TRANSFER_SECONDS : 0);
+        const currentArrival =
+          tripIndex >= 0
+            ? (pattern.trips[tripIndex]?.arrivals[position] ?? 0)
+            : Number.NEGATIVE_INFINITY;
+        if (ready >= currentArrival) {
+          const candidate = latestTrip(pattern, position, ready);
+          if (candidate >= 0) {
+            tripIndex = candidate;
+            alightPosition = position;
+          }
+        }
+      }
+    }
+
+    for (const stop of relaxFootpaths(round, improved)) {
+      improved.add(stop);
+    }
+
+    let roundOrigin: string | null = null;
+    for (const stop of origins) {
+      const time = departures[round]?.get(stop);
+      if (time !== undefined && labels[round]?.has(stop) && time > bestOrigin) {
+        bestOrigin = time;
+        roundOrigin = stop;
+      }
+    }
+    if (roundOrigin) {
+      const journey = reconstructBackward(
+        network,
+        departures,
+        labels,
+        roundOrigin,
+        round,
+      );
+      if (journey) journeys.push(journey);
+    }
+
+    marked = improved;
+  }
+
+  return journeys.sort((a, b) => b.departSeconds - a.departSeconds);
+}
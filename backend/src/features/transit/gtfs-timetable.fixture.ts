@@ -0,0 +1,98 @@
+import { getFixtureGtfsFeeds } from "./gtfs.fixture";
+import type {
+  GtfsFare,
+  GtfsFareRule,
+  GtfsRoute,
+  GtfsStop,
+  GtfsTimetable,
+  GtfsTrip,
+} from "./gtfs.types";
+import { parseGtfsCsv, parseGtfsTime } from "./gtfs-csv";
+
+function toKey(feedId: string, id: string): string {
+  return `${feedId}:${id}`;
+}
+
+function optionalKey(feedId: string, id: string | undefined): string | null {
+  return id ? toKey(feedId, id) : null;
+}
+
+/**
+ * The fixture feeds as the router sees them after `importGtfsFeed` and
+ * `loadGtfsTimetable` — every trip runs daily, so no service day is needed.
+ * Lets the router and fare tests run without D1.
+ */
+export function getFixtureGtfsTimetable(): GtfsTimetable {
+  const stops = new Map<string, GtfsStop>();
+  const routes = new Map<string, GtfsRoute>();
+  const trips = new Map<string, GtfsTrip>();
+  const fares = new Map<string, GtfsFare>();
+  const fareRules: GtfsFareRule[] = [];
+
+  for (const { feedId, files } of getFixtureGtfsFeeds()) {
+    const csv = (name: string) => parseGtfsCsv(files[name] ?? "");
+
+    for (const row of csv("stops.txt")) {
+      const key = toKey(feedId, row.stop_id ?? "");
+      stops.set(key, {
+        key,
+        name: row.stop_name ?? "",
+        lat: Number(row.stop_lat),
+        lon: Number(row.stop_lon),
+        zoneKey: optionalKey(feedId, row.zone_id),
+      });
+    }
+
+    for (const row of csv("routes.txt")) {
+      const key = toKey(feedId, row.route_id ?? "");
+      routes.set(key, {
+        key,
+        name: row.route_long_name ?? "",
+        type: Number(row.route_type),
+      });
+    }
+
+    for (const row of csv("trips.txt")) {
+      const key = toKey(feedId, row.trip_id ?? "");
+      trips.set(key, {
+        key,
+        routeKey: toKey(feedId, row.route_id ?? ""),
+        headsign: row.trip_headsign || null,
+        stopKeys: [],
+        arrivals: [],
+        departures: [],
+      });
+    }
+
+    // The fixture writes stop times in stop-sequence order
+    for (const row of csv("stop_times.txt")) {
+      const trip = trips.get(toKey(feedId, row.trip_id ?? ""));
+      const arrival = parseGtfsTime(row.arrival_time);
+      const departure = parseGtfsTime(row.departure_time);
+      if (!trip || arrival === null || departure === null) continue;
+      trip.stopKeys.push(toKey(feedId, row.stop_id ?? ""));
+      trip.arrivals.push(arrival);
+      trip.departures.push(departure);
+    }
+
+    for (const row of csv("fare_attributes.txt")) {
+      const key = toKey(feedId, row.fare_id ?? "");
+      fares.set(key, {
+        key,
+        priceYen: Number(row.price),
+        icPriceYen: row.ic_price ? Number(row.ic_price) : null,
+      });
+    }
+
+    for (const row of csv("fare_rules.txt")) {
+      fareRules.push({
+        fareKey: toKey(feedId, row.fare_id ?? ""),
+        routeKey: optionalKey(feedId, row.route_id),
+        originZoneKey: optionalKey(feedId, row.origin_id),
+        destinationZoneKey: optionalKey(feedId, row.destination_id),
+      });
+    }
+  }
+
+  return { stops, routes, trips: [...trips.values()], fares, fareRules };
+}
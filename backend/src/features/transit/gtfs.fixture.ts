@@ -0,0 +1,318 @@
+import type { GtfsFeedInput } from "./gtfs.types";
+
+// ---------------------------------------------------------------------------
+// Offline fixture feeds
+//
+// A small, hand-written slice of the Kansai network (Osaka Metro 御堂筋線 /
+// 長堀鶴見緑地線, 京阪本線 and one city bus line) in real GTFS CSV form, so the
+// importer and router can be exercised locally without downloading feeds.
+// Coordinates are approximate, the timetable is a regular headway and the
+// distance fares use straight-line distance, not the published tables.
+// ---------------------------------------------------------------------------
+
+/** [stop_id, stop_name, lat, lon, minutes from the first stop] */
+type FixtureStop = [string, string, number, number, number];
+
+type FixtureLine = {
+  routeId: string;
+  name: string;
+  /** GTFS route_type */
+  routeType: number;
+  stops: FixtureStop[];
+  headwayMinutes: number;
+};
+
+/**
+ * distance — one zone per station, fare by straight-line distance
+ *            ([max km, yen] tiers, the last one open-ended)
+ * flat     — one fare for every ride
+ */
+type FixtureFare =
+  | { kind: "distance"; tiers: [number, number][] }
+  | { kind: "flat"; yen: number };
+
+type FixtureFeed = {
+  feedId: string;
+  name: string;
+  agencyName: string;
+  fare: FixtureFare;
+  lines: FixtureLine[];
+};
+
+const FIRST_DEPARTURE_MINUTES = 5 * 60 + 30;
+const LAST_DEPARTURE_MINUTES = 23 * 60 + 50;
+
+const FIXTURE_FEEDS: FixtureFeed[] = [
+  {
+    feedId: "osaka-metro",
+    name: "Osaka Metro（fixture）",
+    agencyName: "Osaka Metro",
+    fare: {
+      kind: "distance",
+      tiers: [
+        [3, 190],
+        [7, 240],
+        [13, 290],
+        [19, 340],
+        [Number.POSITIVE_INFINITY, 390],
+      ],
+    },
+    lines: [
+      {
+        routeId: "midosuji",
+        name: "Osaka Metro御堂筋線",
+        routeType: 1,
+        headwayMinutes: 5,
+        stops: [
+          ["M13", "新大阪", 34.7335, 135.5003, 0],
+          ["M14", "西中島南方", 34.7265, 135.4994, 2],
+          ["M15", "中津", 34.7095, 135.4975, 4],
+          ["M16", "梅田", 34.7025, 135.499, 6],
+          ["M17", "淀屋橋", 34.6925, 135.501, 8],
+          ["M18", "本町", 34.6824, 135.5011, 10],
+          ["M19", "心斎橋", 34.6747, 135.5007, 12],
+          ["M20", "なんば", 34.6664, 135.5012, 14],
+          ["M21", "大国町", 34.654, 135.4968, 16],
+          ["M22", "動物園前", 34.6466, 135.5058, 18],
+          ["M23", "天王寺", 34.6469, 135.5139, 20],
+        ],
+      },
+      {
+        routeId: "nagahori-tsurumi-ryokuchi",
+        name: "Osaka Metro長堀鶴見緑地線",
+        routeType: 1,
+        headwayMinutes: 8,
+        stops: [
+          ["N15", "心斎橋", 34.6752, 135.5005, 0],
+          ["N16", "長堀橋", 34.6745, 135.5066, 2],
+          ["N17", "松屋町", 34.673, 135.5135, 4],
+          ["N18", "谷町六丁目", 34.6745, 135.518, 5],
+          ["N19", "玉造", 34.674, 135.5335, 8],
+          ["N20", "森ノ宮", 34.681, 135.534, 10],
+          ["N21", "大阪ビジネスパーク", 34.692, 135.531, 12],
+          ["N22", "京橋", 34.696, 135.534, 14],
+        ],
+      },
+    ],
+  },
+  {
+    feedId: "keihan",
+    name: "京阪電車（fixture）",
+    agencyName: "京阪電気鉄道",
+    fare: {
+      kind: "distance",
+      tiers: [
+        [3, 170],
+        [7, 220],
+        [11, 270],
+        [15, 320],
+        [20, 370],
+        [30, 420],
+        [Number.POSITIVE_INFINITY, 490],
+      ],
+    },
+    lines: [
+      {
+        routeId: "main",
+        name: "京阪本線",
+        routeType: 2,
+        headwayMinutes: 10,
+        stops: [
+          ["KH01", "淀屋橋", 34.693, 135.5017, 0],
+          ["KH02", "北浜", 34.6915, 135.5067, 2],
+          ["KH03", "天満橋", 34.6905, 135.5145, 4],
+          ["KH04", "京橋", 34.6965, 135.5345, 7],
+          ["KH11", "守口市", 34.737, 135.564, 14],
+          ["KH21", "枚方市", 34.8165, 135.649, 26],
+          ["KH24", "樟葉", 34.8605, 135.678, 33],
+          ["KH28", "中書島", 34.9265, 135.7595, 42],
+          ["KH30", "丹波橋", 34.9375, 135.7665, 45],
+          ["KH38", "七条", 34.99, 135.769, 51],
+          ["KH39", "祇園四条", 35.0035, 135.772, 53],
+          ["KH40", "三条", 35.009, 135.7725, 55],
+          ["KH42", "出町柳", 35.03, 135.773, 59],
+        ],
+      },
+    ],
+  },
+  {
+    feedId: "osaka-citybus",
+    name: "大阪シティバス（fixture）",
+    agencyName: "大阪シティバス",
+    fare: { kind: "flat", yen: 210 },
+    lines: [
+      {
+        routeId: "umeda-tanimachi",
+        name: "大阪シティバス 大阪駅前〜谷町四丁目",
+        routeType: 3,
+        headwayMinutes: 12,
+        stops: [
+          ["B01", "大阪駅前", 34.703, 135.4975, 0],
+          ["B02", "梅田新道", 34.6985, 135.5, 3],
+          ["B03", "西天満", 34.6955, 135.5035, 6],
+          ["B04", "南森町", 34.6985, 135.5115, 9],
+          ["B05", "天満橋", 34.69, 135.515, 13],
+          ["B06", "谷町四丁目", 34.683, 135.5175, 17],
+        ],
+      },
+    ],
+  },
+];
+
+function gtfsTime(totalMinutes: number): string {
+  const h = Math.floor(totalMinutes / 60)
+    .toString()
+    .padStart(2, "0");
+  const m = (totalMinutes % 60).toString().padStart(2, "0");
+  return `${h}:${m}:00`;
+}
+
+/** Equirectangular approximation — plenty for fare tiers. */
+function distanceKm(a: FixtureStop, b: FixtureStop): number {
+  const latKm = (a[2] - b[2]) * 111;
+  const lonKm = (a[3] - b[3]) * 111 * Math.cos((a[2] * Math.PI) / 180);
+  return Math.hypot(latKm, lonKm);
+}
+
+/** IC fares equal ticket fares on these operators. */
+function buildFares(feed: FixtureFeed): {
+  attributes: (string | number)[][];
+  rules: (string | number)[][];
+} {
+  const attributes: (string | number)[][] = [
+    [
+      "fare_id",
+      "price",
+      "currency_type",
+      "payment_method",
+      "transfers",
+      "ic_price",
+    ],
+  ];
+  const rules: (string | number)[][] = [
+    ["fare_id", "route_id", "origin_id", "destination_id"],
+  ];
+
+  if (feed.fare.kind === "flat") {
+    attributes.push(["flat", feed.fare.yen, "JPY", 0, 0, feed.fare.yen]);
+    for (const line of feed.lines) {
+      rules.push(["flat", line.routeId, "", ""]);
+    }
+    return { attributes, rules };
+  }
+
+  const tiers = feed.fare.tiers;
+  for (const [, yen] of tiers) {
+    attributes.push([`yen${yen}`, yen, "JPY", 0, 0, yen]);
+  }
+
+  const stops = feed.lines.flatMap((line) => line.stops);
+  for (const origin of stops) {
+    for (const destination of stops) {
+      if (origin[0] === destination[0]) continue;
+      const km = distanceKm(origin, destination);
+      const yen = (tiers.find(([maxKm]) => km <= maxKm) ?? tiers[0])?.[1];
+      rules.push([`yen${yen}`, "", origin[0], destination[0]]);
+    }
+  }
+  return { attributes, rules };
+}
+
+function toCsv(rows: (string | number)[][]): string {
+  return `${rows.map((row) => row.join(",")).join("\n")}\n`;
+}
+
+function buildFeed(feed: FixtureFeed): GtfsFeedInput {
+  const agency = [
+    ["agency_id", "agency_name", "agency_url", "agency_timezone"],
+    [feed.feedId, feed.agencyName, "https://example.com", "Asia/Tokyo"],
+  ];
+  const stops: (string | number)[][] = [
+    ["stop_id", "stop_name", "stop_lat", "stop_lon", "zone_id"],
+  ];
+  const routes: (string | number)[][] = [
+    ["route_id", "agency_id", "route_long_name", "route_type"],
+  ];
+  const trips: (string | number)[][] = [
+    ["route_id", "service_id", "trip_id", "trip_headsign"],
+  ];
+  const stopTimes: (string | number)[][] = [
+    ["trip_id", "arrival_time", "departure_time", "stop_id", "stop_sequence"],
+  ];
+  const calendar = [
+    [
+      "service_id",
+      "monday",
+      "tuesday",
+      "wednesday",
+      "thursday",
+      "friday",
+      "saturday",
+      "sunday",
+      "start_date",
+      "end_date",
+    ],
+    ["daily", 1, 1, 1, 1, 1, 1, 1, "20260101", "20301231"],
+  ];
+
+  for (const line of feed.lines) {
+    routes.push([line.routeId, feed.feedId, line.name, line.routeType]);
+    for (const [stopId, name, lat, lon] of line.stops) {
+      stops.push([
+        stopId,
+        name,
+        lat,
+        lon,
+        feed.fare.kind === "distance" ? stopId : "",
+      ]);
+    }
+
+    const total = line.stops[line.stops.length - 1]?.[4] ?? 0;
+    const directions = [
+      { id: "down", stops: line.stops, offset: (m: number) => m },
+      {
+        id: "up",
+        stops: [...line.stops].reverse(),
+        offset: (m: number) => total - m,
+      },
+    ];
+
+    for (const direction of directions) {
+      const headsign = direction.stops[direction.stops.length - 1]?.[1] ?? "";
+      for (
+        let start = FIRST_DEPARTURE_MINUTES;
+        start <= LAST_DEPARTURE_MINUTES;
+        start += line.headwayMinutes
+      ) {
+        const tripId = `${line.routeId}-${direction.id}-${gtfsTime(start).slice(0, 5).replace(":", "")}`;
+        trips.push([line.routeId, "daily", tripId, headsign]);
+        direction.stops.forEach(([stopId, , , , minutes], index) => {
+          const time = gtfsTime(start + direction.offset(minutes));
+          stopTimes.push([tripId, time, time, stopId, index + 1]);
+        });
+      }
+    }
+  }
+
+  const fares = buildFares(feed);
+
+  return {
+    feedId: feed.feedId,
+    name: feed.name,
+    files: {
+      "agency.txt": toCsv(agency),
+      "stops.txt": toCsv(stops),
+      "routes.txt": toCsv(routes),
+      "trips.txt": toCsv(trips),
+      "stop_times.txt": toCsv(stopTimes),
+      "calendar.txt": toCsv(calendar),
+      "fare_attributes.txt": toCsv(fares.attributes),
+      "fare_rules.txt": toCsv(fares.rules),
+    },
+  };
+}
+
+/** Fixture feeds ready for `importGtfsFeed`. */
+export function getFixtureGtfsFeeds(): GtfsFeedInput[] {
+  return FIXTURE_FEEDS.map(buildFeed);
+}
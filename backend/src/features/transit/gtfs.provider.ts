@@ -0,0 +1,473 @@
+import { listGtfsStops, loadGtfsTimetable } from "./gtfs.repository";
+import type { GtfsStop, GtfsTimetable } from "./gtfs.types";
+import { computeJourneyFare } from "./gtfs-fare";
+import {
+  buildRaptorNetwork,
+  distanceMeters,
+  type RaptorJourney,
+  type RaptorLeg,
+  searchArriveBy,
+  searchDepartAt,
+  walkingSeconds,
+} from "./gtfs-raptor";
+import type {
+  Coordinates,
+  TransitProvider,
+  TransitQuery,
+  TransitRoute,
+  TransitStep,
+} from "./transit.types";
+import { TransitLookupError } from "./transit-error";
+import {
+  formatClockSeconds,
+  type JstClock,
+  parseIsoMs,
+  toServiceClock,
+} from "./transit-time";
+
+const PROVIDER_ID = "gtfs";
+
+/** How far before / after the query time trips are loaded. */
+const SEARCH_WINDOW_SECONDS = 3 * 60 * 60;
+
+/** Deadline of last-departure searches (6:00 the next morning). */
+const END_OF_SERVICE_SECONDS = 30 * 60 * 60;
+
+/** Farthest station walked to from origin coordinates. */
+const MAX_ACCESS_METERS = 1000;
+
+/**
+ * Extra trips loaded on both sides of a search window, so that the nearby
+ * queries of the same search (the next-earlier option, a shifted departure)
+ * reuse the timetable instead of loading it again.
+ */
+const REUSE_MARGIN_SECONDS = 30 * 60;
+
+// ---------------------------------------------------------------------------
+// Stop matching
+// ---------------------------------------------------------------------------
+
+/** "大阪梅田駅（阪急）" → "大阪梅田" */
+function normalizePlaceName(value: string): string {
+  return value
+    .normalize("NFKC")
+    .replace(/\s+/gu, "")
+    .replace(/\(.*?\)/gu, "")
+    .replace(/駅$/u, "");
+}
+
+/** Words of free text, split at spaces and punctuation ("梅田 / 淀屋橋"). */
+function placeTokens(value: string): string[] {
+  return value
+    .normalize("NFKC")
+    .split(/[\s、,・/()「」]+/u)
+    .map((token) => token.replace(/駅$/u, ""))
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * true when the text names the stop as a word or as "<name>駅" — not when
+ * the name is only part of a longer word ("京都" in "京都市左京区…").
+ */
+function namesStop(text: string, tokens: string[], name: string): boolean {
+  return tokens.includes(name) || text.includes(`${name}駅`);
+}
+
+/**
+ * Resolve free text to the stops it names.
+ *
+ * Preference: exact name → longest stop name the text names as a word or
+ * with 駅 (addresses such as "…出町柳駅前") → shortest stop name containing
+ * the text. All platforms sharing the winning name are returned; none when
+ * the text is e.g. a plain address, so that it can be geocoded by the next
+ * provider.
+ */
+function matchStopsByName(stops: GtfsStop[], text: string): string[] {
+  const query = normalizePlaceName(text);
+  if (query.length < 2) {
+    return [];
+  }
+  const compact = text.normalize("NFKC").replace(/\s+/gu, "");
+  const tokens = placeTokens(text);
+
+  const byName = new Map<string, string[]>();
+  for (const stop of stops) {
+    const name = normalizePlaceName(stop.name);
+    if (name.length < 2) continue;
+    byName.set(name, [...(byName.get(name) ?? []), stop.key]);
+  }
+
+  const exact = byName.get(query);
+  if (exact) {
+    return exact;
+  }
+
+  const names = [...byName.keys()];
+  const contained = names
+    .filter((name) => namesStop(compact, tokens, name))
+    .sort((a, b) => b.length - a.length)[0];
+  if (contained) {
+    return byName.get(contained) ?? [];
+  }
+
+  const containing = names
+    .filter((name) => name.includes(query))
+    .sort((a, b) => a.length - b.length)[0];
+  return containing ? (byName.get(containing) ?? []) : [];
+}
+
+/** The walk between coordinates and the nearest station. */
+type StationAccess = {
+  stopKeys: string[];
+  stopName: string;
+  seconds: number;
+};
+
+/**
+ * The station nearest to a point (all its platforms within reach), or null
+ * when none is within walking distance.
+ */
+function matchStopsNear(
+  stops: GtfsStop[],
+  point: Coordinates,
+): StationAccess | null {
+  let nearest: { stop: GtfsStop; meters: number } | null = null;
+  for (const stop of stops) {
+    const meters = distanceMeters(point, stop);
+    if (meters <= MAX_ACCESS_METERS && (!nearest || meters < nearest.meters)) {
+      nearest = { stop, meters };
+    }
+  }
+  if (!nearest) {
+    return null;
+  }
+
+  const name = normalizePlaceName(nearest.stop.name);
+  return {
+    stopKeys: stops
+      .filter(
+        (stop) =>
+          normalizePlaceName(stop.name) === name &&
+          distanceMeters(point, stop) <= MAX_ACCESS_METERS,
+      )
+      .map((stop) => stop.key),
+    stopName: nearest.stop.name,
+    seconds: walkingSeconds(nearest.meters),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Journey → TransitRoute
+// ---------------------------------------------------------------------------
+
+function stopName(timetable: GtfsTimetable, key: string): string {
+  return timetable.stops.get(key)?.name ?? key;
+}
+
+function legMinutes(leg: RaptorLeg): number {
+  return Math.max(1, Math.ceil((leg.arriveSeconds - leg.departSeconds) / 60));
+}
+
+function toStep(timetable: GtfsTimetable, leg: RaptorLeg): TransitStep {
+  const from = stopName(timetable, leg.fromStop);
+  const to = stopName(timetable, leg.toStop);
+
+  if (leg.kind === "walk") {
+    return {
+      mode: "WALKING",
+      instruction: `${from}から${to}まで徒歩`,
+      durationMinutes: legMinutes(leg),
+    };
+  }
+
+  const line = timetable.routes.get(leg.trip.routeKey)?.name ?? "路線不明";
+  const headsign = leg.trip.headsign ?? undefined;
+  return {
+    mode: "TRANSIT",
+    instruction: headsign
+      ? `${line}（${headsign}行き）${from} → ${to}`
+      : `${line} ${from} → ${to}`,
+    durationMinutes: legMinutes(leg),
+    transitDetails: {
+      line,
+      departureStop: from,
+      arrivalStop: to,
+      numStops: leg.numStops,
+      departureTime: formatClockSeconds(leg.departSeconds),
+      arrivalTime: formatClockSeconds(leg.arriveSeconds),
+      headsign,
+    },
+  };
+}
+
+function toTransitRoute(
+  timetable: GtfsTimetable,
+  clock: JstClock,
+  query: TransitQuery,
+  journey: RaptorJourney,
+  access: StationAccess | null,
+  egress: StationAccess | null,
+): TransitRoute {
+  const steps = journey.legs.map((leg) => toStep(timetable, leg));
+  // Leave the origin coordinates early enough to walk to the station, and
+  // arrive at the destination coordinates after walking from the last one
+  const departSeconds = journey.departSeconds - (access?.seconds ?? 0);
+  const arriveSeconds = journey.arriveSeconds + (egress?.seconds ?? 0);
+  if (access) {
+    steps.unshift({
+      mode: "WALKING",
+      instruction: `${query.origin}から${access.stopName}まで徒歩`,
+      durationMinutes: Math.max(1, Math.ceil(access.seconds / 60)),
+    });
+  }
+  if (egress) {
+    steps.push({
+      mode: "WALKING",
+      instruction: `${egress.stopName}から${query.destination}まで徒歩`,
+      durationMinutes: Math.max(1, Math.ceil(egress.seconds / 60)),
+    });
+  }
+  const rides = steps
+    .map((step) => step.transitDetails)
+    .filter((details) => details !== undefined);
+  const lines = rides.map((details) => details.line);
+
+  return {
+    mode: "transit",
+    departureTime: formatClockSeconds(departSeconds),
+    arrivalTime: formatClockSeconds(arriveSeconds),
+    departureAt: new Date(
+      clock.midnightMs + departSeconds * 1000,
+    ).toISOString(),
+    arrivalAt: new Date(clock.midnightMs + arriveSeconds * 1000).toISOString(),
+    durationMinutes: Math.ceil((arriveSeconds - departSeconds) / 60),
+    summary: lines.length > 0 ? lines.join(" → ") : "徒歩",
+    steps,
+    transferCount: Math.max(0, rides.length - 1),
+    walkingMinutes: steps
+      .filter((step) => step.mode === "WALKING")
+      .reduce((total, step) => total + step.durationMinutes, 0),
+    firstBoardingStation: rides[0]?.departureStop ?? null,
+    fare: computeJourneyFare(timetable, journey),
+    provider: PROVIDER_ID,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+function journeyKey(journey: RaptorJourney): string {
+  return journey.legs
+    .map((leg) => (leg.kind === "walk" ? "walk" : leg.trip.key))
+    .join(">");
+}
+
+/** Route keys (lines) ridden by a journey. */
+function journeyRouteKeys(journey: RaptorJourney): Set<string> {
+  const keys = new Set<string>();
+  for (const leg of journey.legs) {
+    if (leg.kind === "transit") keys.add(leg.trip.routeKey);
+  }
+  return keys;
+}
+
+// ---------------------------------------------------------------------------
+// Timetable source
+// ---------------------------------------------------------------------------
+
+/** Stops and timetables read from D1 for the queries of one provider. */
+type TimetableSource = {
+  stops(): Promise<GtfsStop[]>;
+  /** Trips of a service day overlapping at least `[from, to]` seconds. */
+  timetable(clock: JstClock, from: number, to: number): Promise<GtfsTimetable>;
+};
+
+type LoadedWindow = {
+  from: number;
+  to: number;
+  timetable: Promise<GtfsTimetable>;
+};
+
+/**
+ * Read stops once and keep one timetable per service day. A query whose
+ * window the loaded one does not cover loads both windows together, so a
+ * search that probes around the same time reads D1 about once.
+ */
+function createTimetableSource(db: D1Database): TimetableSource {
+  let stops: Promise<GtfsStop[]> | null = null;
+  const loaded = new Map<string, LoadedWindow>();
+
+  const listStops = (): Promise<GtfsStop[]> => {
+    stops ??= listGtfsStops(db).catch((error: unknown) => {
+      stops = null; // retry on the next query
+      throw error;
+    });
+    return stops;
+  };
+
+  return {
+    stops: listStops,
+    timetable(clock, from, to) {
+      const current = loaded.get(clock.serviceDate);
+      if (current && current.from <= from && current.to >= to) {
+        return current.timetable;
+      }
+
+      const window = {
+        from: Math.min(from - REUSE_MARGIN_SECONDS, current?.from ?? from),
+        to: Math.max(to + REUSE_MARGIN_SECONDS, current?.to ?? to),
+      };
+      const timetable = listStops()
+        .then((all) =>
+          loadGtfsTimetable(
+            db,
+            clock.serviceDate,
+            clock.weekday,
+            window.from,
+            window.to,
+            all,
+          ),
+        )
+        .catch((error: unknown) => {
+          loaded.delete(clock.serviceDate);
+          throw error;
+        });
+      loaded.set(clock.serviceDate, { ...window, timetable });
+      return timetable;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+async function searchTimetable(
+  source: TimetableSource,
+  query: TransitQuery,
+): Promise<TransitRoute[]> {
+  if ((query.mode ?? "transit") !== "transit") {
+    return [];
+  }
+
+  const stops = await source.stops();
+  const access = query.originCoordinates
+    ? matchStopsNear(stops, query.originCoordinates)
+    : null;
+  const originStops = query.originCoordinates
+    ? (access?.stopKeys ?? [])
+    : matchStopsByName(stops, query.origin);
+  const egress = query.destinationCoordinates
+    ? matchStopsNear(stops, query.destinationCoordinates)
+    : null;
+  const targetStops = query.destinationCoordinates
+    ? (egress?.stopKeys ?? [])
+    : matchStopsByName(stops, query.destination);
+  if (originStops.length === 0) {
+    throw new TransitLookupError(
+      "GEOCODE_FAILED",
+      query.originCoordinates
+        ? `No GTFS stop within ${MAX_ACCESS_METERS} m of the origin coordinates.`
+        : `No GTFS stop matches "${query.origin}".`,
+    );
+  }
+  if (targetStops.length === 0) {
+    throw new TransitLookupError(
+      "GEOCODE_FAILED",
+      query.destinationCoordinates
+        ? `No GTFS stop within ${MAX_ACCESS_METERS} m of the destination coordinates.`
+        : `No GTFS stop matches "${query.destination}".`,
+    );
+  }
+
+  // Arrive-by searches backwards from the deadline; a last-departure search
+  // backwards from the end of the service day; otherwise depart at the
+  // requested time (or now).
+  const arriveByMs = parseIsoMs(query.arrivalTime);
+  const clock = toServiceClock(
+    new Date(arriveByMs ?? parseIsoMs(query.departureTime) ?? Date.now()),
+  );
+  const latest = arriveByMs === null && query.latestDeparture === true;
+  // …and reach the last station early enough to walk to the destination
+  const deadline =
+    arriveByMs !== null
+      ? clock.seconds - (egress?.seconds ?? 0)
+      : latest
+        ? END_OF_SERVICE_SECONDS
+        : null;
+  const timetable = await source.timetable(
+    clock,
+    arriveByMs !== null ? clock.seconds - SEARCH_WINDOW_SECONDS : clock.seconds,
+    deadline ?? clock.seconds + SEARCH_WINDOW_SECONDS,
+  );
+  // Trains can only be caught once the walk to the station is done
+  const boardFromSeconds = clock.seconds + (access?.seconds ?? 0);
+  const search = (source: GtfsTimetable): RaptorJourney[] => {
+    const network = buildRaptorNetwork(source);
+    const found =
+      deadline !== null
+        ? searchArriveBy(network, originStops, targetStops, deadline)
+        : searchDepartAt(network, originStops, targetStops, boardFromSeconds);
+    return latest
+      ? found.filter((journey) => journey.departSeconds >= boardFromSeconds)
+      : found;
+  };
+
+  // RAPTOR yields one journey per transfer count. Search once more without
+  // the lines of the first journey so that a backup on other lines exists
+  // when the main line is delayed.
+  const journeys = search(timetable);
+  const primary = journeys[0];
+  if (primary) {
+    const usedRoutes = journeyRouteKeys(primary);
+    journeys.push(
+      ...search({
+        ...timetable,
+        trips: timetable.trips.filter((trip) => !usedRoutes.has(trip.routeKey)),
+      }),
+    );
+  }
+
+  if (journeys.length === 0) {
+    throw new TransitLookupError(
+      "NO_ROUTE",
+      "No timetabled journey within the search window.",
+    );
+  }
+
+  const seen = new Set<string>();
+  return journeys
+    .filter((journey) => {
+      const key = journeyKey(journey);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((journey) =>
+      toTransitRoute(timetable, clock, query, journey, access, egress),
+    );
+}
+
+/**
+ * Timetable-based rail / bus routing over the GTFS feeds imported into D1
+ * (Osaka Metro, Keihan, city buses, …).
+ *
+ * Origin and destination are matched to stops by name; coordinates start or
+ * end at the nearest station within walking distance. Queries for another
+ * mode than "transit" return an empty result; queries that do not name a
+ * known station fail with GEOCODE_FAILED and those without a journey in
+ * the search window with NO_ROUTE, so the next provider can try. `latestDeparture` queries
+ * return the last trains of the service day.
+ *
+ * Stops and timetables are read once per provider and reused by its later
+ * queries — create one per request (see `createTransitProviders`).
+ */
+export function createGtfsProvider(db: D1Database): TransitProvider {
+  const source = createTimetableSource(db);
+  return {
+    id: PROVIDER_ID,
+    timetabled: true,
+    getDirections: (query) => searchTimetable(source, query),
+  };
+}
@@ -0,0 +1,357 @@
+import type {
+  GtfsFare,
+  GtfsFareRule,
+  GtfsFeedInput,
+  GtfsImportSummary,
+  GtfsRoute,
+  GtfsStop,
+  GtfsTimetable,
+  GtfsTrip,
+} from "./gtfs.types";
+import { GtfsFeedError, planGtfsImport } from "./gtfs-import";
+
+type StopRow = {
+  feed_id: string;
+  stop_id: string;
+  stop_name: string;
+  stop_lat: number;
+  stop_lon: number;
+  zone_id: string | null;
+};
+
+type RouteRow = {
+  feed_id: string;
+  route_id: string;
+  route_name: string;
+  route_type: number;
+};
+
+type StopTimeRow = {
+  feed_id: string;
+  trip_id: string;
+  route_id: string;
+  service_id: string;
+  trip_headsign: string | null;
+  stop_id: string;
+  arrival_seconds: number;
+  departure_seconds: number;
+};
+
+type FareRow = {
+  feed_id: string;
+  fare_id: string;
+  price: number;
+  ic_price: number | null;
+};
+
+type FareRuleRow = {
+  feed_id: string;
+  fare_id: string;
+  route_id: string | null;
+  origin_id: string | null;
+  destination_id: string | null;
+};
+
+type CalendarRow = {
+  feed_id: string;
+  service_id: string;
+  monday: number;
+  tuesday: number;
+  wednesday: number;
+  thursday: number;
+  friday: number;
+  saturday: number;
+  sunday: number;
+};
+
+type CalendarDateRow = {
+  feed_id: string;
+  service_id: string;
+  exception_type: number;
+};
+
+/** D1 caps the number of statements per batch; stay well below it. */
+const INSERT_BATCH_SIZE = 200;
+
+/**
+ * Statements one request may write: 100 batches, well within a Worker's
+ * subrequest and CPU limits.
+ */
+const MAX_ONLINE_IMPORT_STATEMENTS = 100 * INSERT_BATCH_SIZE;
+
+/**
+ * Rows of a feed are stored under a versioned id ("keihan@m1x2y3z"); only
+ * the version recorded in `gtfs_feeds` is read. Feeds imported before
+ * versioning keep their plain id (`version_id` null).
+ */
+const ACTIVE_FEED_FILTER =
+  "feed_id in (select coalesce(version_id, feed_id) from gtfs_feeds)";
+
+/** Sunday-first, matching `Date#getUTCDay()`. */
+const WEEKDAY_COLUMNS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+function toKey(feedId: string, id: string): string {
+  return `${feedId}:${id}`;
+}
+
+function optionalKey(feedId: string, id: string | null): string | null {
+  return id ? toKey(feedId, id) : null;
+}
+
+async function runInBatches(
+  db: D1Database,
+  statements: D1PreparedStatement[],
+): Promise<void> {
+  for (let i = 0; i < statements.length; i += INSERT_BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + INSERT_BATCH_SIZE));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace all rows of one feed with the contents of the given GTFS files
+ * (see planGtfsImport).
+ *
+ * D1 batches are written one after another inside a single request, so
+ * feeds larger than MAX_ONLINE_IMPORT_STATEMENTS are refused: real
+ * timetables go through `pnpm gtfs:sql` and `wrangler d1 execute` instead.
+ */
+export async function importGtfsFeed(
+  db: D1Database,
+  input: GtfsFeedInput,
+): Promise<GtfsImportSummary> {
+  const { statements, summary } = planGtfsImport(input);
+  if (statements.length > MAX_ONLINE_IMPORT_STATEMENTS) {
+    throw new GtfsFeedError(
+      `GTFS feed is too large to import in a request (${statements.length} rows, max ${MAX_ONLINE_IMPORT_STATEMENTS}). Generate SQL with \`pnpm gtfs:sql\` and run it with \`wrangler d1 execute --file\`.`,
+    );
+  }
+
+  // The switch comes after every insert, the cleanup after the switch
+  await runInBatches(
+    db,
+    statements.map(({ sql, params }) => db.prepare(sql).bind(...params)),
+  );
+  return summary;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export async function listGtfsStops(db: D1Database): Promise<GtfsStop[]> {
+  const result = await db
+    .prepare(
+      `
+        select feed_id, stop_id, stop_name, stop_lat, stop_lon, zone_id
+        from gtfs_stops
+        where ${ACTIVE_FEED_FILTER}
+      `,
+    )
+    .all<StopRow>();
+
+  return (result.results ?? []).map((row) => ({
+    key: toKey(row.feed_id, row.stop_id),
+    name: row.stop_name,
+    lat: row.stop_lat,
+    lon: row.stop_lon,
+    zoneKey: optionalKey(row.feed_id, row.zone_id),
+  }));
+}
+
+/**
+ * Service ids (as `${feedId}:${serviceId}`) running on the given day.
+ *
+ * @param serviceDate - "YYYYMMDD"
+ * @param weekday     - 0 (Sunday) … 6 (Saturday)
+ */
+async function listActiveServiceKeys(
+  db: D1Database,
+  serviceDate: string,
+  weekday: number,
+): Promise<Set<string>> {
+  const column = WEEKDAY_COLUMNS[weekday] ?? "monday";
+  const [calendar, exceptions] = await Promise.all([
+    db
+      .prepare(
+        `
+          select *
+          from gtfs_calendar
+          where start_date <= ? and end_date >= ? and ${ACTIVE_FEED_FILTER}
+        `,
+      )
+      .bind(serviceDate, serviceDate)
+      .all<CalendarRow>(),
+    db
+      .prepare(
+        `
+          select feed_id, service_id, exception_type
+          from gtfs_calendar_dates
+          where date = ? and ${ACTIVE_FEED_FILTER}
+        `,
+      )
+      .bind(serviceDate)
+      .all<CalendarDateRow>(),
+  ]);
+
+  const active = new Set<string>();
+  for (const row of calendar.results ?? []) {
+    if (row[column] === 1) {
+      active.add(toKey(row.feed_id, row.service_id));
+    }
+  }
+
+  // calendar_dates: 1 = service added, 2 = service removed
+  for (const row of exceptions.results ?? []) {
+    const key = toKey(row.feed_id, row.service_id);
+    if (row.exception_type === 1) {
+      active.add(key);
+    } else if (row.exception_type === 2) {
+      active.delete(key);
+    }
+  }
+
+  return active;
+}
+
+async function listGtfsFares(
+  db: D1Database,
+): Promise<{ fares: Map<string, GtfsFare>; fareRules: GtfsFareRule[] }> {
+  const [fareResult, ruleResult] = await Promise.all([
+    db
+      .prepare(
+        `
+          select feed_id, fare_id, price, ic_price
+          from gtfs_fare_attributes
+          where ${ACTIVE_FEED_FILTER}
+        `,
+      )
+      .all<FareRow>(),
+    db
+      .prepare(
+        `
+          select feed_id, fare_id, route_id, origin_id, destination_id
+          from gtfs_fare_rules
+          where ${ACTIVE_FEED_FILTER}
+        `,
+      )
+      .all<FareRuleRow>(),
+  ]);
+
+  const fares = new Map<string, GtfsFare>();
+  for (const row of fareResult.results ?? []) {
+    const key = toKey(row.feed_id, row.fare_id);
+    fares.set(key, { key, priceYen: row.price, icPriceYen: row.ic_price });
+  }
+
+  const fareRules = (ruleResult.results ?? []).map((row) => ({
+    fareKey: toKey(row.feed_id, row.fare_id),
+    routeKey: optionalKey(row.feed_id, row.route_id),
+    originZoneKey: optionalKey(row.feed_id, row.origin_id),
+    destinationZoneKey: optionalKey(row.feed_id, row.destination_id),
+  }));
+
+  return { fares, fareRules };
+}
+
+/**
+ * Load the trips running on `serviceDate` that overlap
+ * `[fromSeconds, toSeconds]`, together with all lines and fares.
+ *
+ * @param stops - All stops (`listGtfsStops`), listed once by the caller.
+ */
+export async function loadGtfsTimetable(
+  db: D1Database,
+  serviceDate: string,
+  weekday: number,
+  fromSeconds: number,
+  toSeconds: number,
+  stops: GtfsStop[],
+): Promise<GtfsTimetable> {
+  const [routeResult, serviceKeys, stopTimeResult, fareTable] =
+    await Promise.all([
+      db
+        .prepare(
+          `
+          select feed_id, route_id, route_name, route_type
+          from gtfs_routes
+          where ${ACTIVE_FEED_FILTER}
+        `,
+        )
+        .all<RouteRow>(),
+      listActiveServiceKeys(db, serviceDate, weekday),
+      db
+        .prepare(
+          `
+          select
+            t.feed_id,
+            t.trip_id,
+            t.route_id,
+            t.service_id,
+            t.trip_headsign,
+            st.stop_id,
+            st.arrival_seconds,
+            st.departure_seconds
+          from gtfs_trips t
+          join gtfs_stop_times st
+            on st.feed_id = t.feed_id and st.trip_id = t.trip_id
+          where t.start_seconds <= ? and t.end_seconds >= ?
+            and t.${ACTIVE_FEED_FILTER}
+          order by t.feed_id, t.trip_id, st.stop_sequence
+        `,
+        )
+        .bind(toSeconds, fromSeconds)
+        .all<StopTimeRow>(),
+      listGtfsFares(db),
+    ]);
+
+  const routes = new Map<string, GtfsRoute>();
+  for (const row of routeResult.results ?? []) {
+    const key = toKey(row.feed_id, row.route_id);
+    routes.set(key, { key, name: row.route_name, type: row.route_type });
+  }
+
+  const trips = new Map<string, GtfsTrip>();
+  for (const row of stopTimeResult.results ?? []) {
+    if (!serviceKeys.has(toKey(row.feed_id, row.service_id))) {
+      continue;
+    }
+
+    const key = toKey(row.feed_id, row.trip_id);
+    let trip = trips.get(key);
+    if (!trip) {
+      trip = {
+        key,
+        routeKey: toKey(row.feed_id, row.route_id),
+        headsign: row.trip_headsign,
+        stopKeys: [],
+        arrivals: [],
+        departures: [],
+      };
+      trips.set(key, trip);
+    }
+
+    trip.stopKeys.push(toKey(row.feed_id, row.stop_id));
+    trip.arrivals.push(row.arrival_seconds);
+    trip.departures.push(row.departure_seconds);
+  }
+
+  return {
+    stops: new Map(stops.map((stop) => [stop.key, stop])),
+    routes,
+    trips: [...trips.values()].filter((trip) => trip.stopKeys.length > 1),
+    fares: fareTable.fares,
+    fareRules: fareTable.fareRules,
+  };
+}
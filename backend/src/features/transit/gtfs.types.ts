@@ -0,0 +1,96 @@
+/** Raw GTFS files keyed by file name (e.g. `"stops.txt"` → CSV text). */
+export type GtfsFeedFiles = Record<string, string>;
+
+/** A GTFS feed to import into D1. */
+export type GtfsFeedInput = {
+  /** Stable id used to namespace rows (e.g. "keihan"). */
+  feedId: string;
+  /** Display name (e.g. "京阪電車"). */
+  name: string;
+  files: GtfsFeedFiles;
+};
+
+/** Row counts written by one feed import. */
+export type GtfsImportSummary = {
+  feedId: string;
+  stops: number;
+  routes: number;
+  trips: number;
+  stopTimes: number;
+  fares: number;
+};
+
+/** One SQL statement of an import, with its `?` parameters in order. */
+export type GtfsStatement = {
+  sql: string;
+  params: (string | number | null)[];
+};
+
+/** The statements that import one feed, and what they write. */
+export type GtfsImportPlan = {
+  statements: GtfsStatement[];
+  summary: GtfsImportSummary;
+};
+
+/** A stop / platform. `key` is `${feedId}:${stopId}`. */
+export type GtfsStop = {
+  key: string;
+  name: string;
+  lat: number;
+  lon: number;
+  /** Fare zone as `${feedId}:${zoneId}`, or null when the feed has none. */
+  zoneKey: string | null;
+};
+
+/** A line. `key` is `${feedId}:${routeId}`. */
+export type GtfsRoute = {
+  key: string;
+  /** Line name shown to users (e.g. "京阪本線"). */
+  name: string;
+  /** GTFS `route_type` (0 tram · 1 subway · 2 rail · 3 bus). */
+  type: number;
+};
+
+/**
+ * One trip with its stop times, in stop-sequence order.
+ * Times are seconds since midnight of the service day (may exceed 86400).
+ */
+export type GtfsTrip = {
+  key: string;
+  routeKey: string;
+  headsign: string | null;
+  stopKeys: string[];
+  arrivals: number[];
+  departures: number[];
+};
+
+/** A fare product. `key` is `${feedId}:${fareId}`; prices are in yen. */
+export type GtfsFare = {
+  key: string;
+  priceYen: number;
+  /**
+   * IC card price from the non-standard `ic_price` column (GTFS-JP feeds
+   * publish IC fares this way), or null when the feed does not provide it.
+   */
+  icPriceYen: number | null;
+};
+
+/**
+ * When a fare applies. Null fields match anything; route and zones are
+ * namespaced like the keys above.
+ */
+export type GtfsFareRule = {
+  fareKey: string;
+  routeKey: string | null;
+  originZoneKey: string | null;
+  destinationZoneKey: string | null;
+};
+
+/** Everything the router needs for one search window. */
+export type GtfsTimetable = {
+  stops: Map<string, GtfsStop>;
+  routes: Map<string, GtfsRoute>;
+  trips: GtfsTrip[];
+  fares: Map<string, GtfsFare>;
+  fareRules: GtfsFareRule[];
+};
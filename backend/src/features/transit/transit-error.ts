@@ -0,0 +1,15 @@
+import type { TransitErrorCode } from "./transit.types";
+
+/**
+ * Thrown by providers when they know why a query cannot be answered, so
+ * that `getTransitDirections` can report the reason on `TransitResult`.
+ */
+export class TransitLookupError extends Error {
+  constructor(
+    readonly code: TransitErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "TransitLookupError";
+  }
+}
@@ -0,0 +1,81 @@
+import type { RoutePreference, TransitPreferences } from "./transit.types";
+import { DEFAULT_TRAVEL_MODE, validateTravelMode } from "./travel-mode";
+
+type PreferenceRow = {
+  route_preference: string;
+  default_mode: string;
+};
+
+const ROUTE_PREFERENCES: readonly RoutePreference[] = [
+  "fastest",
+  "fewest_transfers",
+  "least_walking",
+  "cheapest",
+];
+
+export const DEFAULT_ROUTE_PREFERENCE: RoutePreference = "fastest";
+
+export function validateRoutePreference(
+  value: unknown,
+): RoutePreference | null {
+  return ROUTE_PREFERENCES.find((preference) => preference === value) ?? null;
+}
+
+export async function getTransitPreferences(
+  db: D1Database,
+  userId: string,
+): Promise<TransitPreferences> {
+  const row = await db
+    .prepare(
+      `
+        select route_preference, default_mode
+        from transit_preferences
+        where user_id = ?
+        limit 1
+      `,
+    )
+    .bind(userId)
+    .first<PreferenceRow>();
+
+  return {
+    routePreference:
+      validateRoutePreference(row?.route_preference) ??
+      DEFAULT_ROUTE_PREFERENCE,
+    defaultMode: validateTravelMode(row?.default_mode) ?? DEFAULT_TRAVEL_MODE,
+  };
+}
+
+export async function saveTransitPreferences(
+  db: D1Database,
+  userId: string,
+  preferences: TransitPreferences,
+): Promise<TransitPreferences> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `
+        insert into transit_preferences (
+          user_id,
+          route_preference,
+          default_mode,
+          created_at,
+          updated_at
+        )
+        values (?, ?, ?, ?, ?)
+        on conflict(user_id) do update set
+          route_preference = excluded.route_preference,
+          default_mode = excluded.default_mode,
+          updated_at = excluded.updated_at
+      `,
+    )
+    .bind(
+      userId,
+      preferences.routePreference,
+      preferences.defaultMode,
+      now,
+      now,
+    )
+    .run();
+
+  return preferences;
+}
@@ -0,0 +1,71 @@
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A moment expressed the way GTFS timetables are keyed. */
+export type JstClock = {
+  /** "YYYYMMDD" (JST) */
+  serviceDate: string;
+  /** 0 (Sunday) … 6 (Saturday) */
+  weekday: number;
+  /** Seconds since JST midnight. */
+  seconds: number;
+  /** Epoch milliseconds of that JST midnight. */
+  midnightMs: number;
+};
+
+export function toJstClock(date: Date): JstClock {
+  const jst = new Date(date.getTime() + JST_OFFSET_MS);
+  const seconds =
+    jst.getUTCHours() * 3600 + jst.getUTCMinutes() * 60 + jst.getUTCSeconds();
+  return {
+    serviceDate: jst.toISOString().slice(0, 10).replaceAll("-", ""),
+    weekday: jst.getUTCDay(),
+    seconds,
+    midnightMs: date.getTime() - seconds * 1000 - jst.getUTCMilliseconds(),
+  };
+}
+
+/** GTFS service days run past midnight; earlier times belong to the day before. */
+const SERVICE_DAY_START_SECONDS = 4 * 60 * 60;
+
+/**
+ * Like `toJstClock`, but times before 4:00 are keyed on the previous service
+ * day with seconds past 24:00 (e.g. 0:30 → "25:30"), as GTFS stop times are.
+ */
+export function toServiceClock(date: Date): JstClock {
+  const clock = toJstClock(date);
+  if (clock.seconds >= SERVICE_DAY_START_SECONDS) {
+    return clock;
+  }
+  const previous = toJstClock(new Date(date.getTime() - DAY_MS));
+  return {
+    ...previous,
+    seconds: clock.seconds + DAY_MS / 1000,
+    midnightMs: clock.midnightMs - DAY_MS,
+  };
+}
+
+/** Seconds since midnight → "H:mm" (wraps past 24:00). */
+export function formatClockSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const h = Math.floor(minutes / 60) % 24;
+  const m = (minutes % 60).toString().padStart(2, "0");
+  return `${h}:${m}`;
+}
+
+/** Epoch milliseconds → "H:mm" in JST. */
+export function formatJstClock(ms: number): string {
+  const jst = new Date(ms + JST_OFFSET_MS);
+  return formatClockSeconds(
+    jst.getUTCHours() * 3600 + jst.getUTCMinutes() * 60,
+  );
+}
+
+/** Parse an ISO-8601 datetime → epoch milliseconds, or `null`. */
+export function parseIsoMs(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
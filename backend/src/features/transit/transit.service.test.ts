@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { searchLatestDeparture } from "./transit.service";
+import type {
+  TransitProvider,
+  TransitQuery,
+  TransitRoute,
+} from "./transit.types";
+import { formatJstClock } from "./transit-time";
+
+const MINUTE_MS = 60 * 1000;
+
+/** The providers are passed in, so neither D1 nor Maps is reached. */
+const env = { AUTH_DB: {} as D1Database, GOOGLE_MAPS_API_KEY: "" };
+
+const query: TransitQuery = {
+  origin: "梅田",
+  destination: "天王寺",
+  arrivalTime: "2026-10-20T09:00:00+09:00",
+};
+
+/** "8:40" on the query's day → epoch milliseconds */
+function jst(clock: string): number {
+  return Date.parse(`2026-10-20T${clock.padStart(5, "0")}:00+09:00`);
+}
+
+function route(departMs: number, arriveMs: number): TransitRoute {
+  return {
+    mode: "transit",
+    departureTime: formatJstClock(departMs),
+    arrivalTime: formatJstClock(arriveMs),
+    departureAt: new Date(departMs).toISOString(),
+    arrivalAt: new Date(arriveMs).toISOString(),
+    durationMinutes: (arriveMs - departMs) / MINUTE_MS,
+    summary: "Osaka Metro御堂筋線",
+    steps: [],
+    transferCount: 0,
+    walkingMinutes: 0,
+    firstBoardingStation: "梅田",
+    fare: null,
+    provider: "test",
+  };
+}
+
+/** A train every 10 minutes from :00, 20 minutes to the destination. */
+const timetable: TransitProvider = {
+  id: "test",
+  timetabled: true,
+  getDirections: async ({ arrivalTime, departureTime }) => {
+    const headwayMs = 10 * MINUTE_MS;
+    const rideMs = 20 * MINUTE_MS;
+    const departMs = arrivalTime
+      ? Math.floor((Date.parse(arrivalTime) - rideMs) / headwayMs) * headwayMs
+      : Math.ceil(Date.parse(departureTime ?? "") / headwayMs) * headwayMs;
+    return [route(departMs, departMs + rideMs)];
+  },
+};
+
+/**
+ * An estimate that answers arrive-by queries with a 30-minute trip, but
+ * takes 40 minutes when actually leaving in the 8 o'clock rush.
+ */
+const rushHourEstimate: TransitProvider = {
+  id: "estimate",
+  getDirections: async ({ arrivalTime, departureTime }) => {
+    if (arrivalTime) {
+      const arriveMs = Date.parse(arrivalTime);
+      return [route(arriveMs - 30 * MINUTE_MS, arriveMs)];
+    }
+    const departMs = Date.parse(departureTime ?? "");
+    const rush = departMs >= jst("8:00") && departMs < jst("9:00");
+    return [route(departMs, departMs + (rush ? 40 : 30) * MINUTE_MS)];
+  },
+};
+
+describe("searchLatestDeparture", () => {
+  it("keeps a timetable route and offers the train before it", async () => {
+    const queries: TransitQuery[] = [];
+    const counted: TransitProvider = {
+      ...timetable,
+      getDirections: (q) => {
+        queries.push(q);
+        return timetable.getDirections(q);
+      },
+    };
+    const result = await searchLatestDeparture(env, query, [counted]);
+
+    // The arrive-by answer and the one before it — nothing to probe
+    expect(queries).toHaveLength(2);
+    expect(queries.every((q) => q.arrivalTime !== undefined)).toBe(true);
+    expect(result.bestRoute?.departureAt).toBe(
+      new Date(jst("8:40")).toISOString(),
+    );
+    expect(result.earlierRoute?.departureAt).toBe(
+      new Date(jst("8:30")).toISOString(),
+    );
+  });
+
+  it("moves an estimate back until it arrives on time", async () => {
+    const result = await searchLatestDeparture(env, query, [rushHourEstimate]);
+
+    // 8:30 + 40 minutes is late by 10, so leave at 8:20
+    expect(result.bestRoute).toMatchObject({
+      departureAt: new Date(jst("8:20")).toISOString(),
+      arrivalAt: new Date(jst("9:00")).toISOString(),
+    });
+    // …and it replaces the late 8:30 guess among the alternatives
+    expect(result.routes[0]).toBe(result.bestRoute);
+    expect(result.routes.map((route) => route.departureAt)).not.toContain(
+      new Date(jst("8:30")).toISOString(),
+    );
+    // Ten minutes before the deadline only comes from leaving earlier still
+    expect(result.earlierRoute).toMatchObject({
+      departureAt: new Date(jst("8:10")).toISOString(),
+      arrivalAt: new Date(jst("8:50")).toISOString(),
+    });
+  });
+
+  it("falls through to the next provider", async () => {
+    const empty: TransitProvider = {
+      id: "empty",
+      getDirections: async () => [],
+    };
+    const result = await searchLatestDeparture(env, query, [empty, timetable]);
+
+    expect(result.bestRoute?.departureAt).toBe(
+      new Date(jst("8:40")).toISOString(),
+    );
+  });
+
+  it("is a plain lookup without an arrival time", async () => {
+    const result = await searchLatestDeparture(
+      env,
+      {
+        ...query,
+        arrivalTime: undefined,
+        departureTime: "2026-10-20T08:05:00+09:00",
+      },
+      [timetable],
+    );
+
+    expect(result.bestRoute?.departureAt).toBe(
+      new Date(jst("8:10")).toISOString(),
+    );
+    expect(result.earlierRoute).toBeNull();
+  });
+
+  it("reports why nothing was found", async () => {
+    const result = await searchLatestDeparture(env, query, []);
+
+    expect(result.bestRoute).toBeNull();
+    expect(result.earlierRoute).toBeNull();
+    expect(result.error?.code).toBe("NOT_CONFIGURED");
+  });
+});
@@ -1,156 +1,293 @@
+import { createGoogleRoutesProvider } from "./google-routes.provider";
+import { createGtfsProvider } from "./gtfs.provider";
 import type {
+  DepartureSearchResult,
+  RoutePreference,
+  TransitError,
+  TransitProvider,
   TransitQuery,
   TransitResult,
   TransitRoute,
 } from "./transit.types";
+import { TransitLookupError } from "./transit-error";
+import { parseIsoMs } from "./transit-time";
 
-// ---------------------------------------------------------------------------
-// Google Routes API (DRIVE mode) helpers
-// ---------------------------------------------------------------------------
+/** Depart-at probes per search (estimates drift with the time of day). */
+const MAX_PROBES = 3;
 
-const ROUTES_API_URL =
-  "https://routes.googleapis.com/directions/v2:computeRoutes";
+/** The earlier option arrives at least this long before the deadline. */
+const SAFE_MARGIN_MS = 10 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+type RouteComparator = (a: TransitRoute, b: TransitRoute) => number;
+
+/** Unknown values (e.g. DRIVE estimates) rank after known ones. */
+function compareKnown(a: number | null, b: number | null): number {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  return a - b;
+}
+
+const byDuration: RouteComparator = (a, b) =>
+  a.durationMinutes - b.durationMinutes;
+
+/** Later departure first — for arrive-by results it means more time at home. */
+const byDeparture: RouteComparator = (a, b) =>
+  Date.parse(b.departureAt) - Date.parse(a.departureAt);
+
+const byTransfers: RouteComparator = (a, b) =>
+  compareKnown(a.transferCount, b.transferCount);
+
+const byWalking: RouteComparator = (a, b) =>
+  compareKnown(a.walkingMinutes, b.walkingMinutes);
+
+const byFare: RouteComparator = (a, b) =>
+  compareKnown(
+    a.fare ? (a.fare.icYen ?? a.fare.ticketYen) : null,
+    b.fare ? (b.fare.icYen ?? b.fare.ticketYen) : null,
+  );
+
+/** Comparators per preference, most significant first. */
+const RANKINGS: Record<RoutePreference, RouteComparator[]> = {
+  fastest: [byDuration, byTransfers, byDeparture],
+  fewest_transfers: [byTransfers, byDuration, byDeparture],
+  least_walking: [byWalking, byDuration, byDeparture],
+  cheapest: [byFare, byDuration, byDeparture],
+};
+
+/** Sort routes by the given preference (stable for full ties). */
+export function rankRoutes(
+  routes: TransitRoute[],
+  preference: RoutePreference = "fastest",
+): TransitRoute[] {
+  const comparators = RANKINGS[preference];
+  return [...routes].sort((a, b) => {
+    for (const compare of comparators) {
+      const order = compare(a, b);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+function transitLines(route: TransitRoute): Set<string> {
+  const lines = new Set<string>();
+  for (const step of route.steps) {
+    if (step.transitDetails) lines.add(step.transitDetails.line);
+  }
+  return lines;
+}
 
 /**
- * Field mask — tells Routes API which fields to return.
- * Keep it minimal to reduce response size and billing.
+ * The best-ranked route after `best` that rides none of its lines — the one
+ * to fall back on when the main line is delayed.
  */
-const FIELD_MASK = [
-  "routes.duration",
-  "routes.distanceMeters",
-  "routes.legs.duration",
-  "routes.legs.distanceMeters",
-  "routes.legs.startLocation",
-  "routes.legs.endLocation",
-  "routes.legs.steps.navigationInstruction",
-  "routes.legs.steps.localizedValues",
-  "routes.legs.steps.travelMode",
-].join(",");
-
-/** "123s" → number of seconds. */
-function parseDurationSeconds(dur: unknown): number {
-  if (typeof dur === "string") {
-    return Number.parseInt(dur.replace("s", ""), 10) || 0;
+function pickBackupRoute(
+  ranked: TransitRoute[],
+  best: TransitRoute,
+): TransitRoute | null {
+  const bestLines = transitLines(best);
+  if (bestLines.size === 0) {
+    return null;
   }
-  if (typeof dur === "number") return dur;
-  return 0;
-}
 
-/** JST helper: add minutes to "now" and format as "H:mm". */
-function jstTimeAfterMinutes(minutes: number): string {
-  const jst = new Date(Date.now() + 9 * 60 * 60 * 1000 + minutes * 60 * 1000);
-  const h = jst.getUTCHours();
-  const m = jst.getUTCMinutes().toString().padStart(2, "0");
-  return `${h}:${m}`;
+  return (
+    ranked.find((route) => {
+      const lines = transitLines(route);
+      return (
+        route !== best &&
+        lines.size > 0 &&
+        [...lines].every((line) => !bestLines.has(line))
+      );
+    }) ?? null
+  );
 }
 
-/** JST "now" as "H:mm". */
-function jstNowHHmm(): string {
-  return jstTimeAfterMinutes(0);
+/**
+ * Providers in priority order: the local GTFS timetable router first, then
+ * the Google DRIVE estimate as a fallback when a Maps API key is configured.
+ */
+export function createTransitProviders(
+  env: Pick<Env, "AUTH_DB" | "GOOGLE_MAPS_API_KEY">,
+): TransitProvider[] {
+  const providers: TransitProvider[] = [createGtfsProvider(env.AUTH_DB)];
+  if (env.GOOGLE_MAPS_API_KEY) {
+    providers.push(createGoogleRoutesProvider(env.GOOGLE_MAPS_API_KEY));
+  }
+  return providers;
 }
 
-// ---------------------------------------------------------------------------
-// Public
-// ---------------------------------------------------------------------------
+function toTransitError(error: unknown): TransitError {
+  if (error instanceof TransitLookupError) {
+    return { code: error.code, message: error.message };
+  }
+  return {
+    code: "UPSTREAM_ERROR",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
 
 /**
- * Look up driving directions via the **Google Routes API** (DRIVE mode).
- *
- * Google does not provide transit (train/bus) routing for Japan.
- * We use DRIVE mode to estimate travel duration, then apply a multiplier
- * (×1.3 by default) to approximate public-transport time.
+ * Look up directions by asking each provider in turn and ranking the first
+ * non-empty set of alternatives by `query.preference`.
  *
- * Cost: covered by the $200/month free Google Maps Platform credit.
+ * A failing provider is skipped so that a broken GTFS import never hides
+ * the fallback estimate. When no provider finds a route, `error` carries the
+ * reason given by the last one that tried (later providers are the
+ * fallbacks, so theirs is the final word), or NOT_CONFIGURED when none
+ * could take the query.
  *
- * @see https://developers.google.com/maps/documentation/routes/compute_route_directions
- *
- * @param apiKey - Google Maps Platform API key (Routes API enabled).
- * @param query  - Origin / destination / optional arrival time.
+ * @param env       - Worker env (D1 for GTFS, Maps API key for the fallback).
+ * @param query     - Origin / destination / time / ranking preference.
+ * @param providers - Override the provider chain (defaults to `createTransitProviders(env)`).
  */
 export async function getTransitDirections(
-  apiKey: string,
+  env: Pick<Env, "AUTH_DB" | "GOOGLE_MAPS_API_KEY">,
   query: TransitQuery,
+  providers: TransitProvider[] = createTransitProviders(env),
 ): Promise<TransitResult> {
-  const body: Record<string, unknown> = {
-    origin: { address: query.origin },
-    destination: { address: query.destination },
-    travelMode: "DRIVE",
-    languageCode: "ja",
-    regionCode: "JP",
-    computeAlternativeRoutes: false,
-  };
+  let error: TransitError | null = null;
+  for (const provider of providers) {
+    try {
+      const routes = rankRoutes(
+        await provider.getDirections(query),
+        query.preference,
+      );
+      const bestRoute = routes[0];
+      if (bestRoute) {
+        return {
+          routes,
+          bestRoute,
+          backupRoute: pickBackupRoute(routes, bestRoute),
+          error: null,
+        };
+      }
+    } catch (caught) {
+      error = toTransitError(caught);
+      if (error.code === "UPSTREAM_ERROR") {
+        console.error(`Transit provider "${provider.id}" failed:`, caught);
+      }
+    }
+  }
 
-  const res = await fetch(ROUTES_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Goog-Api-Key": apiKey,
-      "X-Goog-FieldMask": FIELD_MASK,
+  return {
+    routes: [],
+    bestRoute: null,
+    backupRoute: null,
+    error: error ?? {
+      code: "NOT_CONFIGURED",
+      message: "No transit provider can answer this query.",
     },
-    body: JSON.stringify(body),
-  });
-
-  if (!res.ok) {
-    console.error("Routes API HTTP error:", res.status, await res.text());
-    return { routes: [], bestRoute: null };
-  }
+  };
+}
 
-  // biome-ignore lint/suspicious/noExplicitAny: Routes API response
-  const data = (await res.json()) as any;
+function arrivesBy(route: TransitRoute, deadlineMs: number): boolean {
+  return Date.parse(route.arrivalAt) <= deadlineMs;
+}
 
-  if (!data.routes || !Array.isArray(data.routes) || data.routes.length === 0) {
-    return { routes: [], bestRoute: null };
+/**
+ * Latest-feasible-departure search for `query.arrivalTime`.
+ *
+ * A timetable route already is the latest departure arriving by then. A
+ * time-of-day estimate is probed with depart-at queries at its departure
+ * (rush hour runs slower than the guess the arrive-by answer was anchored
+ * on) and moved back by the overrun until one arrives on time. Another
+ * arrive-by search then finds the next-earlier safe option.
+ *
+ * Without `arrivalTime` this is a plain `getTransitDirections`.
+ *
+ * @returns The arrive-by alternatives led by the probed route (the backup
+ *          chosen against it), plus `earlierRoute`.
+ */
+export async function searchLatestDeparture(
+  env: Pick<Env, "AUTH_DB" | "GOOGLE_MAPS_API_KEY">,
+  query: TransitQuery,
+  providers: TransitProvider[] = createTransitProviders(env),
+): Promise<DepartureSearchResult> {
+  const deadlineMs = parseIsoMs(query.arrivalTime);
+  const result = await getTransitDirections(env, query, providers);
+  if (deadlineMs === null || !result.bestRoute) {
+    return { ...result, earlierRoute: null };
   }
 
-  // Multiplier to approximate public-transport time from driving time.
-  // Trains in Japan are often comparable or faster than driving, but
-  // walks + waits add overhead. 1.3× is a conservative estimate.
-  const TRANSIT_MULTIPLIER = 1.3;
-
-  const routes: TransitRoute[] = data.routes
-    // biome-ignore lint/suspicious/noExplicitAny: Routes API route object
-    .map((route: any): TransitRoute | null => {
-      const leg = route.legs?.[0];
-      if (!leg) return null;
-
-      const rawDurationSec = parseDurationSeconds(
-        route.duration ?? leg.duration,
-      );
-      const estimatedMinutes = Math.ceil(
-        (rawDurationSec / 60) * TRANSIT_MULTIPLIER,
-      );
-      const distanceKm = Math.round(
-        ((route.distanceMeters ?? leg.distanceMeters ?? 0) as number) / 1000,
-      );
+  const best = result.bestRoute;
+  const timetabled =
+    providers.find((provider) => provider.id === best.provider)?.timetabled ===
+    true;
+  let latest = best;
+  let departureMs = Date.parse(latest.departureAt);
+  for (let probe = 0; !timetabled && probe < MAX_PROBES; probe++) {
+    const probed = await getTransitDirections(
+      env,
+      {
+        ...query,
+        arrivalTime: undefined,
+        departureTime: new Date(departureMs).toISOString(),
+      },
+      providers,
+    );
+    const onTime = probed.routes.find((route) => arrivesBy(route, deadlineMs));
+    if (onTime) {
+      latest = onTime;
+      break;
+    }
+    if (!probed.bestRoute) {
+      break;
+    }
+    departureMs -= Math.max(
+      MINUTE_MS,
+      Date.parse(probed.bestRoute.arrivalAt) - deadlineMs,
+    );
+  }
 
-      const departureTime = jstNowHHmm();
-      const arrivalTime = jstTimeAfterMinutes(estimatedMinutes);
-
-      // biome-ignore lint/suspicious/noExplicitAny: Routes API step
-      const steps = (leg.steps ?? []).map((step: any) => ({
-        mode: "DRIVE" as const,
-        instruction:
-          (step.navigationInstruction?.instructions as string)?.replace(
-            /<[^>]*>/g,
-            "",
-          ) ?? "",
-        durationMinutes: Math.ceil(
-          parseDurationSeconds(step.staticDuration ?? step.duration) / 60,
+  // Next-earlier option: the arrive-by answer for a deadline with margin,
+  // or — when an estimate anchored on that deadline still leaves too late —
+  // the route leaving one margin before the latest departure
+  const latestDepartureMs = Date.parse(latest.departureAt);
+  const isEarlierOption = (route: TransitRoute): boolean =>
+    Date.parse(route.departureAt) < latestDepartureMs &&
+    arrivesBy(route, deadlineMs);
+  const earlier = await getTransitDirections(
+    env,
+    {
+      ...query,
+      arrivalTime: new Date(
+        Math.min(
+          Date.parse(latest.arrivalAt) - MINUTE_MS,
+          deadlineMs - SAFE_MARGIN_MS,
         ),
-      }));
-
-      return {
-        departureTime,
-        arrivalTime,
-        durationMinutes: estimatedMinutes,
-        summary: `車で約${distanceKm}km（推定${estimatedMinutes}分・乗換含む概算）`,
-        steps,
-      };
-    })
-    .filter(Boolean) as TransitRoute[];
+      ).toISOString(),
+    },
+    providers,
+  );
+  let earlierRoute = earlier.routes.find(isEarlierOption) ?? null;
+  if (!earlierRoute && earlier.bestRoute) {
+    const shifted = await getTransitDirections(
+      env,
+      {
+        ...query,
+        arrivalTime: undefined,
+        departureTime: new Date(
+          latestDepartureMs - SAFE_MARGIN_MS,
+        ).toISOString(),
+      },
+      providers,
+    );
+    earlierRoute = shifted.routes.find(isEarlierOption) ?? null;
+  }
 
+  if (latest === best) {
+    return { ...result, earlierRoute };
+  }
+  // The probed route leads; the backup has to avoid its lines instead
+  const routes = [latest, ...result.routes.filter((route) => route !== best)];
   return {
+    ...result,
     routes,
-    bestRoute: routes[0] ?? null,
+    bestRoute: latest,
+    backupRoute: pickBackupRoute(routes, latest),
+    earlierRoute,
   };
 }
@@ -1,19 +1,76 @@
+/**
+ * How alternative routes are ranked:
+ *   - fastest          — shortest door-to-door duration
+ *   - fewest_transfers — fewest vehicle changes
+ *   - least_walking    — fewest walking minutes
+ *   - cheapest         — lowest fare (IC price when known)
+ */
+export type RoutePreference =
+  | "fastest"
+  | "fewest_transfers"
+  | "least_walking"
+  | "cheapest";
+
+/**
+ * How the user travels. "transit" is rail / bus (GTFS timetable, DRIVE
+ * estimate × 1.3 as fallback); the others are routed directly.
+ */
+export type TravelMode = "transit" | "walk" | "bicycle" | "taxi" | "car";
+
+/** Per-user defaults stored in D1. */
+export type TransitPreferences = {
+  routePreference: RoutePreference;
+  defaultMode: TravelMode;
+};
+
+/** WGS84 coordinates (e.g. from the browser Geolocation API). */
+export type Coordinates = {
+  lat: number;
+  lon: number;
+};
+
 /** Request to look up transit directions. */
 export type TransitQuery = {
   /** Address or place name of the starting point (e.g. "大阪駅"). */
   origin: string;
+  /**
+   * Exact starting point. When set, providers route from here and `origin`
+   * is only its display name (e.g. the reverse-geocoded address).
+   */
+  originCoordinates?: Coordinates;
   /** Address or place name of the destination (e.g. "京都大学"). */
   destination: string;
   /**
-   * ISO-8601 datetime by which you must *arrive*.
-   * When provided the Directions API calculates routes backwards from this time.
+   * Exact destination (e.g. a saved place's coordinates). When set,
+   * providers route to here and `destination` is only its display name.
+   */
+  destinationCoordinates?: Coordinates;
+  /**
+   * ISO-8601 datetime by which you must *arrive* (arrive-by search).
+   * Routes are calculated backwards from this time. Takes precedence over
+   * `departureTime`.
    */
   arrivalTime?: string;
+  /**
+   * ISO-8601 datetime to *leave* at (depart-at search).
+   * When neither time is given, routes leave now.
+   */
+  departureTime?: string;
+  /**
+   * Find the last departure of the service day (終電) at or after
+   * `departureTime` instead of the first one. Only timetable providers can
+   * answer it; ignored when `arrivalTime` is set.
+   */
+  latestDeparture?: boolean;
+  /** Ranking used to pick `bestRoute`. Default: "fastest". */
+  preference?: RoutePreference;
+  /** Default: "transit". */
+  mode?: TravelMode;
 };
 
 /** A single step inside a transit route. */
 export type TransitStep = {
-  /** WALKING · TRANSIT */
+  /** WALKING · TRANSIT · DRIVE · BICYCLE */
   mode: string;
   /** Human-readable instruction (HTML tags stripped). */
   instruction: string;
@@ -25,23 +82,111 @@ export type TransitStep = {
     departureStop: string;
     arrivalStop: string;
     numStops: number;
+    /** Timetabled departure from `departureStop` (e.g. "8:12"). */
+    departureTime?: string;
+    /** Timetabled arrival at `arrivalStop` (e.g. "8:31"). */
+    arrivalTime?: string;
+    /** Trip headsign (e.g. "出町柳"), when the feed provides one. */
+    headsign?: string;
   };
 };
 
+/** Fare of a route in yen. */
+export type TransitFare = {
+  /** Paper-ticket (きっぷ) price. */
+  ticketYen: number;
+  /** IC card price, or null when the provider does not publish it. */
+  icYen: number | null;
+};
+
 /** A complete route option. */
 export type TransitRoute = {
+  /** Mode the route was computed for. */
+  mode: TravelMode;
   /** e.g. "8:12" */
   departureTime: string;
   /** e.g. "9:05" */
   arrivalTime: string;
+  /** ISO-8601 datetime of `departureTime` (for date-aware arithmetic). */
+  departureAt: string;
+  /** ISO-8601 datetime of `arrivalTime`. */
+  arrivalAt: string;
   durationMinutes: number;
   summary: string;
   steps: TransitStep[];
+  /**
+   * Number of transfers (TRANSIT legs − 1), or `null` when the provider
+   * does not know the legs (e.g. the DRIVE estimate).
+   */
+  transferCount: number | null;
+  /** Total minutes of WALKING steps, or `null` when unknown. */
+  walkingMinutes: number | null;
+  /** Station / stop of the first boarding (e.g. "新大阪"), or `null`. */
+  firstBoardingStation: string | null;
+  /** Fare of the whole route, or `null` when any ride cannot be priced. */
+  fare: TransitFare | null;
+  /** Id of the provider that produced this route (e.g. "gtfs"). */
+  provider: string;
+};
+
+/**
+ * Why no route was found:
+ *   - NOT_CONFIGURED — no provider can answer the query (e.g. walking
+ *                      without a Maps API key)
+ *   - GEOCODE_FAILED — origin or destination could not be resolved
+ *   - NO_ROUTE       — both places are known but nothing connects them
+ *   - UPSTREAM_ERROR — a provider failed (HTTP error, network, …)
+ */
+export type TransitErrorCode =
+  | "NOT_CONFIGURED"
+  | "GEOCODE_FAILED"
+  | "NO_ROUTE"
+  | "UPSTREAM_ERROR";
+
+export type TransitError = {
+  code: TransitErrorCode;
+  message: string;
 };
 
 /** Result of a transit directions lookup. */
 export type TransitResult = {
+  /** All alternatives, ranked by the query's preference. */
   routes: TransitRoute[];
   /** The first (best) route, or null if nothing found. */
   bestRoute: TransitRoute | null;
+  /**
+   * The best-ranked alternative that shares no line with `bestRoute` (the
+   * route to take when the main line is delayed), or null.
+   */
+  backupRoute: TransitRoute | null;
+  /** Why `routes` is empty (null whenever a route was found). */
+  error: TransitError | null;
+};
+
+/** Result of a latest-feasible-departure search (`searchLatestDeparture`). */
+export type DepartureSearchResult = TransitResult & {
+  /**
+   * The next-earlier option — leaving before `bestRoute` and arriving at
+   * least 10 minutes before the deadline — or null.
+   */
+  earlierRoute: TransitRoute | null;
+};
+
+/**
+ * A source of routes (local GTFS timetable router, Google Routes API, …).
+ *
+ * Providers return every alternative they find, unranked, and an empty list
+ * when the query is not theirs to answer (e.g. another travel mode) so that
+ * `getTransitDirections` can fall through to the next one. When they know
+ * why a query failed they throw a `TransitLookupError` with the reason.
+ */
+export type TransitProvider = {
+  /** Short identifier copied onto each route (e.g. "gtfs"). */
+  id: string;
+  /**
+   * Routes follow a timetable: an arrive-by answer already is the latest
+   * departure, so `searchLatestDeparture` does not probe it.
+   */
+  timetabled?: boolean;
+  getDirections(query: TransitQuery): Promise<TransitRoute[]>;
 };
@@ -0,0 +1,49 @@
+import type { TravelMode } from "./transit.types";
+
+const TRAVEL_MODES: readonly TravelMode[] = [
+  "transit",
+  "walk",
+  "bicycle",
+  "taxi",
+  "car",
+];
+
+/**
+ * Calendar tags selecting a mode for one event (e.g. "ゼミ #自転車").
+ * The lookahead stands in for `\b`, which ignores Japanese letters.
+ */
+const MODE_TAGS: [RegExp, TravelMode][] = [
+  [/[#＃](?:電車|バス|transit)(?![\p{L}\p{N}])/iu, "transit"],
+  [/[#＃](?:徒歩|歩き|walk)(?![\p{L}\p{N}])/iu, "walk"],
+  [/[#＃](?:自転車|チャリ|bike|bicycle)(?![\p{L}\p{N}])/iu, "bicycle"],
+  [/[#＃](?:タクシー|taxi)(?![\p{L}\p{N}])/iu, "taxi"],
+  [/[#＃](?:車|自動車|car)(?![\p{L}\p{N}])/iu, "car"],
+];
+
+export const DEFAULT_TRAVEL_MODE: TravelMode = "transit";
+
+/** Japanese label for speech / summaries. */
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  transit: "電車",
+  walk: "徒歩",
+  bicycle: "自転車",
+  taxi: "タクシー",
+  car: "車",
+};
+
+export function validateTravelMode(value: unknown): TravelMode | null {
+  return TRAVEL_MODES.find((mode) => mode === value) ?? null;
+}
+
+/** The mode tagged in free text (event title / description), if any. */
+export function travelModeFromTags(
+  ...texts: (string | null | undefined)[]
+): TravelMode | null {
+  for (const text of texts) {
+    if (!text) continue;
+    for (const [pattern, mode] of MODE_TAGS) {
+      if (pattern.test(text)) return mode;
+    }
+  }
+  return null;
+}
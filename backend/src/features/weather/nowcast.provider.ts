@@ -0,0 +1,68 @@
+import fixtureNowcast from "./nowcast.fixture.json";
+import type { NowcastProvider, NowcastSlot } from "./nowcast.types";
+
+const MINUTE_MS = 60 * 1000;
+
+/** 15-minute steps requested from Open-Meteo (4 hours). */
+const OPEN_METEO_STEPS = 16;
+
+/**
+ * Open-Meteo 15-minutely precipitation (no API key required). Times come
+ * back in JST without an offset.
+ *
+ * @example
+ * ```
+ * curl "https://api.open-meteo.com/v1/forecast?latitude=34.70&longitude=135.50&minutely_15=precipitation&forecast_minutely_15=16&timezone=Asia/Tokyo"
+ * ```
+ */
+export function createOpenMeteoNowcastProvider(): NowcastProvider {
+  return {
+    id: "open-meteo",
+    getNowcast: async (point) => {
+      const params = new URLSearchParams({
+        latitude: point.lat.toString(),
+        longitude: point.lon.toString(),
+        minutely_15: "precipitation",
+        forecast_minutely_15: OPEN_METEO_STEPS.toString(),
+        timezone: "Asia/Tokyo",
+      });
+      const res = await fetch(
+        `https://api.open-meteo.com/v1/forecast?${params}`,
+      );
+      if (!res.ok) {
+        throw new Error(`Nowcast HTTP ${res.status}`);
+      }
+
+      // biome-ignore lint/suspicious/noExplicitAny: Open-Meteo forecast response
+      const data = (await res.json()) as any;
+      const times: unknown[] = data?.minutely_15?.time ?? [];
+      const values: unknown[] = data?.minutely_15?.precipitation ?? [];
+      return times.flatMap((time, i): NowcastSlot[] => {
+        const mm = values[i];
+        return typeof time === "string" && typeof mm === "number"
+          ? [{ startIso: `${time}:00+09:00`, minutes: 15, precipitationMm: mm }]
+          : [];
+      });
+    },
+  };
+}
+
+/**
+ * Offline stand-in: the bundled pattern (a shower 45–90 minutes from now
+ * and a lighter one after 2.5 hours), anchored at the current quarter hour.
+ */
+export function createFixtureNowcastProvider(): NowcastProvider {
+  return {
+    id: "fixture",
+    getNowcast: async () => {
+      const minutes = fixtureNowcast.intervalMinutes;
+      const stepMs = minutes * MINUTE_MS;
+      const anchorMs = Math.floor(Date.now() / stepMs) * stepMs;
+      return fixtureNowcast.precipitationMm.map((mm, i) => ({
+        startIso: new Date(anchorMs + i * stepMs).toISOString(),
+        minutes,
+        precipitationMm: mm,
+      }));
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import {
+  createFixtureNowcastProvider,
+  createOpenMeteoNowcastProvider,
+} from "./nowcast.provider";
+import type { NowcastProvider, NowcastSlot } from "./nowcast.types";
+
+const MINUTE_MS = 60 * 1000;
+
+/** Precipitation (mm per interval) that counts as rain. */
+const RAIN_MM = 0.1;
+
+/** Departures are moved in steps of this many minutes… */
+const SHIFT_STEP_MINUTES = 5;
+
+/** …and by at most this much (a small shift, not a new plan). */
+const MAX_SHIFT_MINUTES = 30;
+
+/**
+ * `WEATHER_NOWCAST_PROVIDER` selects the source: "open-meteo" for the
+ * Open-Meteo 15-minutely forecast, "fixture" for the bundled pattern, unset
+ * disables the nowcast.
+ */
+export function createNowcastProvider(
+  env: Pick<Env, "WEATHER_NOWCAST_PROVIDER">,
+): NowcastProvider | null {
+  switch (env.WEATHER_NOWCAST_PROVIDER?.trim()) {
+    case "open-meteo":
+      return createOpenMeteoNowcastProvider();
+    case "fixture":
+      return createFixtureNowcastProvider();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Nowcast at a point, or an empty list when no provider is configured or it
+ * fails (a broken nowcast must never break the briefing).
+ */
+export async function getNowcast(
+  env: Pick<Env, "WEATHER_NOWCAST_PROVIDER">,
+  point: { lat: number; lon: number },
+  provider: NowcastProvider | null = createNowcastProvider(env),
+): Promise<NowcastSlot[]> {
+  if (!provider) {
+    return [];
+  }
+
+  try {
+    return await provider.getNowcast(point);
+  } catch (error) {
+    console.error(`Nowcast provider "${provider.id}" failed:`, error);
+    return [];
+  }
+}
+
+/**
+ * true when the nowcast covers [fromMs, toMs) completely and no interval
+ * overlapping it has rain.
+ */
+function isDry(slots: NowcastSlot[], fromMs: number, toMs: number): boolean {
+  let coveredUntil = fromMs;
+  for (const slot of slots) {
+    const startMs = Date.parse(slot.startIso);
+    const endMs = startMs + slot.minutes * MINUTE_MS;
+    if (endMs <= fromMs || startMs >= toMs) continue;
+    if (slot.precipitationMm >= RAIN_MM || startMs > coveredUntil) {
+      return false;
+    }
+    coveredUntil = Math.max(coveredUntil, endMs);
+  }
+  return coveredUntil >= toMs;
+}
+
+/**
+ * A departure that walks out in the dry when leaving at `leaveAtMs` would
+ * not: the latest one, moved earlier by 5-minute steps, that keeps the
+ * first `walkMinutes` outside free of rain.
+ *
+ * Leaving later than `leaveAtMs` would be late, so only earlier departures
+ * are tried — at most `slackMinutes` (never before now) and 30 minutes.
+ *
+ * @returns Epoch milliseconds of the dry departure, or null when the
+ *          planned one is dry, the nowcast does not cover it, or no shift
+ *          within the slack avoids the rain.
+ */
+export function suggestDryDeparture(
+  slots: NowcastSlot[],
+  leaveAtMs: number,
+  slackMinutes: number,
+  walkMinutes: number,
+): number | null {
+  const walkMs = walkMinutes * MINUTE_MS;
+  const wet = slots.some((slot) => {
+    const startMs = Date.parse(slot.startIso);
+    return (
+      slot.precipitationMm >= RAIN_MM &&
+      startMs < leaveAtMs + walkMs &&
+      startMs + slot.minutes * MINUTE_MS > leaveAtMs
+    );
+  });
+  if (!wet) {
+    return null;
+  }
+
+  const maxShift = Math.min(slackMinutes, MAX_SHIFT_MINUTES);
+  for (
+    let shift = SHIFT_STEP_MINUTES;
+    shift <= maxShift;
+    shift += SHIFT_STEP_MINUTES
+  ) {
+    const departureMs = leaveAtMs - shift * MINUTE_MS;
+    if (isDry(slots, departureMs, departureMs + walkMs)) {
+      return departureMs;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,18 @@
+/** Precipitation over one short interval of the nowcast. */
+export type NowcastSlot = {
+  /** ISO-8601 datetime (with offset) the interval starts at. */
+  startIso: string;
+  /** Length of the interval (e.g. 15). */
+  minutes: number;
+  /** Precipitation over the interval in mm. */
+  precipitationMm: number;
+};
+
+/**
+ * A source of minute-level precipitation (Open-Meteo 15-minutely, the
+ * bundled fixture, …) for the next few hours, earliest first.
+ */
+export type NowcastProvider = {
+  id: string;
+  getNowcast(point: { lat: number; lon: number }): Promise<NowcastSlot[]>;
+};
@@ -0,0 +1,94 @@
+import fixtureFeed from "./warning.fixture.json";
+import type {
+  WarningLevel,
+  WarningProvider,
+  WeatherWarning,
+} from "./warning.types";
+
+const WARNING_LEVELS: WarningLevel[] = ["advisory", "warning", "emergency"];
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0
+    ? value.trim()
+    : null;
+}
+
+/**
+ * Feed format (shared by remote feeds and the bundled fixture):
+ *
+ *   { "areas": [ { "area": "大阪市", "prefecture": "大阪府",
+ *                  "warnings": [ { "name": "大雨警報",
+ *                                  "level": "advisory" | "warning" | "emergency",
+ *                                  "message": "…" } ] } ] }
+ *
+ * Areas without a name and warnings without a name or known level are
+ * dropped.
+ */
+export function parseWarningFeed(json: unknown): WeatherWarning[] {
+  if (!json || typeof json !== "object") {
+    return [];
+  }
+
+  const areas = (json as { areas?: unknown }).areas;
+  if (!Array.isArray(areas)) {
+    return [];
+  }
+
+  return areas.flatMap((entry): WeatherWarning[] => {
+    if (!entry || typeof entry !== "object") {
+      return [];
+    }
+
+    const candidate = entry as Record<string, unknown>;
+    const area = optionalText(candidate.area);
+    if (!area || !Array.isArray(candidate.warnings)) {
+      return [];
+    }
+
+    const prefecture = optionalText(candidate.prefecture);
+    return candidate.warnings
+      .map((item): WeatherWarning | null => {
+        if (!item || typeof item !== "object") {
+          return null;
+        }
+
+        const warning = item as Record<string, unknown>;
+        const name = optionalText(warning.name);
+        const level = WARNING_LEVELS.find((value) => value === warning.level);
+        if (!name || !level) {
+          return null;
+        }
+
+        return {
+          name,
+          level,
+          area,
+          prefecture,
+          message: optionalText(warning.message),
+        };
+      })
+      .filter((warning): warning is WeatherWarning => warning !== null);
+  });
+}
+
+/** Warnings fetched from a JSON feed in the format above. */
+export function createHttpWarningProvider(url: string): WarningProvider {
+  return {
+    id: "http",
+    getWarnings: async () => {
+      const res = await fetch(url, { headers: { Accept: "application/json" } });
+      if (!res.ok) {
+        throw new Error(`Warning feed HTTP ${res.status}`);
+      }
+      return parseWarningFeed(await res.json());
+    },
+  };
+}
+
+/** Offline stand-in: 大阪市 大雨警報・雷注意報, 京都市 強風注意報. */
+export function createFixtureWarningProvider(): WarningProvider {
+  return {
+    id: "fixture",
+    getWarnings: async () => parseWarningFeed(fixtureFeed),
+  };
+}
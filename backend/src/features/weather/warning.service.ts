@@ -0,0 +1,74 @@
+import {
+  createFixtureWarningProvider,
+  createHttpWarningProvider,
+} from "./warning.provider";
+import type { WarningProvider, WeatherWarning } from "./warning.types";
+
+/**
+ * `WEATHER_WARNING_FEED_URL` selects the feed: a URL is fetched, the value
+ * "fixture" uses the bundled JSON, unset disables warning checks.
+ */
+export function createWarningProvider(
+  env: Pick<Env, "WEATHER_WARNING_FEED_URL">,
+): WarningProvider | null {
+  const source = env.WEATHER_WARNING_FEED_URL?.trim();
+  if (!source) {
+    return null;
+  }
+  return source === "fixture"
+    ? createFixtureWarningProvider()
+    : createHttpWarningProvider(source);
+}
+
+/**
+ * Warnings in force, or an empty list when no feed is configured or the
+ * feed fails (a broken feed must never break the briefing).
+ */
+export async function getWeatherWarnings(
+  env: Pick<Env, "WEATHER_WARNING_FEED_URL">,
+  provider: WarningProvider | null = createWarningProvider(env),
+): Promise<WeatherWarning[]> {
+  if (!provider) {
+    return [];
+  }
+
+  try {
+    return await provider.getWarnings();
+  } catch (error) {
+    console.error(`Warning provider "${provider.id}" failed:`, error);
+    return [];
+  }
+}
+
+/** "大阪市" → "大阪", "京都府" → "京都" (station names rarely say 市). */
+function areaStem(area: string): string {
+  return area.replace(/[都道府県市区町村]$/u, "");
+}
+
+/**
+ * Warnings for the areas the user passes through. An area matches when a
+ * location text names it, its prefecture or its stem ("大阪" in "大阪駅").
+ */
+export function matchAreaWarnings(
+  warnings: WeatherWarning[],
+  locations: string[],
+): WeatherWarning[] {
+  const texts = locations.map((location) => location.normalize("NFKC"));
+  return warnings.filter((warning) => {
+    const names = [warning.area, areaStem(warning.area)];
+    if (warning.prefecture) names.push(warning.prefecture);
+    return names.some(
+      (name) => name.length >= 2 && texts.some((text) => text.includes(name)),
+    );
+  });
+}
+
+/** 警報 and 特別警報 — plans may need to change, not only 注意. */
+export function isSevereWarning(warning: WeatherWarning): boolean {
+  return warning.level !== "advisory";
+}
+
+/** "大阪市 大雨警報" */
+export function formatWarning(warning: WeatherWarning): string {
+  return `${warning.area} ${warning.name}`;
+}
@@ -0,0 +1,28 @@
+/**
+ * advisory  — 注意報
+ * warning   — 警報
+ * emergency — 特別警報
+ */
+export type WarningLevel = "advisory" | "warning" | "emergency";
+
+/** A weather warning / advisory (警報・注意報) in force for one area. */
+export type WeatherWarning = {
+  /** As published (e.g. "大雨警報"). */
+  name: string;
+  level: WarningLevel;
+  /** Municipality the warning is issued for (e.g. "大阪市"). */
+  area: string;
+  /** Prefecture of `area` (e.g. "大阪府"), when the feed gives it. */
+  prefecture: string | null;
+  /** Free-text notice, when available. */
+  message: string | null;
+};
+
+/**
+ * A source of weather warnings (a JSON feed, the bundled fixture, …). Only
+ * warnings currently in force are returned.
+ */
+export type WarningProvider = {
+  id: string;
+  getWarnings(): Promise<WeatherWarning[]>;
+};
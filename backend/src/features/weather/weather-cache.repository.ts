@@ -0,0 +1,174 @@
+import type { ForecastHour, WeatherPoint } from "./weather.types";
+
+type GeocodeRow = {
+  lat: number | null;
+  lon: number | null;
+  name: string | null;
+};
+
+type ForecastRow = {
+  hours_json: string;
+};
+
+/**
+ * A remembered geocode answer created at or after `since` (ISO-8601):
+ * `{ point: null }` when the provider did not know the place, undefined
+ * when nothing usable is cached.
+ */
+export async function readCachedGeocode(
+  db: D1Database,
+  provider: string,
+  queryKey: string,
+  since: string,
+): Promise<{ point: WeatherPoint | null } | undefined> {
+  const row = await db
+    .prepare(
+      `
+        select lat, lon, name
+        from weather_geocode_cache
+        where provider = ? and query_key = ? and created_at >= ?
+      `,
+    )
+    .bind(provider, queryKey, since)
+    .first<GeocodeRow>();
+  if (!row) {
+    return undefined;
+  }
+
+  return {
+    point:
+      row.lat !== null && row.lon !== null
+        ? { lat: row.lat, lon: row.lon, name: row.name ?? queryKey }
+        : null,
+  };
+}
+
+/**
+ * Remember a geocode answer, deleting the answers created before
+ * `expiredBefore` (ISO-8601) that no read would use again.
+ */
+export async function saveCachedGeocode(
+  db: D1Database,
+  provider: string,
+  queryKey: string,
+  point: WeatherPoint | null,
+  expiredBefore: string,
+): Promise<void> {
+  const deleteExpired = db
+    .prepare(
+      `
+        delete from weather_geocode_cache
+        where created_at < ?
+      `,
+    )
+    .bind(expiredBefore);
+  const save = db
+    .prepare(
+      `
+        insert into weather_geocode_cache (
+          provider,
+          query_key,
+          lat,
+          lon,
+          name,
+          created_at
+        )
+        values (?, ?, ?, ?, ?, ?)
+        on conflict(provider, query_key) do update set
+          lat = excluded.lat,
+          lon = excluded.lon,
+          name = excluded.name,
+          created_at = excluded.created_at
+      `,
+    )
+    .bind(
+      provider,
+      queryKey,
+      point?.lat ?? null,
+      point?.lon ?? null,
+      point?.name ?? null,
+      new Date().toISOString(),
+    );
+
+  await db.batch([deleteExpired, save]);
+}
+
+/** The hours of `date` fetched for a grid cell during `issuedHour`, or null. */
+export async function readCachedForecast(
+  db: D1Database,
+  provider: string,
+  cellKey: string,
+  date: string,
+  issuedHour: string,
+): Promise<ForecastHour[] | null> {
+  const row = await db
+    .prepare(
+      `
+        select hours_json
+        from weather_forecast_cache
+        where provider = ? and cell_key = ? and date = ? and issued_hour = ?
+      `,
+    )
+    .bind(provider, cellKey, date, issuedHour)
+    .first<ForecastRow>();
+  if (!row) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(row.hours_json) as ForecastHour[];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One row per cell and day: a newer hour replaces the older forecast. The
+ * rows of every cell fetched before `issuedHour` can no longer be read and
+ * are deleted.
+ */
+export async function saveCachedForecast(
+  db: D1Database,
+  provider: string,
+  cellKey: string,
+  date: string,
+  issuedHour: string,
+  hours: ForecastHour[],
+): Promise<void> {
+  const deleteExpired = db
+    .prepare(
+      `
+        delete from weather_forecast_cache
+        where issued_hour < ?
+      `,
+    )
+    .bind(issuedHour);
+  const save = db
+    .prepare(
+      `
+        insert into weather_forecast_cache (
+          provider,
+          cell_key,
+          date,
+          issued_hour,
+          hours_json,
+          created_at
+        )
+        values (?, ?, ?, ?, ?, ?)
+        on conflict(provider, cell_key, date) do update set
+          issued_hour = excluded.issued_hour,
+          hours_json = excluded.hours_json,
+          created_at = excluded.created_at
+      `,
+    )
+    .bind(
+      provider,
+      cellKey,
+      date,
+      issuedHour,
+      JSON.stringify(hours),
+      new Date().toISOString(),
+    );
+
+  await db.batch([deleteExpired, save]);
+}
@@ -0,0 +1,159 @@
+import { weatherPreferencesFromEnv } from "./weather.service";
+import type { WeatherPreferences } from "./weather.types";
+
+type PreferenceRow = {
+  umbrella_probability: number;
+  umbrella_mm: number;
+  folding_umbrella_probability: number;
+  heatstroke_wbgt: number;
+  cold_apparent_temperature: number;
+};
+
+/** Accepted range of each threshold (inclusive). */
+const LIMITS: Record<keyof WeatherPreferences, [number, number]> = {
+  umbrellaProbability: [0, 100],
+  umbrellaMm: [0, 50],
+  foldingUmbrellaProbability: [0, 100],
+  heatstrokeWbgt: [15, 35],
+  coldApparentTemperature: [-20, 25],
+};
+
+const FIELDS = Object.keys(LIMITS) as (keyof WeatherPreferences)[];
+
+function validateThreshold(
+  field: keyof WeatherPreferences,
+  value: unknown,
+): number | null {
+  const [min, max] = LIMITS[field];
+  return typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max
+    ? value
+    : null;
+}
+
+/**
+ * Apply a partial update to `current`. Returns null when the update is not
+ * an object, sets no threshold, has a value out of range, or would put the
+ * folding umbrella above the umbrella.
+ */
+export function mergeWeatherPreferences(
+  current: WeatherPreferences,
+  update: unknown,
+): WeatherPreferences | null {
+  if (!update || typeof update !== "object") {
+    return null;
+  }
+
+  const candidate = update as Record<string, unknown>;
+  const merged = { ...current };
+  let changed = false;
+  for (const field of FIELDS) {
+    if (candidate[field] === undefined) continue;
+    const value = validateThreshold(field, candidate[field]);
+    if (value === null) {
+      return null;
+    }
+    merged[field] = value;
+    changed = true;
+  }
+
+  return changed &&
+    merged.foldingUmbrellaProbability <= merged.umbrellaProbability
+    ? merged
+    : null;
+}
+
+/** The user's saved thresholds, or the ENV defaults for users without any. */
+export async function getWeatherPreferences(
+  db: D1Database,
+  userId: string,
+  env?: Parameters<typeof weatherPreferencesFromEnv>[0],
+): Promise<WeatherPreferences> {
+  const defaults = weatherPreferencesFromEnv(env);
+  const row = await db
+    .prepare(
+      `
+        select
+          umbrella_probability,
+          umbrella_mm,
+          folding_umbrella_probability,
+          heatstroke_wbgt,
+          cold_apparent_temperature
+        from weather_preferences
+        where user_id = ?
+        limit 1
+      `,
+    )
+    .bind(userId)
+    .first<PreferenceRow>();
+  if (!row) {
+    return defaults;
+  }
+
+  return {
+    umbrellaProbability:
+      validateThreshold("umbrellaProbability", row.umbrella_probability) ??
+      defaults.umbrellaProbability,
+    umbrellaMm:
+      validateThreshold("umbrellaMm", row.umbrella_mm) ?? defaults.umbrellaMm,
+    foldingUmbrellaProbability:
+      validateThreshold(
+        "foldingUmbrellaProbability",
+        row.folding_umbrella_probability,
+      ) ?? defaults.foldingUmbrellaProbability,
+    heatstrokeWbgt:
+      validateThreshold("heatstrokeWbgt", row.heatstroke_wbgt) ??
+      defaults.heatstrokeWbgt,
+    coldApparentTemperature:
+      validateThreshold(
+        "coldApparentTemperature",
+        row.cold_apparent_temperature,
+      ) ?? defaults.coldApparentTemperature,
+  };
+}
+
+export async function saveWeatherPreferences(
+  db: D1Database,
+  userId: string,
+  preferences: WeatherPreferences,
+): Promise<WeatherPreferences> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `
+        insert into weather_preferences (
+          user_id,
+          umbrella_probability,
+          umbrella_mm,
+          folding_umbrella_probability,
+          heatstroke_wbgt,
+          cold_apparent_temperature,
+          created_at,
+          updated_at
+        )
+        values (?, ?, ?, ?, ?, ?, ?, ?)
+        on conflict(user_id) do update set
+          umbrella_probability = excluded.umbrella_probability,
+          umbrella_mm = excluded.umbrella_mm,
+          folding_umbrella_probability = excluded.folding_umbrella_probability,
+          heatstroke_wbgt = excluded.heatstroke_wbgt,
+          cold_apparent_temperature = excluded.cold_apparent_temperature,
+          updated_at = excluded.updated_at
+      `,
+    )
+    .bind(
+      userId,
+      preferences.umbrellaProbability,
+      preferences.umbrellaMm,
+      preferences.foldingUmbrellaProbability,
+      preferences.heatstrokeWbgt,
+      preferences.coldApparentTemperature,
+      now,
+      now,
+    )
+    .run();
+
+  return preferences;
+}
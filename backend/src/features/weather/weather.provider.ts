@@ -0,0 +1,157 @@
+import fixtureWeather from "./weather.fixture.json";
+import type {
+  ForecastHour,
+  WeatherPoint,
+  WeatherProvider,
+} from "./weather.types";
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+// ---------------------------------------------------------------------------
+// Open-Meteo  (no API key required)
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a place name to lat/lon via Open-Meteo Geocoding API.
+ *
+ * @example
+ * ```
+ * curl "https://geocoding-api.open-meteo.com/v1/search?name=京都大学&count=1&language=ja&format=json"
+ * ```
+ */
+async function geocodeOpenMeteo(
+  location: string,
+): Promise<WeatherPoint | null> {
+  const params = new URLSearchParams({
+    name: location,
+    count: "1",
+    language: "ja",
+    format: "json",
+  });
+  const res = await fetch(
+    `https://geocoding-api.open-meteo.com/v1/search?${params}`,
+  );
+  if (!res.ok) {
+    throw new Error(`Geocoding HTTP ${res.status}`);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Open-Meteo geocoding response
+  const data = (await res.json()) as any;
+  const first = data?.results?.[0];
+  if (!first || typeof first.latitude !== "number") return null;
+
+  return {
+    lat: first.latitude as number,
+    lon: first.longitude as number,
+    name: (first.name as string) ?? location,
+  };
+}
+
+/**
+ * Fetch the hourly forecast of one JST day for the given coordinates.
+ *
+ * @example
+ * ```
+ * curl "https://api.open-meteo.com/v1/forecast?latitude=34.98&longitude=135.76&hourly=temperature_2m,apparent_temperature,precipitation_probability,precipitation,wind_speed_10m,relative_humidity_2m,shortwave_radiation,uv_index&wind_speed_unit=ms&timezone=Asia/Tokyo&start_date=2026-02-22&end_date=2026-02-22"
+ * ```
+ */
+async function fetchOpenMeteoForecast(
+  point: { lat: number; lon: number },
+  date: string,
+): Promise<ForecastHour[]> {
+  const params = new URLSearchParams({
+    latitude: point.lat.toString(),
+    longitude: point.lon.toString(),
+    hourly:
+      "temperature_2m,apparent_temperature,precipitation_probability,precipitation,wind_speed_10m,relative_humidity_2m,shortwave_radiation,uv_index",
+    wind_speed_unit: "ms",
+    timezone: "Asia/Tokyo",
+    start_date: date,
+    end_date: date,
+  });
+  const res = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+  if (!res.ok) {
+    throw new Error(`Forecast HTTP ${res.status}`);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Open-Meteo forecast response
+  const data = (await res.json()) as any;
+  const hourly = data?.hourly;
+  if (!hourly?.time || !Array.isArray(hourly.time)) return [];
+
+  const times: string[] = hourly.time;
+  const temperatures: unknown[] = hourly.temperature_2m ?? [];
+  const apparent: unknown[] = hourly.apparent_temperature ?? [];
+  const winds: unknown[] = hourly.wind_speed_10m ?? [];
+  const probs: unknown[] = hourly.precipitation_probability ?? [];
+  const mms: unknown[] = hourly.precipitation ?? [];
+  const humidities: unknown[] = hourly.relative_humidity_2m ?? [];
+  const radiation: unknown[] = hourly.shortwave_radiation ?? [];
+  const uvs: unknown[] = hourly.uv_index ?? [];
+
+  return times.map((iso, i) => ({
+    iso,
+    temperature: numberOrNull(temperatures[i]),
+    apparentTemperature: numberOrNull(apparent[i]),
+    windSpeed: numberOrNull(winds[i]),
+    precipitationProbability: numberOrNull(probs[i]),
+    precipitationMm: numberOrNull(mms[i]),
+    humidity: numberOrNull(humidities[i]),
+    radiation: numberOrNull(radiation[i]),
+    uvIndex: numberOrNull(uvs[i]),
+  }));
+}
+
+/** Open-Meteo geocoding and JMA-model hourly forecasts. */
+export function createOpenMeteoWeatherProvider(): WeatherProvider {
+  return {
+    id: "open-meteo",
+    geocode: geocodeOpenMeteo,
+    getHourlyForecast: fetchOpenMeteoForecast,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Fixture
+// ---------------------------------------------------------------------------
+
+/** "大阪駅（JR）" → "大阪" */
+function normalizeFixtureName(value: string): string {
+  return value
+    .normalize("NFKC")
+    .replace(/\s+/gu, "")
+    .replace(/\(.*?\)/gu, "")
+    .replace(/駅$/u, "");
+}
+
+/**
+ * Offline, deterministic stand-in: places from the bundled list (the longest
+ * name the location contains, or that contains it) and the same
+ * 24 hours — dry morning, rain in the evening — for every point and day.
+ */
+export function createFixtureWeatherProvider(): WeatherProvider {
+  return {
+    id: "fixture",
+    geocode: async (location) => {
+      const query = normalizeFixtureName(location);
+      if (query.length < 2) {
+        return null;
+      }
+      // Longest name first: "京都大学" before "京都駅"
+      const place = [...fixtureWeather.places]
+        .sort((a, b) => b.name.length - a.name.length)
+        .find((candidate) => {
+          const name = normalizeFixtureName(candidate.name);
+          return query.includes(name) || name.includes(query);
+        });
+      return place ? { ...place } : null;
+    },
+    getHourlyForecast: async (_point, date) =>
+      fixtureWeather.hours.map((hour, i) => ({
+        iso: `${date}T${i.toString().padStart(2, "0")}:00`,
+        ...hour,
+      })),
+  };
+}
@@ -1,4 +1,33 @@
-import type { WeatherInfo } from "./weather.types";
+import { addDays, jstToday } from "../google-calendar/calendar-date";
+import {
+  createFixtureWeatherProvider,
+  createOpenMeteoWeatherProvider,
+} from "./weather.provider";
+import type {
+  ClothingAdvice,
+  ClothingThresholds,
+  ForecastHour,
+  HeatLevel,
+  OutdoorExposure,
+  OutdoorThresholds,
+  PollenLevel,
+  UmbrellaTier,
+  WeatherHour,
+  WeatherInfo,
+  WeatherOptions,
+  WeatherPoint,
+  WeatherPreferences,
+  WeatherProvider,
+  WeatherTimeline,
+  WeatherWindow,
+  WeatherWindowCheck,
+} from "./weather.types";
+import {
+  readCachedForecast,
+  readCachedGeocode,
+  saveCachedForecast,
+  saveCachedGeocode,
+} from "./weather-cache.repository";
 
 // ---------------------------------------------------------------------------
 // Defaults & thresholds
@@ -11,126 +40,284 @@ const FALLBACK_NAME = "京都駅（デフォルト）";
 
 const DEFAULT_PROB_THRESHOLD = 50; // %
 const DEFAULT_MM_THRESHOLD = 0.2; // mm/h
+const DEFAULT_FOLDING_PROB_THRESHOLD = 30; // %
+
+const DEFAULT_CLOTHING_THRESHOLDS: ClothingThresholds = {
+  coatApparentTemperature: 5, // °C
+  jacketApparentTemperature: 15, // °C
+  lightClothingTemperature: 27, // °C
+  temperatureGap: 8, // °C
+  strongWind: 8, // m/s
+  heavyRainMm: 3, // mm/h
+};
+
+const DEFAULT_OUTDOOR_THRESHOLDS: OutdoorThresholds = {
+  heatstrokeWbgt: 28, // °C (厳重警戒)
+  uvIndex: 6, // 強い
+};
 
 // ---------------------------------------------------------------------------
-// Geocoding  (Open-Meteo — no API key required)
+// Providers & shared cache (D1)
 // ---------------------------------------------------------------------------
 
-type GeoResult = { lat: number; lon: number; name: string };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Geocode answers (including "unknown place") are reused this long. */
+const GEOCODE_CACHE_DAYS = 30;
+
+/** Forecasts are cached per cell of this size (~2 km in Kansai). */
+const GRID_DEGREES = 0.02;
+
+/** Centre of the grid cell a point falls in — nearby users share it. */
+function gridCell(point: { lat: number; lon: number }): {
+  lat: number;
+  lon: number;
+  key: string;
+} {
+  const lat = Math.round(point.lat / GRID_DEGREES) * GRID_DEGREES;
+  const lon = Math.round(point.lon / GRID_DEGREES) * GRID_DEGREES;
+  return {
+    lat: Number(lat.toFixed(2)),
+    lon: Number(lon.toFixed(2)),
+    key: `${lat.toFixed(2)},${lon.toFixed(2)}`,
+  };
+}
+
+/** "2026-02-22T08" — the JST hour a forecast was fetched in. */
+function jstHourKey(now: Date = new Date()): string {
+  return new Date(now.getTime() + 9 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 13);
+}
+
+/** Run a cache read / write; a broken cache only costs a provider call. */
+async function tryCache<T>(action: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await action();
+  } catch (error) {
+    console.error("Weather cache failed:", error);
+    return undefined;
+  }
+}
 
 /**
- * Resolve a place name to lat/lon via Open-Meteo Geocoding API.
- * Returns `null` on any failure so the caller can fall back.
- *
- * @example
- * ```
- * curl "https://geocoding-api.open-meteo.com/v1/search?name=京都大学&count=1&language=ja&format=json"
- * ```
+ * Share a provider's answers between users through D1: geocodes for 30
+ * days, forecasts per grid cell, day and hour of fetching (the next hour
+ * fetches — and replaces — the cell's forecast again). Forecasts are
+ * fetched at the cell centre so every point of the cell gets the same one.
+ * Every write also deletes the rows that have expired.
  */
-async function geocode(location: string): Promise<GeoResult | null> {
-  try {
-    const params = new URLSearchParams({
-      name: location,
-      count: "1",
-      language: "ja",
-      format: "json",
-    });
-    const res = await fetch(
-      `https://geocoding-api.open-meteo.com/v1/search?${params}`,
-    );
-    if (!res.ok) return null;
-
-    // biome-ignore lint/suspicious/noExplicitAny: Open-Meteo geocoding response
-    const data = (await res.json()) as any;
-    const first = data?.results?.[0];
-    if (!first || typeof first.latitude !== "number") return null;
+export function withWeatherCache(
+  db: D1Database,
+  provider: WeatherProvider,
+): WeatherProvider {
+  return {
+    id: provider.id,
+    geocode: async (location) => {
+      const key = location.normalize("NFKC").trim();
+      const since = new Date(
+        Date.now() - GEOCODE_CACHE_DAYS * DAY_MS,
+      ).toISOString();
+      const cached = await tryCache(() =>
+        readCachedGeocode(db, provider.id, key, since),
+      );
+      if (cached) {
+        return cached.point;
+      }
+
+      const point = await provider.geocode(location);
+      await tryCache(() =>
+        saveCachedGeocode(db, provider.id, key, point, since),
+      );
+      return point;
+    },
+    getHourlyForecast: async (point, date) => {
+      const cell = gridCell(point);
+      const issuedHour = jstHourKey();
+      const cached = await tryCache(() =>
+        readCachedForecast(db, provider.id, cell.key, date, issuedHour),
+      );
+      if (cached) {
+        return cached;
+      }
+
+      const hours = await provider.getHourlyForecast(cell, date);
+      if (hours.length > 0) {
+        await tryCache(() =>
+          saveCachedForecast(
+            db,
+            provider.id,
+            cell.key,
+            date,
+            issuedHour,
+            hours,
+          ),
+        );
+      }
+      return hours;
+    },
+  };
+}
 
-    return {
-      lat: first.latitude as number,
-      lon: first.longitude as number,
-      name: (first.name as string) ?? location,
-    };
-  } catch {
-    return null;
+/**
+ * `WEATHER_PROVIDER` selects the source: "fixture" for the bundled,
+ * deterministic data, anything else (or unset) for Open-Meteo. With D1 the
+ * answers are shared through `withWeatherCache`.
+ */
+export function createWeatherProvider(
+  env?: Partial<Pick<Env, "WEATHER_PROVIDER" | "AUTH_DB">>,
+): WeatherProvider {
+  const provider =
+    env?.WEATHER_PROVIDER?.trim() === "fixture"
+      ? createFixtureWeatherProvider()
+      : createOpenMeteoWeatherProvider();
+  return env?.AUTH_DB ? withWeatherCache(env.AUTH_DB, provider) : provider;
+}
+
+/**
+ * Coordinates for a place name / address (geocoded) or a known point,
+ * falling back to the ENV default or Kyoto Station.
+ */
+export async function resolveWeatherPoint(
+  location: string | WeatherPoint,
+  env?: Partial<
+    Pick<
+      Env,
+      | "WEATHER_DEFAULT_LAT"
+      | "WEATHER_DEFAULT_LON"
+      | "WEATHER_PROVIDER"
+      | "AUTH_DB"
+    >
+  >,
+  provider: WeatherProvider = createWeatherProvider(env),
+): Promise<WeatherPoint> {
+  let geo: WeatherPoint | null = null;
+  if (typeof location !== "string") {
+    geo = location;
+  } else {
+    try {
+      geo = await provider.geocode(location);
+    } catch (error) {
+      console.error(
+        `Weather provider "${provider.id}" geocoding failed:`,
+        error,
+      );
+    }
   }
+  return {
+    lat:
+      geo?.lat ??
+      (env?.WEATHER_DEFAULT_LAT
+        ? Number(env.WEATHER_DEFAULT_LAT)
+        : FALLBACK_LAT),
+    lon:
+      geo?.lon ??
+      (env?.WEATHER_DEFAULT_LON
+        ? Number(env.WEATHER_DEFAULT_LON)
+        : FALLBACK_LON),
+    name: geo?.name ?? FALLBACK_NAME,
+  };
 }
 
 // ---------------------------------------------------------------------------
-// Forecast  (Open-Meteo — no API key required)
+// Forecast
 // ---------------------------------------------------------------------------
 
-type HourlySlot = {
-  iso: string;
-  precipitationProbability: number | null;
-  precipitationMm: number | null;
+type HourlySlot = Omit<ForecastHour, "radiation"> & {
+  wbgt: number | null;
 };
 
 /**
- * Fetch today's hourly forecast for the given coordinates.
- *
- * @example
- * ```
- * curl "https://api.open-meteo.com/v1/forecast?latitude=34.98&longitude=135.75&hourly=precipitation_probability,precipitation&timezone=Asia/Tokyo&forecast_days=1"
- * ```
+ * The hourly forecast of one JST day (today unless `date` is given) for the
+ * given coordinates, with WBGT derived — empty when the provider fails.
  */
 async function fetchHourlyForecast(
+  provider: WeatherProvider,
   lat: number,
   lon: number,
+  date: string = jstToday(),
 ): Promise<HourlySlot[]> {
   try {
-    const params = new URLSearchParams({
-      latitude: lat.toString(),
-      longitude: lon.toString(),
-      hourly: "precipitation_probability,precipitation",
-      timezone: "Asia/Tokyo",
-      forecast_days: "1",
-    });
-    const res = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
-    if (!res.ok) return [];
-
-    // biome-ignore lint/suspicious/noExplicitAny: Open-Meteo forecast response
-    const data = (await res.json()) as any;
-    const hourly = data?.hourly;
-    if (!hourly?.time || !Array.isArray(hourly.time)) return [];
-
-    const times: string[] = hourly.time;
-    const probs: (number | null)[] = hourly.precipitation_probability ?? [];
-    const mms: (number | null)[] = hourly.precipitation ?? [];
-
-    return times.map((iso, i) => ({
-      iso,
-      precipitationProbability: typeof probs[i] === "number" ? probs[i] : null,
-      precipitationMm: typeof mms[i] === "number" ? mms[i] : null,
+    const hours = await provider.getHourlyForecast({ lat, lon }, date);
+    return hours.map(({ radiation, ...hour }) => ({
+      ...hour,
+      wbgt: estimateWbgt(
+        hour.temperature,
+        hour.humidity,
+        radiation,
+        hour.windSpeed,
+      ),
     }));
-  } catch {
+  } catch (error) {
+    console.error(`Weather provider "${provider.id}" failed:`, error);
     return [];
   }
 }
 
+/**
+ * Outdoor WBGT (暑さ指数) estimated from ordinary forecast values — the
+ * regression the Ministry of the Environment uses for its WBGT forecasts
+ * (小野・登内 2014):
+ *
+ *   WBGT = 0.735·Ta + 0.0374·RH + 0.00292·Ta·RH + 7.619·SR − 4.557·SR²
+ *          − 0.0572·WS − 4.064
+ *
+ * Ta °C, RH %, SR global solar radiation kW/m², WS wind m/s. Missing
+ * radiation / wind count as 0 (night, calm); missing Ta or RH → null.
+ */
+function estimateWbgt(
+  temperature: number | null,
+  humidity: number | null,
+  radiationWm2: number | null,
+  windSpeed: number | null,
+): number | null {
+  if (temperature === null || humidity === null) {
+    return null;
+  }
+  const sr = (radiationWm2 ?? 0) / 1000;
+  const wbgt =
+    0.735 * temperature +
+    0.0374 * humidity +
+    0.00292 * temperature * humidity +
+    7.619 * sr -
+    4.557 * sr * sr -
+    0.0572 * (windSpeed ?? 0) -
+    4.064;
+  return Math.round(wbgt * 10) / 10;
+}
+
 // ---------------------------------------------------------------------------
 // Pick the right hourly slot
 // ---------------------------------------------------------------------------
 
+/** Open-Meteo "2026-02-22T08:00" → 8, or null. */
+function isoHour(iso: string): number | null {
+  const match = iso.match(/T(\d{2})/);
+  return match ? Number(match[1]) : null;
+}
+
+/** "2026-02-22T08:12" → a comparable millisecond count, or NaN. */
+function jstLocalMs(iso: string): number {
+  return Date.parse(`${iso.slice(0, 16)}Z`);
+}
+
 /**
- * Find the hourly slot closest to `targetHHmm` (e.g. "08:12").
- * Open-Meteo returns times like "2026-02-22T08:00" so we match on the hour.
+ * Find the hourly slot closest to `target` (e.g. "2026-02-22T08:12").
+ * Open-Meteo returns times like "2026-02-22T08:00"; matching on the whole
+ * timestamp keeps 0:30 on the next day from reading this day's early hours.
  */
-function pickSlot(slots: HourlySlot[], targetHHmm: string): HourlySlot | null {
-  if (slots.length === 0) return null;
-
-  const [hStr] = targetHHmm.split(":");
-  const targetHour = Number(hStr ?? 0);
+function pickSlot(slots: HourlySlot[], target: string): HourlySlot | null {
+  const targetMs = jstLocalMs(target);
+  if (slots.length === 0 || Number.isNaN(targetMs)) return null;
 
   // Find the slot whose hour matches (or is closest)
   let best: HourlySlot | null = null;
   let bestDiff = Number.MAX_SAFE_INTEGER;
 
   for (const slot of slots) {
-    // Open-Meteo returns "2026-02-22T08:00" — extract hour
-    const match = slot.iso.match(/T(\d{2})/);
-    if (!match) continue;
-    const slotHour = Number(match[1]);
-    const diff = Math.abs(slotHour - targetHour);
+    const slotMs = jstLocalMs(slot.iso);
+    if (Number.isNaN(slotMs)) continue;
+    const diff = Math.abs(slotMs - targetMs);
     if (diff < bestDiff) {
       bestDiff = diff;
       best = slot;
@@ -144,19 +331,32 @@ function pickSlot(slots: HourlySlot[], targetHHmm: string): HourlySlot | null {
 // Umbrella decision
 // ---------------------------------------------------------------------------
 
+type UmbrellaDecision = Pick<
+  WeatherInfo,
+  | "umbrellaNeeded"
+  | "umbrella"
+  | "reason"
+  | "precipitationProbability"
+  | "precipitationMm"
+>;
+
+/** Higher tiers decide the trip. */
+const UMBRELLA_TIER_RANK: Record<UmbrellaTier, number> = {
+  none: 0,
+  folding: 1,
+  umbrella: 2,
+};
+
 function decideUmbrella(
   slot: HourlySlot | null,
-  probThreshold: number,
-  mmThreshold: number,
-): Pick<
-  WeatherInfo,
-  "umbrellaNeeded" | "reason" | "precipitationProbability" | "precipitationMm"
-> {
+  preferences: WeatherPreferences,
+): UmbrellaDecision {
   if (!slot) {
     return {
       precipitationProbability: null,
       precipitationMm: null,
       umbrellaNeeded: false,
+      umbrella: "none",
       reason: "天気情報を取得できませんでした",
     };
   }
@@ -165,25 +365,38 @@ function decideUmbrella(
   const mm = slot.precipitationMm;
 
   // Rule 1: precipitation probability
-  if (prob !== null && prob >= probThreshold) {
+  if (prob !== null && prob >= preferences.umbrellaProbability) {
     return {
       precipitationProbability: prob,
       precipitationMm: mm,
       umbrellaNeeded: true,
+      umbrella: "umbrella",
       reason: `降水確率 ${prob}% のため`,
     };
   }
 
   // Rule 2: precipitation amount
-  if (mm !== null && mm >= mmThreshold) {
+  if (mm !== null && mm >= preferences.umbrellaMm) {
     return {
       precipitationProbability: prob,
       precipitationMm: mm,
       umbrellaNeeded: true,
+      umbrella: "umbrella",
       reason: `雨量 ${mm}mm/h のため`,
     };
   }
 
+  // Rule 3: rain possible — folding umbrella
+  if (prob !== null && prob >= preferences.foldingUmbrellaProbability) {
+    return {
+      precipitationProbability: prob,
+      precipitationMm: mm,
+      umbrellaNeeded: false,
+      umbrella: "folding",
+      reason: `降水確率 ${prob}% のため折りたたみ傘`,
+    };
+  }
+
   // No rain expected
   const parts: string[] = [];
   if (prob !== null) parts.push(`降水確率 ${prob}%`);
@@ -194,27 +407,346 @@ function decideUmbrella(
     precipitationProbability: prob,
     precipitationMm: mm,
     umbrellaNeeded: false,
+    umbrella: "none",
     reason: `${detail} — 傘は不要`,
   };
 }
 
+// ---------------------------------------------------------------------------
+// Clothing advice
+// ---------------------------------------------------------------------------
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number(value) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/** Clothing thresholds with the ENV overrides applied. */
+export function clothingThresholdsFromEnv(
+  env?: Partial<
+    Pick<
+      Env,
+      | "WEATHER_COAT_APPARENT_TEMP"
+      | "WEATHER_JACKET_APPARENT_TEMP"
+      | "WEATHER_LIGHT_CLOTHING_TEMP"
+      | "WEATHER_TEMP_GAP"
+      | "WEATHER_STRONG_WIND"
+      | "WEATHER_HEAVY_RAIN_MM"
+    >
+  >,
+): ClothingThresholds {
+  const defaults = DEFAULT_CLOTHING_THRESHOLDS;
+  return {
+    coatApparentTemperature: envNumber(
+      env?.WEATHER_COAT_APPARENT_TEMP,
+      defaults.coatApparentTemperature,
+    ),
+    jacketApparentTemperature: envNumber(
+      env?.WEATHER_JACKET_APPARENT_TEMP,
+      defaults.jacketApparentTemperature,
+    ),
+    lightClothingTemperature: envNumber(
+      env?.WEATHER_LIGHT_CLOTHING_TEMP,
+      defaults.lightClothingTemperature,
+    ),
+    temperatureGap: envNumber(env?.WEATHER_TEMP_GAP, defaults.temperatureGap),
+    strongWind: envNumber(env?.WEATHER_STRONG_WIND, defaults.strongWind),
+    heavyRainMm: envNumber(env?.WEATHER_HEAVY_RAIN_MM, defaults.heavyRainMm),
+  };
+}
+
+function extremes(values: (number | null)[]): {
+  min: number | null;
+  max: number | null;
+} {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0
+    ? { min: Math.min(...known), max: Math.max(...known) }
+    : { min: null, max: null };
+}
+
+/**
+ * Clothing advice from the day's hourly forecast. Deterministic: the same
+ * forecast and thresholds always give the same items, in this order —
+ *   1. コート推奨 / 上着推奨 — lowest apparent temperature
+ *   2. 薄着推奨              — highest temperature
+ *   3. 寒暖差大              — max − min temperature (dress in layers)
+ *   4. 風強め                — strongest wind
+ *   5. レインウェア推奨       — umbrella weather with strong wind
+ *      防水の靴推奨           — heavy rain otherwise
+ *
+ * @param hours          - The hours the user is out (e.g. the timeline).
+ * @param umbrellaNeeded - Whether the umbrella decision asked for one.
+ * @param thresholds     - See `ClothingThresholds`.
+ */
+export function adviseClothing(
+  hours: WeatherHour[],
+  umbrellaNeeded: boolean,
+  thresholds: ClothingThresholds = DEFAULT_CLOTHING_THRESHOLDS,
+): ClothingAdvice {
+  const temperature = extremes(hours.map((hour) => hour.temperature));
+  const apparent = extremes(hours.map((hour) => hour.apparentTemperature));
+  const wind = extremes(hours.map((hour) => hour.windSpeed));
+  const rain = extremes(hours.map((hour) => hour.precipitationMm));
+  const strongWind = wind.max !== null && wind.max >= thresholds.strongWind;
+
+  const items: string[] = [];
+  if (apparent.min !== null) {
+    if (apparent.min <= thresholds.coatApparentTemperature) {
+      items.push("コート推奨");
+    } else if (apparent.min <= thresholds.jacketApparentTemperature) {
+      items.push("上着推奨");
+    }
+  }
+  if (
+    temperature.max !== null &&
+    temperature.max >= thresholds.lightClothingTemperature
+  ) {
+    items.push("薄着推奨");
+  }
+  if (
+    temperature.min !== null &&
+    temperature.max !== null &&
+    temperature.max - temperature.min >= thresholds.temperatureGap
+  ) {
+    items.push("寒暖差大");
+  }
+  if (strongWind) {
+    items.push("風強め");
+  }
+  if (umbrellaNeeded && strongWind) {
+    items.push("レインウェア推奨");
+  } else if (rain.max !== null && rain.max >= thresholds.heavyRainMm) {
+    items.push("防水の靴推奨");
+  }
+
+  const low = temperature.min !== null ? Math.round(temperature.min) : null;
+  const high = temperature.max !== null ? Math.round(temperature.max) : null;
+  const range =
+    low === null || high === null
+      ? ""
+      : low === high
+        ? `（${low}°C）`
+        : `（${low}〜${high}°C）`;
+  const summary =
+    hours.length === 0
+      ? "気温情報なし"
+      : `${items.length > 0 ? items.join("・") : "いつもの服装でOK"}${range}`;
+
+  return {
+    items,
+    summary,
+    minTemperature: temperature.min,
+    maxTemperature: temperature.max,
+    minApparentTemperature: apparent.min,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Heat, UV and pollen while walking
+// ---------------------------------------------------------------------------
+
+const HEAT_LABELS: Record<HeatLevel, string> = {
+  safe: "ほぼ安全",
+  caution: "注意",
+  warning: "警戒",
+  severe: "厳重警戒",
+  danger: "危険",
+};
+
+const POLLEN_LEVELS: PollenLevel[] = ["low", "moderate", "high", "very_high"];
+
+const POLLEN_LABELS: Record<PollenLevel, string> = {
+  low: "少ない",
+  moderate: "やや多い",
+  high: "多い",
+  very_high: "非常に多い",
+};
+
+function heatLevelOf(wbgt: number): HeatLevel {
+  if (wbgt >= 31) return "danger";
+  if (wbgt >= 28) return "severe";
+  if (wbgt >= 25) return "warning";
+  if (wbgt >= 21) return "caution";
+  return "safe";
+}
+
+/**
+ * Open-Meteo has no pollen forecast for Japan, so the level is estimated
+ * from the スギ・ヒノキ season and the hour's weather:
+ *   - March → high; February, April → moderate; otherwise low
+ *   - rain (≥ 0.5 mm/h) washes it out → low
+ *   - warm (≥ 15 °C) and windy (≥ 4 m/s) without rain → one level up
+ */
+function estimatePollenLevel(slot: HourlySlot): PollenLevel {
+  const month = Number(slot.iso.slice(5, 7));
+  const base = month === 3 ? 2 : month === 2 || month === 4 ? 1 : 0;
+  if ((slot.precipitationMm ?? 0) >= 0.5) {
+    return "low";
+  }
+  const dispersing =
+    base > 0 && (slot.temperature ?? 0) >= 15 && (slot.windSpeed ?? 0) >= 4;
+  return POLLEN_LEVELS[base + (dispersing ? 1 : 0)] ?? "low";
+}
+
+function maxOrNull(values: (number | null)[]): number | null {
+  return extremes(values).max;
+}
+
+/** Outdoor thresholds with the ENV overrides applied. */
+export function outdoorThresholdsFromEnv(
+  env?: Partial<Pick<Env, "WEATHER_HEATSTROKE_WBGT" | "WEATHER_UV_INDEX">>,
+): OutdoorThresholds {
+  const defaults = DEFAULT_OUTDOOR_THRESHOLDS;
+  return {
+    heatstrokeWbgt: envNumber(
+      env?.WEATHER_HEATSTROKE_WBGT,
+      defaults.heatstrokeWbgt,
+    ),
+    uvIndex: envNumber(env?.WEATHER_UV_INDEX, defaults.uvIndex),
+  };
+}
+
+/**
+ * Weather preferences of users who saved none: the umbrella, heatstroke and
+ * coat thresholds of the ENV (or their defaults), and a folding umbrella
+ * from 30% (never above the umbrella threshold).
+ */
+export function weatherPreferencesFromEnv(
+  env?: Partial<
+    Pick<
+      Env,
+      | "WEATHER_UMBRELLA_PROB_THRESHOLD"
+      | "WEATHER_UMBRELLA_MM_THRESHOLD"
+      | "WEATHER_HEATSTROKE_WBGT"
+      | "WEATHER_COAT_APPARENT_TEMP"
+    >
+  >,
+): WeatherPreferences {
+  const umbrellaProbability = envNumber(
+    env?.WEATHER_UMBRELLA_PROB_THRESHOLD,
+    DEFAULT_PROB_THRESHOLD,
+  );
+  return {
+    umbrellaProbability,
+    umbrellaMm: envNumber(
+      env?.WEATHER_UMBRELLA_MM_THRESHOLD,
+      DEFAULT_MM_THRESHOLD,
+    ),
+    foldingUmbrellaProbability: Math.min(
+      DEFAULT_FOLDING_PROB_THRESHOLD,
+      umbrellaProbability,
+    ),
+    heatstrokeWbgt: envNumber(
+      env?.WEATHER_HEATSTROKE_WBGT,
+      DEFAULT_OUTDOOR_THRESHOLDS.heatstrokeWbgt,
+    ),
+    coldApparentTemperature: envNumber(
+      env?.WEATHER_COAT_APPARENT_TEMP,
+      DEFAULT_CLOTHING_THRESHOLDS.coatApparentTemperature,
+    ),
+  };
+}
+
+/**
+ * Worst heat, UV and pollen over the hourly slots the user walks in, with
+ * advice in this order —
+ *   1. 水分補給を   — WBGT at or above `heatstrokeWbgt`
+ *   2. 日焼け止めを — UV index at or above `uvIndex`
+ *   3. 花粉対策を   — pollen "high" or worse
+ */
+function assessOutdoorExposure(
+  walks: { minutes: number; slot: HourlySlot | null }[],
+  thresholds: OutdoorThresholds,
+): OutdoorExposure {
+  const slots = walks
+    .map((walk) => walk.slot)
+    .filter((slot): slot is HourlySlot => slot !== null);
+  const walkingMinutes = walks.reduce((total, walk) => total + walk.minutes, 0);
+  const wbgt = maxOrNull(slots.map((slot) => slot.wbgt));
+  const uvIndex = maxOrNull(slots.map((slot) => slot.uvIndex));
+  const pollenIndex = maxOrNull(
+    slots.map((slot) => POLLEN_LEVELS.indexOf(estimatePollenLevel(slot))),
+  );
+  const heatLevel = wbgt !== null ? heatLevelOf(wbgt) : null;
+  const pollenLevel =
+    pollenIndex !== null ? (POLLEN_LEVELS[pollenIndex] ?? null) : null;
+
+  const advice: string[] = [];
+  if (wbgt !== null && wbgt >= thresholds.heatstrokeWbgt) {
+    advice.push("水分補給を");
+  }
+  if (uvIndex !== null && uvIndex >= thresholds.uvIndex) {
+    advice.push("日焼け止めを");
+  }
+  if (pollenIndex !== null && pollenIndex >= POLLEN_LEVELS.indexOf("high")) {
+    advice.push("花粉対策を");
+  }
+
+  const parts = [`徒歩${Math.round(walkingMinutes)}分`];
+  if (wbgt !== null && heatLevel) {
+    parts.push(`暑さ指数${Math.round(wbgt)}（${HEAT_LABELS[heatLevel]}）`);
+  }
+  if (uvIndex !== null) parts.push(`UV ${Math.round(uvIndex)}`);
+  if (pollenLevel) parts.push(`花粉 ${POLLEN_LABELS[pollenLevel]}`);
+
+  return {
+    walkingMinutes,
+    wbgt,
+    heatLevel,
+    uvIndex,
+    pollenLevel,
+    advice,
+    summary: parts.join("・"),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/** Same location → one geocode / forecast request per trip. */
+function weatherLocationKey(location: string | WeatherPoint): string {
+  return typeof location === "string"
+    ? location.trim()
+    : `${location.lat},${location.lon}`;
+}
+
+function wetness(check: WeatherWindowCheck): number {
+  return (check.precipitationProbability ?? 0) + (check.precipitationMm ?? 0);
+}
+
+/** Highest umbrella tier first, then the wettest. */
+function compareWindows(a: WeatherWindowCheck, b: WeatherWindowCheck): number {
+  return (
+    UMBRELLA_TIER_RANK[b.umbrella] - UMBRELLA_TIER_RANK[a.umbrella] ||
+    wetness(b) - wetness(a)
+  );
+}
+
 /**
- * Get weather / umbrella info for a location at a given time.
+ * Get the umbrella decision for every place and hour the user is outside.
+ *
+ * Each window is checked at its hourly slot with the same rules; the trip
+ * takes the highest umbrella tier of any window (傘 > 折りたたみ傘 > none),
+ * and the reason names the wettest window of that tier (e.g. "帰宅時 18時
+ * 降水確率70%").
+ *
+ * Heat (estimated WBGT), UV and pollen are checked at the hourly slot of
+ * every walk (`outdoor`), from the same forecasts.
  *
  * Never throws — returns a safe fallback on any error so the morning
  * briefing is never disrupted by weather failures.
  *
- * @param location  - Place name or address (used for geocoding).
- * @param targetHHmm - "HH:mm" in JST to look up (e.g. departure time). Falls back to current hour.
- * @param env       - Worker env (optional overrides for lat/lon/thresholds).
+ * @param windows - Places (name / address to geocode, or known coordinates)
+ *                  and "YYYY-MM-DDTHH:mm" times in JST, in trip order; each
+ *                  is checked in the forecast of its own day.
+ * @param env     - Worker env (optional overrides for lat/lon/thresholds).
+ * @param options - Walks, the user's thresholds (default: the ENV ones) and
+ *                  the provider (default: `createWeatherProvider(env)`).
  */
 export async function getWeather(
-  location: string,
-  targetHHmm: string,
+  windows: WeatherWindow[],
   env?: Partial<
     Pick<
       Env,
@@ -222,38 +754,193 @@ export async function getWeather(
       | "WEATHER_DEFAULT_LON"
       | "WEATHER_UMBRELLA_PROB_THRESHOLD"
       | "WEATHER_UMBRELLA_MM_THRESHOLD"
+      | "WEATHER_HEATSTROKE_WBGT"
+      | "WEATHER_UV_INDEX"
+      | "WEATHER_COAT_APPARENT_TEMP"
+      | "WEATHER_PROVIDER"
+      | "AUTH_DB"
     >
   >,
+  options: WeatherOptions = {},
 ): Promise<WeatherInfo> {
-  const probThreshold = env?.WEATHER_UMBRELLA_PROB_THRESHOLD
-    ? Number(env.WEATHER_UMBRELLA_PROB_THRESHOLD)
-    : DEFAULT_PROB_THRESHOLD;
-  const mmThreshold = env?.WEATHER_UMBRELLA_MM_THRESHOLD
-    ? Number(env.WEATHER_UMBRELLA_MM_THRESHOLD)
-    : DEFAULT_MM_THRESHOLD;
-
-  // 1) Geocode the location
-  const geo = await geocode(location);
-  const lat =
-    geo?.lat ??
-    (env?.WEATHER_DEFAULT_LAT ? Number(env.WEATHER_DEFAULT_LAT) : FALLBACK_LAT);
-  const lon =
-    geo?.lon ??
-    (env?.WEATHER_DEFAULT_LON ? Number(env.WEATHER_DEFAULT_LON) : FALLBACK_LON);
-  const locationName = geo?.name ?? FALLBACK_NAME;
-
-  // 2) Fetch hourly forecast
-  const slots = await fetchHourlyForecast(lat, lon);
-
-  // 3) Pick the slot matching the target time
-  const slot = pickSlot(slots, targetHHmm);
-
-  // 4) Decide
-  const decision = decideUmbrella(slot, probThreshold, mmThreshold);
+  const {
+    walks = [],
+    preferences = weatherPreferencesFromEnv(env),
+    provider = createWeatherProvider(env),
+  } = options;
+
+  // 1) Geocode each place once (saved places already know their
+  // coordinates) and fetch its hourly forecast once per day — a way home
+  // after midnight reads the next day's
+  const points = new Map<string, Promise<WeatherPoint>>();
+  const forecasts = new Map<
+    string,
+    Promise<{ point: WeatherPoint; slots: HourlySlot[] }>
+  >();
+  const forecastFor = (location: string | WeatherPoint, time: string) => {
+    const key = weatherLocationKey(location);
+    const day = time.slice(0, 10);
+    let point = points.get(key);
+    if (!point) {
+      point = resolveWeatherPoint(location, env, provider);
+      points.set(key, point);
+    }
+    let forecast = forecasts.get(`${key}@${day}`);
+    if (!forecast) {
+      forecast = point.then(async (point) => ({
+        point,
+        slots: await fetchHourlyForecast(provider, point.lat, point.lon, day),
+      }));
+      forecasts.set(`${key}@${day}`, forecast);
+    }
+    return forecast;
+  };
+
+  // 2) Decide per window at the slot matching its time
+  const checks: WeatherWindowCheck[] = await Promise.all(
+    windows.map(async (window) => {
+      const { point, slots } = await forecastFor(window.location, window.time);
+      const slot = pickSlot(slots, window.time);
+      const decision = decideUmbrella(slot, preferences);
+      return {
+        label: window.label,
+        locationName: point.name,
+        startIso: slot?.iso ?? "",
+        precipitationProbability: decision.precipitationProbability,
+        precipitationMm: decision.precipitationMm,
+        umbrellaNeeded: decision.umbrellaNeeded,
+        umbrella: decision.umbrella,
+      };
+    }),
+  );
+
+  // 3) Heat / UV / pollen at the slot of every walk
+  const walkSlots = await Promise.all(
+    walks.map(async (walk) => {
+      const { slots } = await forecastFor(walk.location, walk.time);
+      return { minutes: walk.minutes, slot: pickSlot(slots, walk.time) };
+    }),
+  );
+  const outdoor =
+    walkSlots.length > 0
+      ? assessOutdoorExposure(walkSlots, {
+          ...outdoorThresholdsFromEnv(env),
+          heatstrokeWbgt: preferences.heatstrokeWbgt,
+        })
+      : null;
+
+  // 4) The wettest window of the highest umbrella tier decides
+  const deciding =
+    checks.filter((check) => check.startIso !== "").sort(compareWindows)[0] ??
+    null;
+  if (!deciding) {
+    return {
+      locationName: FALLBACK_NAME,
+      window: null,
+      startIso: "",
+      ...decideUmbrella(null, preferences),
+      windows: checks,
+      outdoor,
+    };
+  }
+
+  const prob = deciding.precipitationProbability;
+  const mm = deciding.precipitationMm;
+  const when = `${deciding.label} ${isoHour(deciding.startIso)}時`;
+  let reason: string;
+  if (deciding.umbrella === "none") {
+    reason = `全行程で傘は不要（最大 降水確率${prob ?? "--"}%）`;
+  } else if (
+    deciding.umbrella === "folding" ||
+    (prob !== null && prob >= preferences.umbrellaProbability)
+  ) {
+    reason = `${when} 降水確率${prob}%`;
+  } else {
+    reason = `${when} 雨量${mm}mm/h`;
+  }
 
   return {
-    locationName,
-    startIso: slot?.iso ?? "",
-    ...decision,
+    locationName: deciding.locationName,
+    window: deciding.label,
+    startIso: deciding.startIso,
+    precipitationProbability: prob,
+    precipitationMm: mm,
+    umbrellaNeeded: deciding.umbrellaNeeded,
+    umbrella: deciding.umbrella,
+    reason,
+    windows: checks,
+    outdoor,
   };
 }
+
+/**
+ * Hourly temperature, apparent temperature, wind and precipitation for every
+ * hour from `from` through `to` ("YYYY-MM-DDTHH:mm", JST) — across midnight
+ * when the outing ends on the next day.
+ *
+ * Never throws — returns `null` when no forecast is available so the
+ * briefing is never disrupted by weather failures.
+ *
+ * @param location - Place name or address (used for geocoding), or known
+ *                   coordinates.
+ * @param from     - Start of the day's outing (e.g. the departure time).
+ * @param to       - End of the day's outing (e.g. the last event end).
+ * @param env      - Worker env (optional overrides for lat/lon, provider).
+ * @param provider - Geocoding / forecast source (defaults to `createWeatherProvider(env)`).
+ */
+export async function getWeatherTimeline(
+  location: string | WeatherPoint,
+  from: string,
+  to: string,
+  env?: Partial<
+    Pick<
+      Env,
+      | "WEATHER_DEFAULT_LAT"
+      | "WEATHER_DEFAULT_LON"
+      | "WEATHER_PROVIDER"
+      | "AUTH_DB"
+    >
+  >,
+  provider: WeatherProvider = createWeatherProvider(env),
+): Promise<WeatherTimeline | null> {
+  try {
+    const point = await resolveWeatherPoint(location, env, provider);
+    // Compare whole hours: "2026-02-22T08"
+    const fromHour = from.slice(0, 13);
+    const toHour = to.slice(0, 13) > fromHour ? to.slice(0, 13) : fromHour;
+    const days: string[] = [];
+    for (
+      let day = fromHour.slice(0, 10);
+      day <= toHour.slice(0, 10);
+      day = addDays(day, 1)
+    ) {
+      days.push(day);
+    }
+    const slots = (
+      await Promise.all(
+        days.map((day) =>
+          fetchHourlyForecast(provider, point.lat, point.lon, day),
+        ),
+      )
+    ).flat();
+
+    const hours: WeatherHour[] = slots
+      .filter((slot) => {
+        const hour = slot.iso.slice(0, 13);
+        return hour >= fromHour && hour <= toHour;
+      })
+      .map(({ iso, ...values }) => ({ startIso: iso, ...values }));
+    if (hours.length === 0) {
+      return null;
+    }
+
+    return {
+      locationName: point.name,
+      from: from.slice(11, 16),
+      to: to.slice(11, 16),
+      hours,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -1,15 +1,235 @@
-/** Weather information for the umbrella decision. */
+/** Coordinates known in advance (e.g. a saved place) — skips geocoding. */
+export type WeatherPoint = {
+  name: string;
+  lat: number;
+  lon: number;
+};
+
+/** A place and hour the user is outside (leaving home, arriving, …). */
+export type WeatherWindow = {
+  /** Shown in the umbrella reason (e.g. "出発時", "帰宅時"). */
+  label: string;
+  location: string | WeatherPoint;
+  /** "YYYY-MM-DDTHH:mm" (JST), like the forecast's hours. */
+  time: string;
+};
+
+/** Minutes the user walks outside, from one walking step of a route. */
+export type OutdoorWalk = {
+  location: string | WeatherPoint;
+  /** Start of the walk, "YYYY-MM-DDTHH:mm" (JST). */
+  time: string;
+  minutes: number;
+};
+
+/**
+ * Heatstroke risk by WBGT (日本生気象学会):
+ *   safe    — below 21 °C (ほぼ安全)
+ *   caution — 21–25 (注意)
+ *   warning — 25–28 (警戒)
+ *   severe  — 28–31 (厳重警戒)
+ *   danger  — 31 and above (危険)
+ */
+export type HeatLevel = "safe" | "caution" | "warning" | "severe" | "danger";
+
+/** 少ない · やや多い · 多い · 非常に多い */
+export type PollenLevel = "low" | "moderate" | "high" | "very_high";
+
+/** Thresholds of the outdoor advice (see `assessOutdoorExposure`). */
+export type OutdoorThresholds = {
+  /** WBGT (°C) at or above which "水分補給を" is advised. */
+  heatstrokeWbgt: number;
+  /** UV index at or above which "日焼け止めを" is advised. */
+  uvIndex: number;
+};
+
+/** Heat, UV and pollen over the hours the user walks outside. */
+export type OutdoorExposure = {
+  /** Total walking minutes of the day's routes. */
+  walkingMinutes: number;
+  /** Highest estimated WBGT (°C) while walking, or null if unavailable. */
+  wbgt: number | null;
+  heatLevel: HeatLevel | null;
+  /** Highest UV index while walking, or null if unavailable. */
+  uvIndex: number | null;
+  /** Highest estimated pollen level while walking, or null if unavailable. */
+  pollenLevel: PollenLevel | null;
+  /** Short advice, most important first (e.g. ["水分補給を", "日焼け止めを"]). */
+  advice: string[];
+  /** One line for display (e.g. "徒歩18分・暑さ指数29（厳重警戒）・UV 7"). */
+  summary: string;
+};
+
+/**
+ * none     — no umbrella
+ * folding  — 折りたたみ傘 (rain possible)
+ * umbrella — 傘 (rain likely)
+ */
+export type UmbrellaTier = "none" | "folding" | "umbrella";
+
+/** Per-user weather thresholds (D1 `weather_preferences`). */
+export type WeatherPreferences = {
+  /** Precipitation probability (%) at or above which an umbrella is needed. */
+  umbrellaProbability: number;
+  /** Precipitation (mm/h) at or above which an umbrella is needed. */
+  umbrellaMm: number;
+  /**
+   * Precipitation probability (%) at or above which a folding umbrella is
+   * advised (never above `umbrellaProbability`).
+   */
+  foldingUmbrellaProbability: number;
+  /** WBGT (°C) while walking at or above which "水分補給を" is advised. */
+  heatstrokeWbgt: number;
+  /** Lowest apparent temperature (°C) at or below which a coat is advised. */
+  coldApparentTemperature: number;
+};
+
+/** Optional inputs of `getWeather`. */
+export type WeatherOptions = {
+  /** Walking steps of the day's routes (heat / UV / pollen). */
+  walks?: OutdoorWalk[];
+  /** The user's thresholds (default: the ENV ones). */
+  preferences?: WeatherPreferences;
+  /** Geocoding / forecast source (default: `createWeatherProvider(env)`). */
+  provider?: WeatherProvider;
+};
+
+/** The forecast checked for one `WeatherWindow`. */
+export type WeatherWindowCheck = {
+  label: string;
+  locationName: string;
+  /** ISO-8601 datetime of the hourly slot referenced ("" when unknown). */
+  startIso: string;
+  precipitationProbability: number | null;
+  precipitationMm: number | null;
+  umbrellaNeeded: boolean;
+  umbrella: UmbrellaTier;
+};
+
+/**
+ * Weather information for the umbrella decision over the whole trip. The
+ * top-level fields describe the deciding window: the wettest one of the
+ * highest umbrella tier.
+ */
 export type WeatherInfo = {
   /** Resolved location name (from geocoding, or fallback). */
   locationName: string;
+  /** Label of the deciding window (e.g. "帰宅時"), or null. */
+  window: string | null;
   /** ISO-8601 datetime of the hourly slot referenced. */
   startIso: string;
   /** Precipitation probability 0–100, or null if unavailable. */
   precipitationProbability: number | null;
   /** Precipitation in mm/h, or null if unavailable. */
   precipitationMm: number | null;
-  /** Whether an umbrella is recommended. */
+  /** Whether an umbrella is recommended (`umbrella === "umbrella"`). */
   umbrellaNeeded: boolean;
-  /** Human-readable reason for the decision. */
+  /** Umbrella to take, including the folding-umbrella middle tier. */
+  umbrella: UmbrellaTier;
+  /** Human-readable reason, naming the window (e.g. "帰宅時 18時 降水確率70%"). */
   reason: string;
+  /** Every window checked, in trip order. */
+  windows: WeatherWindowCheck[];
+  /** Heat / UV / pollen while walking, or null when the day has no walk. */
+  outdoor: OutdoorExposure | null;
+};
+
+/** One hour of the forecast. */
+export type WeatherHour = {
+  /** ISO-8601 local datetime of the hour (e.g. "2026-02-22T08:00"). */
+  startIso: string;
+  /** Air temperature in °C, or null if unavailable. */
+  temperature: number | null;
+  /** Apparent (feels-like) temperature in °C, or null if unavailable. */
+  apparentTemperature: number | null;
+  /** Wind speed at 10 m in m/s, or null if unavailable. */
+  windSpeed: number | null;
+  /** Precipitation probability 0–100, or null if unavailable. */
+  precipitationProbability: number | null;
+  /** Precipitation in mm/h, or null if unavailable. */
+  precipitationMm: number | null;
+  /** Relative humidity 0–100, or null if unavailable. */
+  humidity: number | null;
+  /** UV index, or null if unavailable. */
+  uvIndex: number | null;
+  /** Estimated WBGT (暑さ指数) in °C, or null if unavailable. */
+  wbgt: number | null;
+};
+
+/** Hourly weather over the user's day (departure → last event end). */
+export type WeatherTimeline = {
+  /** Resolved location name (from geocoding, or fallback). */
+  locationName: string;
+  /** First hour covered ("HH:mm", JST). */
+  from: string;
+  /** Last hour covered ("HH:mm", JST). */
+  to: string;
+  /** One entry per hour, earliest first. */
+  hours: WeatherHour[];
+};
+
+/** Thresholds of the clothing advice (see `adviseClothing`). */
+export type ClothingThresholds = {
+  /** Lowest apparent temperature (°C) at or below which a coat is advised. */
+  coatApparentTemperature: number;
+  /** Lowest apparent temperature (°C) at or below which a jacket is advised. */
+  jacketApparentTemperature: number;
+  /** Highest temperature (°C) at or above which light clothes are advised. */
+  lightClothingTemperature: number;
+  /** Day range (max − min °C) at or above which layers are advised. */
+  temperatureGap: number;
+  /** Wind speed (m/s) at or above which wind is called strong. */
+  strongWind: number;
+  /** Precipitation (mm/h) at or above which waterproof shoes are advised. */
+  heavyRainMm: number;
+};
+
+/** Deterministic clothing advice for the day's temperature range. */
+export type ClothingAdvice = {
+  /** Short labels, most important first (e.g. ["上着推奨", "寒暖差大"]). */
+  items: string[];
+  /** One line for display / speech (e.g. "上着推奨・寒暖差大（8〜19°C）"). */
+  summary: string;
+  /** Day range of the temperature in °C, or null if unavailable. */
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  /** Lowest apparent temperature in °C, or null if unavailable. */
+  minApparentTemperature: number | null;
+};
+
+/** One hour of a provider's forecast, before WBGT is derived. */
+export type ForecastHour = {
+  /** JST hour without offset (e.g. "2026-02-22T08:00"). */
+  iso: string;
+  /** °C */
+  temperature: number | null;
+  /** °C */
+  apparentTemperature: number | null;
+  /** m/s */
+  windSpeed: number | null;
+  /** % */
+  precipitationProbability: number | null;
+  /** mm/h */
+  precipitationMm: number | null;
+  /** Relative humidity in %. */
+  humidity: number | null;
+  /** Global (shortwave) solar radiation in W/m². */
+  radiation: number | null;
+  uvIndex: number | null;
+};
+
+/**
+ * A source of geocoding and hourly forecasts (Open-Meteo, the bundled
+ * fixture, …). Both methods throw when the source fails; `geocode` resolves
+ * to null when it does not know the place.
+ */
+export type WeatherProvider = {
+  /** Short identifier, part of the cache keys (e.g. "open-meteo"). */
+  id: string;
+  geocode(location: string): Promise<WeatherPoint | null>;
+  /** The hours of one JST day "YYYY-MM-DD". */
+  getHourlyForecast(
+    point: { lat: number; lon: number },
+    date: string,
+  ): Promise<ForecastHour[]>;
 };
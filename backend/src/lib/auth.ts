@@ -6,6 +6,8 @@ import { getAllowedOrigins } from "./origins";
 const GOOGLE_CALENDAR_SCOPE = "https://www.googleapis.com/auth/calendar.events";
 const GOOGLE_CALENDAR_APP_CREATED_SCOPE =
   "https://www.googleapis.com/auth/calendar.app.created";
+export const GOOGLE_CALENDAR_LIST_SCOPE =
+  "https://www.googleapis.com/auth/calendar.calendarlist.readonly";
 const authDbClients = new WeakMap<
   D1Database,
   Kysely<Record<string, unknown>>
@@ -124,6 +126,7 @@ export function createAuth(env: Env, request?: Request) {
           "profile",
           GOOGLE_CALENDAR_SCOPE,
           GOOGLE_CALENDAR_APP_CREATED_SCOPE,
+          GOOGLE_CALENDAR_LIST_SCOPE,
         ],
       },
     },
@@ -1,5 +1,17 @@
 import type { Context } from "hono";
-import { getMorningBriefing } from "../features/morning-briefing/morning-briefing.service";
+import {
+  addDays,
+  jstToday,
+  parseCalendarDate,
+} from "../features/google-calendar/calendar-date";
+import {
+  getMorningBriefing,
+  MAX_BRIEFING_DAYS_AHEAD,
+} from "../features/morning-briefing/morning-briefing.service";
+import { listSavedPlaces } from "../features/places/place.repository";
+import { toCoordinates } from "../features/places/place.validation";
+import { findDefaultOrigin } from "../features/places/place-resolver";
+import { reverseGeocode } from "../features/places/reverse-geocode";
 import { getAuthSession } from "../lib/session";
 import type { App } from "../types/app";
 
@@ -10,7 +22,18 @@ export function registerBriefingRoutes(app: App): void {
    * Generate a full morning briefing by chaining:
    *   Google Calendar → Transit Directions → Late-risk engine
    *
-   * Body: { currentLocation: string, prepMinutes?: number }
+   * Body: { currentLocation?: string,
+   *         currentCoordinates?: { lat: number, lon: number },
+   *         prepMinutes?: number,
+   *         date?: "YYYY-MM-DD" }
+   *
+   * `currentLocation` is an address / place name or the id, name or alias
+   * of a saved place; without it the default-origin saved place's name is
+   * used.
+   * `currentCoordinates` (browser geolocation) are routed from directly;
+   * without `currentLocation` they are reverse-geocoded for display.
+   * `date` briefs another JST day — today through 7 days ahead, e.g.
+   * tomorrow for the night-before check (default: today).
    *
    * Returns: MorningBriefingResult
    */
@@ -21,26 +44,64 @@ export function registerBriefingRoutes(app: App): void {
     }
 
     const body = await c.req.json().catch(() => null);
+    const currentCoordinates = toCoordinates(body?.currentCoordinates);
+    if (body?.currentCoordinates !== undefined && !currentCoordinates) {
+      return c.json(
+        {
+          error:
+            "`currentCoordinates` must be { lat, lon } with -90 ≤ lat ≤ 90 and -180 ≤ lon ≤ 180.",
+        },
+        400,
+      );
+    }
+
+    const today = jstToday();
+    const date =
+      body?.date === undefined ? today : parseCalendarDate(body.date);
     if (
-      !body ||
-      typeof body.currentLocation !== "string" ||
-      body.currentLocation.trim().length === 0
+      !date ||
+      date < today ||
+      date > addDays(today, MAX_BRIEFING_DAYS_AHEAD)
     ) {
+      return c.json(
+        {
+          error: `\`date\` must be a YYYY-MM-DD date from today through ${MAX_BRIEFING_DAYS_AHEAD} days ahead.`,
+        },
+        400,
+      );
+    }
+
+    let currentLocation =
+      typeof body?.currentLocation === "string"
+        ? body.currentLocation.trim()
+        : "";
+    if (currentLocation.length === 0 && currentCoordinates) {
+      currentLocation = await reverseGeocode(c.env, currentCoordinates);
+    }
+    if (currentLocation.length === 0) {
+      const places = await listSavedPlaces(c.env.AUTH_DB, session.user.id);
+      // The name, not the id: it is shown as the origin and keys the cache,
+      // and the briefing still finds the saved place by it.
+      currentLocation = findDefaultOrigin(places)?.name ?? "";
+    }
+    if (!body || currentLocation.length === 0) {
       return c.json(
         {
           error:
-            "Request body must include a non-empty `currentLocation` string.",
+            "Request body must include a non-empty `currentLocation` string (or save a default-origin place).",
         },
         400,
       );
     }
 
     const result = await getMorningBriefing(c.env, session.user.id, {
-      currentLocation: body.currentLocation.trim(),
+      currentLocation,
+      currentCoordinates: currentCoordinates ?? undefined,
       prepMinutes:
         typeof body.prepMinutes === "number" && body.prepMinutes > 0
           ? body.prepMinutes
           : undefined,
+      date,
       forceRefresh: body.forceRefresh === true,
     });
 
@@ -1,4 +1,13 @@
-import { getTodayEvents } from "../features/google-calendar/google-calendar.service";
+import { parseCalendarDate } from "../features/google-calendar/calendar-date";
+import { saveCalendarSelection } from "../features/google-calendar/calendar-selection.repository";
+import {
+  getEventsForDate,
+  getTodayEvents,
+  listCalendars,
+  MAX_SELECTED_CALENDARS,
+  validateCalendarSelection,
+} from "../features/google-calendar/google-calendar.service";
+import { clearMorningBriefingCache } from "../features/morning-briefing/morning-briefing.service";
 import { getAuthSession } from "../lib/session";
 import type { App } from "../types/app";
 
@@ -18,4 +27,75 @@ export function registerCalendarRoutes(app: App): void {
     const result = await getTodayEvents(c.env, session.user.id);
     return c.json(result);
   });
+
+  /**
+   * GET /calendar/list
+   *
+   * The user's Google calendars (calendarList) and which of them feed the
+   * briefing — the primary calendar until a selection is saved.
+   * Returns: { calendars: [{ id, summary, color, primary, accessRole,
+   *                          selected }] }
+   *
+   * Registered before `/calendar/:date` so that "list" is not read as a date.
+   */
+  app.get("/calendar/list", async (c) => {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const result = await listCalendars(c.env, session.user.id);
+    return c.json(result);
+  });
+
+  /**
+   * PUT /calendar/selection
+   *
+   * Body: { calendarIds: string[] } — the calendars whose events feed the
+   * briefing (1–20, merged and de-duplicated).
+   * Returns: the calendar list with the new selection.
+   */
+  app.put("/calendar/selection", async (c) => {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const calendarIds = validateCalendarSelection(body);
+    if (!calendarIds) {
+      return c.json(
+        {
+          error: `\`calendarIds\` must be a list of 1–${MAX_SELECTED_CALENDARS} calendar ids.`,
+        },
+        400,
+      );
+    }
+
+    await saveCalendarSelection(c.env.AUTH_DB, session.user.id, calendarIds);
+    await clearMorningBriefingCache(c.env.AUTH_DB, session.user.id);
+    const result = await listCalendars(c.env, session.user.id);
+    return c.json(result);
+  });
+
+  /**
+   * GET /calendar/:date
+   *
+   * Returns the Google Calendar events of one JST day ("YYYY-MM-DD", e.g.
+   * tomorrow for the night-before check) for the authenticated user.
+   */
+  app.get("/calendar/:date", async (c) => {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const date = parseCalendarDate(c.req.param("date"));
+    if (!date) {
+      return c.json({ error: "`date` must be a YYYY-MM-DD date." }, 400);
+    }
+
+    const result = await getEventsForDate(c.env, session.user.id, date);
+    return c.json(result);
+  });
 }
@@ -0,0 +1,237 @@
+import { clearMorningBriefingCache } from "../features/morning-briefing/morning-briefing.service";
+import {
+  deleteLocationMapping,
+  listLocationMappings,
+  saveLocationMapping,
+} from "../features/places/location-mapping.repository";
+import {
+  createSavedPlace,
+  deleteSavedPlace,
+  listSavedPlaces,
+  updateSavedPlace,
+} from "../features/places/place.repository";
+import {
+  toLocationMappingInput,
+  toSavedPlaceInput,
+} from "../features/places/place.validation";
+import {
+  DEFAULT_SUGGESTION_LIMIT,
+  MAX_SUGGESTION_LIMIT,
+  suggestPlaces,
+} from "../features/places/place-autocomplete";
+import { getAuthSession } from "../lib/session";
+import type { App } from "../types/app";
+
+const INVALID_PLACE_MESSAGE =
+  "Request body must include non-empty `name` and `address` strings; `aliases` must be an array of strings and `lat` / `lon` numbers (-90 ≤ lat ≤ 90, -180 ≤ lon ≤ 180) given together.";
+
+const INVALID_MAPPING_MESSAGE =
+  "Request body must include non-empty `location` and `address` strings.";
+
+export function registerPlaceRoutes(app: App): void {
+  /**
+   * GET /places
+   *
+   * The user's saved places (oldest first).
+   * Returns: { places: SavedPlace[] }
+   */
+  app.get("/places", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const places = await listSavedPlaces(c.env.AUTH_DB, authSession.user.id);
+    return c.json({ places });
+  });
+
+  /**
+   * GET /places/autocomplete?q=うめだ&limit=8
+   *
+   * Candidates for a location field from the user's saved places and the
+   * bundled Kansai station / landmark dictionary (fuzzy, kana-insensitive;
+   * no external API). `value` is the text to route by.
+   * Returns: { suggestions: PlaceSuggestion[] }
+   */
+  app.get("/places/autocomplete", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const limit = Number(c.req.query("limit") ?? DEFAULT_SUGGESTION_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTION_LIMIT) {
+      return c.json(
+        {
+          error: `\`limit\` must be an integer between 1 and ${MAX_SUGGESTION_LIMIT}.`,
+        },
+        400,
+      );
+    }
+
+    const places = await listSavedPlaces(c.env.AUTH_DB, authSession.user.id);
+    const suggestions = suggestPlaces(places, c.req.query("q") ?? "", limit);
+    return c.json({ suggestions });
+  });
+
+  /**
+   * POST /places
+   *
+   * Body: { name, aliases?, address, lat?, lon?, isDefaultOrigin? }
+   * Returns: { place: SavedPlace } (201)
+   */
+  app.post("/places", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const input = toSavedPlaceInput(await c.req.json().catch(() => null));
+    if (!input) {
+      return c.json({ error: INVALID_PLACE_MESSAGE }, 400);
+    }
+
+    const place = await createSavedPlace(
+      c.env.AUTH_DB,
+      authSession.user.id,
+      input,
+    );
+    // Cached briefings may name the place by alias
+    await clearMorningBriefingCache(c.env.AUTH_DB, authSession.user.id);
+    return c.json({ place }, 201);
+  });
+
+  /**
+   * PUT /places/:id
+   *
+   * Replace a saved place. Body as for POST.
+   * Returns: { place: SavedPlace }
+   */
+  app.put("/places/:id", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const input = toSavedPlaceInput(await c.req.json().catch(() => null));
+    if (!input) {
+      return c.json({ error: INVALID_PLACE_MESSAGE }, 400);
+    }
+
+    const place = await updateSavedPlace(
+      c.env.AUTH_DB,
+      authSession.user.id,
+      c.req.param("id"),
+      input,
+    );
+    if (!place) {
+      return c.json({ error: "Place not found." }, 404);
+    }
+
+    await clearMorningBriefingCache(c.env.AUTH_DB, authSession.user.id);
+    return c.json({ place });
+  });
+
+  /**
+   * DELETE /places/:id
+   *
+   * Returns: { deleted: true }
+   */
+  app.delete("/places/:id", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const deleted = await deleteSavedPlace(
+      c.env.AUTH_DB,
+      authSession.user.id,
+      c.req.param("id"),
+    );
+    if (!deleted) {
+      return c.json({ error: "Place not found." }, 404);
+    }
+
+    await clearMorningBriefingCache(c.env.AUTH_DB, authSession.user.id);
+    return c.json({ deleted: true });
+  });
+
+  /**
+   * GET /location-mappings
+   *
+   * What the user told us ambiguous calendar locations mean.
+   * Returns: { mappings: LocationMapping[] }
+   */
+  app.get("/location-mappings", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const mappings = await listLocationMappings(
+      c.env.AUTH_DB,
+      authSession.user.id,
+    );
+    return c.json({ mappings });
+  });
+
+  /**
+   * PUT /location-mappings
+   *
+   * Answer for a location listed in `unconfirmedLocations`: route it to
+   * `address` from now on (send the location itself to keep it as-is).
+   * Body: { location, address }
+   * Returns: { mapping: LocationMapping }
+   */
+  app.put("/location-mappings", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const input = toLocationMappingInput(await c.req.json().catch(() => null));
+    if (!input) {
+      return c.json({ error: INVALID_MAPPING_MESSAGE }, 400);
+    }
+
+    const mapping = await saveLocationMapping(
+      c.env.AUTH_DB,
+      authSession.user.id,
+      input.location,
+      input.address,
+    );
+    // Cached briefings were routed to the old guess
+    await clearMorningBriefingCache(c.env.AUTH_DB, authSession.user.id);
+    return c.json({ mapping });
+  });
+
+  /**
+   * DELETE /location-mappings?location=会議室A
+   *
+   * Forget a mapping (the location is asked about again when ambiguous).
+   * Returns: { deleted: true }
+   */
+  app.delete("/location-mappings", async (c) => {
+    const authSession = await getAuthSession(c);
+    if (!authSession) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const location = c.req.query("location")?.trim();
+    if (!location) {
+      return c.json({ error: "`location` query parameter is required." }, 400);
+    }
+
+    const deleted = await deleteLocationMapping(
+      c.env.AUTH_DB,
+      authSession.user.id,
+      location,
+    );
+    if (!deleted) {
+      return c.json({ error: "Location mapping not found." }, 404);
+    }
+
+    await clearMorningBriefingCache(c.env.AUTH_DB, authSession.user.id);
+    return c.json({ deleted: true });
+  });
+}
@@ -10,7 +10,23 @@ export function registerRootRoutes(app: App): void {
         "GET /briefing/routine",
         "PUT /briefing/routine",
         "GET /calendar/today",
+        "GET /calendar/list",
+        "PUT /calendar/selection",
+        "GET /calendar/:date",
+        "GET /places",
+        "GET /places/autocomplete",
+        "POST /places",
+        "PUT /places/:id",
+        "DELETE /places/:id",
+        "GET /location-mappings",
+        "PUT /location-mappings",
+        "DELETE /location-mappings",
         "POST /transit/directions",
+        "GET /transit/preferences",
+        "PUT /transit/preferences",
+        "POST /transit/gtfs/import",
+        "GET /weather/preferences",
+        "PUT /weather/preferences",
         "POST /tasks/decompose",
         "POST /workflows/decompose",
         "GET /workflows/history",
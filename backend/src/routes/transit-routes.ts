@@ -1,18 +1,96 @@
 import type { Context } from "hono";
+import { clearMorningBriefingCache } from "../features/morning-briefing/morning-briefing.service";
+import { listSavedPlaces } from "../features/places/place.repository";
+import { toCoordinates } from "../features/places/place.validation";
+import {
+  findDefaultOrigin,
+  placeCoordinates,
+  resolveLocation,
+} from "../features/places/place-resolver";
+import { reverseGeocode } from "../features/places/reverse-geocode";
+import { getFixtureGtfsFeeds } from "../features/transit/gtfs.fixture";
+import { importGtfsFeed } from "../features/transit/gtfs.repository";
+import type { GtfsFeedInput } from "../features/transit/gtfs.types";
+import { GtfsFeedError } from "../features/transit/gtfs-import";
 import { getTransitDirections } from "../features/transit/transit.service";
+import {
+  getTransitPreferences,
+  saveTransitPreferences,
+  validateRoutePreference,
+} from "../features/transit/transit-preference.service";
+import { validateTravelMode } from "../features/transit/travel-mode";
 import { getAuthSession } from "../lib/session";
 import type { App } from "../types/app";
 
+/** Compare secrets in constant time (hashed first, so lengths match too). */
+async function secretsEqual(a: string, b: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [hashA, hashB] = await Promise.all([
+    crypto.subtle.digest("SHA-256", encoder.encode(a)),
+    crypto.subtle.digest("SHA-256", encoder.encode(b)),
+  ]);
+  return crypto.subtle.timingSafeEqual(hashA, hashB);
+}
+
+function toFeedInput(body: unknown): GtfsFeedInput | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+
+  const candidate = body as Record<string, unknown>;
+  if (
+    typeof candidate.feedId !== "string" ||
+    !/^[a-z0-9-]{1,40}$/.test(candidate.feedId) ||
+    !candidate.files ||
+    typeof candidate.files !== "object"
+  ) {
+    return null;
+  }
+
+  const files: Record<string, string> = {};
+  for (const [name, text] of Object.entries(candidate.files)) {
+    if (typeof text === "string") {
+      files[name] = text;
+    }
+  }
+
+  return {
+    feedId: candidate.feedId,
+    name:
+      typeof candidate.name === "string" && candidate.name.trim().length > 0
+        ? candidate.name.trim()
+        : candidate.feedId,
+    files,
+  };
+}
+
 export function registerTransitRoutes(app: App): void {
   /**
    * POST /transit/directions
    *
    * Look up transit directions between two points.
-   * Body: { origin: string, destination: string, arrivalTime?: string }
+   * Body: { origin?: string, originCoordinates?: { lat, lon },
+   *         destination: string, arrivalTime?: string,
+   *         departureTime?: string, latestDeparture?: boolean,
+   *         preference?: string, mode?: string }
+   *
+   * Both times are ISO-8601 datetimes.  `arrivalTime` calculates routes that
+   * arrive by that time (useful for "what time should I leave to arrive at
+   * 09:00?") and takes precedence; `departureTime` calculates routes that
+   * leave at that time.  Without either, routes depart now.
+   * `latestDeparture: true` looks for the last trains (終電) of the day
+   * leaving at or after `departureTime` instead.
+   *
+   * `origin` and `destination` may name a saved place (id, name or alias);
+   * without `origin` the default-origin saved place is used.
+   * `originCoordinates` (browser geolocation) take precedence for routing;
+   * `origin` then only names them (reverse-geocoded when omitted). Saved
+   * places with coordinates are routed by them too.
    *
-   * `arrivalTime` is an ISO-8601 datetime.  When provided the API will
-   * calculate routes that arrive by that time (useful for "what time should
-   * I leave to arrive at 09:00?").
+   * `preference` ("fastest" | "fewest_transfers" | "least_walking" |
+   * "cheapest") ranks the alternatives and `mode` ("transit" | "walk" |
+   * "bicycle" | "taxi" | "car") selects how to travel; both default to the
+   * user's saved preferences.
    */
   app.post("/transit/directions", async (c: Context<{ Bindings: Env }>) => {
     const session = await getAuthSession(c);
@@ -23,32 +101,192 @@ export function registerTransitRoutes(app: App): void {
     const body = await c.req.json().catch(() => null);
     if (
       !body ||
-      typeof body.origin !== "string" ||
       typeof body.destination !== "string" ||
-      body.origin.trim().length === 0 ||
       body.destination.trim().length === 0
     ) {
       return c.json(
         {
           error:
-            "Request body must include non-empty `origin` and `destination` strings.",
+            "Request body must include non-empty `origin` (or a saved default-origin place) and `destination` strings.",
+        },
+        400,
+      );
+    }
+    const originCoordinates = toCoordinates(body.originCoordinates);
+    if (body.originCoordinates !== undefined && !originCoordinates) {
+      return c.json(
+        {
+          error:
+            "`originCoordinates` must be { lat, lon } with -90 ≤ lat ≤ 90 and -180 ≤ lon ≤ 180.",
         },
         400,
       );
     }
 
-    const apiKey = c.env.GOOGLE_MAPS_API_KEY;
-    if (!apiKey) {
-      return c.json({ error: "Transit service is not configured." }, 503);
+    // Only a valid request pays for the lookups and the reverse geocode.
+    const [saved, places] = await Promise.all([
+      getTransitPreferences(c.env.AUTH_DB, session.user.id),
+      listSavedPlaces(c.env.AUTH_DB, session.user.id),
+    ]);
+    const namedOrigin =
+      typeof body.origin === "string" && body.origin.trim().length > 0
+        ? resolveLocation(places, body.origin)
+        : null;
+    const originPlace = namedOrigin
+      ? namedOrigin.place
+      : originCoordinates
+        ? null
+        : findDefaultOrigin(places);
+    const origin =
+      namedOrigin?.address ??
+      (originCoordinates
+        ? await reverseGeocode(c.env, originCoordinates)
+        : originPlace?.address);
+    if (!origin) {
+      return c.json(
+        {
+          error:
+            "Request body must include non-empty `origin` (or a saved default-origin place) and `destination` strings.",
+        },
+        400,
+      );
     }
 
-    const result = await getTransitDirections(apiKey, {
-      origin: body.origin.trim(),
-      destination: body.destination.trim(),
+    const destination = resolveLocation(places, body.destination);
+    const result = await getTransitDirections(c.env, {
+      origin,
+      originCoordinates:
+        originCoordinates ?? placeCoordinates(originPlace) ?? undefined,
+      destination: destination.address,
+      destinationCoordinates: placeCoordinates(destination.place) ?? undefined,
       arrivalTime:
         typeof body.arrivalTime === "string" ? body.arrivalTime : undefined,
+      departureTime:
+        typeof body.departureTime === "string" ? body.departureTime : undefined,
+      latestDeparture: body.latestDeparture === true,
+      preference:
+        validateRoutePreference(body.preference) ?? saved.routePreference,
+      mode: validateTravelMode(body.mode) ?? saved.defaultMode,
     });
 
     return c.json(result);
   });
+
+  /**
+   * GET /transit/preferences
+   *
+   * The user's saved route ranking and default travel mode.
+   * Returns: { routePreference, defaultMode }
+   */
+  app.get("/transit/preferences", async (c) => {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const preferences = await getTransitPreferences(
+      c.env.AUTH_DB,
+      session.user.id,
+    );
+    return c.json(preferences);
+  });
+
+  /**
+   * PUT /transit/preferences
+   *
+   * Body: { routePreference?: "fastest" | "fewest_transfers" |
+   *                           "least_walking" | "cheapest",
+   *         defaultMode?: "transit" | "walk" | "bicycle" | "taxi" | "car" }
+   *
+   * Omitted fields keep their saved value. Cached briefings are dropped so
+   * the next one uses the new settings.
+   */
+  app.put("/transit/preferences", async (c) => {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const routePreference =
+      body?.routePreference === undefined
+        ? undefined
+        : validateRoutePreference(body.routePreference);
+    const defaultMode =
+      body?.defaultMode === undefined
+        ? undefined
+        : validateTravelMode(body.defaultMode);
+    if (
+      routePreference === null ||
+      defaultMode === null ||
+      (routePreference === undefined && defaultMode === undefined)
+    ) {
+      return c.json(
+        {
+          error:
+            "Request body must include `routePreference` (fastest, fewest_transfers, least_walking, cheapest) and/or `defaultMode` (transit, walk, bicycle, taxi, car).",
+        },
+        400,
+      );
+    }
+
+    const current = await getTransitPreferences(c.env.AUTH_DB, session.user.id);
+    const saved = await saveTransitPreferences(c.env.AUTH_DB, session.user.id, {
+      routePreference: routePreference ?? current.routePreference,
+      defaultMode: defaultMode ?? current.defaultMode,
+    });
+    await clearMorningBriefingCache(c.env.AUTH_DB, session.user.id);
+    return c.json(saved);
+  });
+
+  /**
+   * POST /transit/gtfs/import
+   *
+   * Replace one GTFS feed in D1. Operator-only: requires
+   * `Authorization: Bearer <GTFS_IMPORT_TOKEN>`.
+   *
+   * Body: { feedId: string, name?: string, files: { "stops.txt": "...", ... } }
+   *   or  { fixture: true } to load the bundled offline fixture feeds.
+   *
+   * Only small feeds fit in a request (400 otherwise); real timetables are
+   * imported with `pnpm gtfs:sql` and `wrangler d1 execute --file`.
+   */
+  app.post("/transit/gtfs/import", async (c: Context<{ Bindings: Env }>) => {
+    const token = c.env.GTFS_IMPORT_TOKEN;
+    if (!token) {
+      return c.json({ error: "GTFS import is not configured." }, 503);
+    }
+    const authorization = c.req.header("authorization") ?? "";
+    if (!(await secretsEqual(authorization, `Bearer ${token}`))) {
+      return c.json({ error: "Invalid import token." }, 403);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const feeds =
+      body?.fixture === true ? getFixtureGtfsFeeds() : [toFeedInput(body)];
+    if (feeds.some((feed) => feed === null)) {
+      return c.json(
+        {
+          error:
+            "Request body must include `feedId` (a-z, 0-9, -) and `files`, or `fixture: true`.",
+        },
+        400,
+      );
+    }
+
+    try {
+      const imported = [];
+      for (const feed of feeds as GtfsFeedInput[]) {
+        imported.push(await importGtfsFeed(c.env.AUTH_DB, feed));
+      }
+      return c.json({ imported });
+    } catch (error) {
+      // The feed's fault is a 400; D1 and other failures are ours
+      if (error instanceof GtfsFeedError) {
+        return c.json({ error: error.message }, 400);
+      }
+      console.error("GTFS import failed:", error);
+      return c.json({ error: "GTFS import failed." }, 500);
+    }
+  });
 }
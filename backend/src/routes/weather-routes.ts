@@ -0,0 +1,71 @@
+import {
+  getWeatherPreferences,
+  mergeWeatherPreferences,
+  saveWeatherPreferences,
+} from "../features/weather/weather-preference.service";
+import { getAuthSession } from "../lib/session";
+import type { App } from "../types/app";
+
+export function registerWeatherRoutes(app: App): void {
+  /**
+   * GET /weather/preferences
+   *
+   * The user's weather thresholds (the ENV defaults until saved).
+   * Returns: { umbrellaProbability, umbrellaMm, foldingUmbrellaProbability,
+   *            heatstrokeWbgt, coldApparentTemperature }
+   */
+  app.get("/weather/preferences", async (c) => {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const preferences = await getWeatherPreferences(
+      c.env.AUTH_DB,
+      session.user.id,
+      c.env,
+    );
+    return c.json(preferences);
+  });
+
+  /**
+   * PUT /weather/preferences
+   *
+   * Body: { umbrellaProbability?: 0–100, umbrellaMm?: 0–50,
+   *         foldingUmbrellaProbability?: 0–100, heatstrokeWbgt?: 15–35,
+   *         coldApparentTemperature?: -20–25 }
+   *
+   * Omitted fields keep their saved value. The thresholds are part of the
+   * briefing cache key, so the next briefing uses them.
+   */
+  app.put("/weather/preferences", async (c) => {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: "Authentication required." }, 401);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const current = await getWeatherPreferences(
+      c.env.AUTH_DB,
+      session.user.id,
+      c.env,
+    );
+    const merged = mergeWeatherPreferences(current, body);
+    if (!merged) {
+      return c.json(
+        {
+          error:
+            "Request body must set at least one of `umbrellaProbability` (0–100), `umbrellaMm` (0–50), `foldingUmbrellaProbability` (0–100, not above umbrellaProbability), `heatstrokeWbgt` (15–35) and `coldApparentTemperature` (-20–25).",
+        },
+        400,
+      );
+    }
+
+    const saved = await saveWeatherPreferences(
+      c.env.AUTH_DB,
+      session.user.id,
+      merged,
+    );
+    return c.json(saved);
+  });
+}
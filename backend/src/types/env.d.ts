@@ -5,11 +5,33 @@ interface Env {
   GOOGLE_CLIENT_SECRET: string;
   /** Google Maps Platform API key (Routes API). */
   GOOGLE_MAPS_API_KEY: string;
+  /** Bearer token for the operator-only `POST /transit/gtfs/import`. */
+  GTFS_IMPORT_TOKEN?: string;
+  /**
+   * Operating-status (運行情報) JSON feed URL, or "fixture" for the bundled
+   * stand-in. Unset: disruptions are not checked.
+   */
+  TRANSIT_DISRUPTION_FEED_URL?: string;
+  /**
+   * Weather warning (警報・注意報) JSON feed URL, or "fixture" for the
+   * bundled stand-in. Unset: warnings are not checked.
+   */
+  WEATHER_WARNING_FEED_URL?: string;
+  /**
+   * Minute-level rain nowcast: "open-meteo" (15-minutely forecast) or
+   * "fixture" for the bundled stand-in. Unset: no departure shifts.
+   */
+  WEATHER_NOWCAST_PROVIDER?: string;
   BETTER_AUTH_SECRET: string;
   BETTER_AUTH_URL?: string;
   AUTH_COOKIE_PREFIX?: string;
   FRONTEND_ORIGINS?: string;
   AUTH_COOKIE_DOMAIN?: string;
+  /**
+   * Geocoding / forecast source: "fixture" for the bundled deterministic
+   * data, unset for Open-Meteo. Answers are cached in D1 either way.
+   */
+  WEATHER_PROVIDER?: string;
   /** Fallback latitude when geocoding fails (default: Kyoto Station). */
   WEATHER_DEFAULT_LAT?: string;
   /** Fallback longitude when geocoding fails (default: Kyoto Station). */
@@ -18,4 +40,20 @@ interface Env {
   WEATHER_UMBRELLA_PROB_THRESHOLD?: string;
   /** Precipitation mm/h threshold for umbrella (default: 0.2). */
   WEATHER_UMBRELLA_MM_THRESHOLD?: string;
+  /** Apparent temperature °C at or below which a coat is advised (default: 5). */
+  WEATHER_COAT_APPARENT_TEMP?: string;
+  /** Apparent temperature °C at or below which a jacket is advised (default: 15). */
+  WEATHER_JACKET_APPARENT_TEMP?: string;
+  /** Temperature °C at or above which light clothes are advised (default: 27). */
+  WEATHER_LIGHT_CLOTHING_TEMP?: string;
+  /** Day temperature range °C flagged as 寒暖差大 (default: 8). */
+  WEATHER_TEMP_GAP?: string;
+  /** Wind speed m/s called strong (default: 8). */
+  WEATHER_STRONG_WIND?: string;
+  /** Precipitation mm/h advising waterproof shoes (default: 3). */
+  WEATHER_HEAVY_RAIN_MM?: string;
+  /** WBGT °C while walking that advises 水分補給 (default: 28, 厳重警戒). */
+  WEATHER_HEATSTROKE_WBGT?: string;
+  /** UV index while walking that advises sunscreen (default: 6). */
+  WEATHER_UV_INDEX?: string;
 }
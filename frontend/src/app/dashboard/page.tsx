@@ -15,11 +15,31 @@ import {
 } from "@chakra-ui/react";
 import NextLink from "next/link";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { signInWithGoogle } from "@/lib/auth-api";
 import {
+  type CalendarListEntry,
+  type Coordinates,
+  createSavedPlace,
+  deleteSavedPlace,
+  fetchCalendarList,
   fetchMorningBriefing,
   fetchMorningRoutine,
+  fetchPlaceSuggestions,
+  fetchSavedPlaces,
+  fetchTransitPreferences,
+  fetchWeatherPreferences,
   type MorningRoutineItem,
+  type PlaceSuggestion,
+  type RoutePreference,
+  type SavedPlace,
+  saveLocationMapping,
+  type TravelMode,
+  updateCalendarSelection,
   updateMorningRoutine,
+  updateSavedPlace,
+  updateTransitPreferences,
+  updateWeatherPreferences,
+  type WeatherPreferences,
 } from "@/lib/backend-api";
 import {
   getTaskWorkflowHistory,
@@ -33,43 +53,156 @@ type BriefingEvent = {
   start: string;
   end: string;
   isAllDay: boolean;
+  calendarId?: string;
+  calendarColor?: string | null;
 };
 
 type TransitRoute = {
+  mode?: TravelMode;
   departureTime: string;
   arrivalTime: string;
+  departureAt?: string;
+  arrivalAt?: string;
   durationMinutes: number;
   summary: string;
+  transferCount?: number | null;
+  walkingMinutes?: number | null;
+  firstBoardingStation?: string | null;
+  fare?: { ticketYen: number; icYen: number | null } | null;
+};
+
+type TransitError = {
+  code: "NOT_CONFIGURED" | "GEOCODE_FAILED" | "NO_ROUTE" | "UPSTREAM_ERROR";
+  message: string;
 };
 
 type EventBriefing = {
   event: BriefingEvent;
+  origin?: string;
   destination: string;
+  mode?: TravelMode;
   route: TransitRoute | null;
-  transitMinutes: number;
-  leaveBy: string;
-  wakeUpBy: string;
-  slackMinutes: number;
-  lateRiskPercent: number;
+  routeError?: TransitError | null;
+  backupRoute?: TransitRoute | null;
+  backupNote?: string | null;
+  earlierLeaveBy?: string | null;
+  disruptionNotes?: string[];
+  // The timings are null when routeError is set
+  transitMinutes: number | null;
+  leaveAt?: string | null;
+  leaveBy: string | null;
+  wakeUpBy: string | null;
+  slackMinutes: number | null;
+  lateRiskPercent: number | null;
+};
+
+type ItineraryLeg = {
+  fromEventId: string | null;
+  toEventId: string;
+  origin: string;
+  destination: string;
+  travelMinutes: number | null;
+  gapMinutes: number | null;
+  impossible: boolean;
+  note: string | null;
+};
+
+type ReturnTrip = {
+  fromEventId: string;
+  origin: string;
+  destination: string;
+  route: TransitRoute | null;
+  lastTrain: TransitRoute | null;
+  exitBy: string | null;
+  missesLastTrain: boolean;
+  warning: string | null;
+};
+
+type OutdoorExposure = {
+  walkingMinutes: number;
+  wbgt: number | null;
+  heatLevel: "safe" | "caution" | "warning" | "severe" | "danger" | null;
+  uvIndex: number | null;
+  pollenLevel: "low" | "moderate" | "high" | "very_high" | null;
+  advice: string[];
+  summary: string;
 };
 
 type WeatherInfo = {
   locationName: string;
+  /** Window that decided the umbrella (e.g. "帰宅時"); absent in old caches. */
+  window?: string | null;
   startIso: string;
   precipitationProbability: number;
   precipitationMm: number;
   umbrellaNeeded: boolean;
+  /** Includes the folding-umbrella tier; absent in old caches. */
+  umbrella?: "none" | "folding" | "umbrella";
   reason: string;
+  /** Heat / UV / pollen while walking; absent in old caches. */
+  outdoor?: OutdoorExposure | null;
+};
+
+type WeatherHour = {
+  startIso: string;
+  temperature: number | null;
+  apparentTemperature: number | null;
+  windSpeed: number | null;
+  precipitationProbability: number | null;
+  precipitationMm: number | null;
+};
+
+type WeatherTimeline = {
+  locationName: string;
+  from: string;
+  to: string;
+  hours: WeatherHour[];
+};
+
+type ClothingAdvice = {
+  items: string[];
+  summary: string;
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  minApparentTemperature: number | null;
+};
+
+type WeatherWarning = {
+  name: string;
+  level: "advisory" | "warning" | "emergency";
+  area: string;
+  prefecture: string | null;
+  message: string | null;
+};
+
+type RainShift = {
+  leaveAt: string;
+  leaveBy: string;
+  shiftMinutes: number;
+  note: string;
 };
 
 type MorningBriefingResult = {
   date: string;
   now: string;
+  currentLocation?: string;
   totalEvents: number;
   briefings: EventBriefing[];
   urgent: EventBriefing | null;
   eventsWithoutLocation: BriefingEvent[];
+  itinerary?: ItineraryLeg[];
+  returnTrip?: ReturnTrip | null;
+  unconfirmedLocations?: string[];
+  weatherWarnings?: WeatherWarning[];
+  rainShift?: RainShift | null;
+  dailyFare?: {
+    ticketYen: number;
+    icYen: number;
+    routesWithoutFare: number;
+  };
   weather: WeatherInfo | null;
+  weatherTimeline?: WeatherTimeline | null;
+  clothing?: ClothingAdvice | null;
 };
 
 type State = {
@@ -92,7 +225,35 @@ type AlarmStatus = "idle" | "scheduled" | "ringing";
 const TODAY_EVENTS_LIMIT = 3;
 const DECOMPOSED_EVENTS_LIMIT = 3;
 const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+/** Wait for a pause in typing before asking for place suggestions. */
+const SUGGESTION_DEBOUNCE_MS = 250;
 const WAKEUP_ALARM_ENABLED_KEY = "dashboard:wakeup-alarm-enabled";
+const ROUTE_UNAVAILABLE_TEXT = "経路を取得できませんでした";
+const ROUTE_PREFERENCE_OPTIONS: { value: RoutePreference; label: string }[] = [
+  { value: "fastest", label: "最速" },
+  { value: "fewest_transfers", label: "乗換少" },
+  { value: "least_walking", label: "徒歩少" },
+  { value: "cheapest", label: "最安" },
+];
+const TRAVEL_MODE_OPTIONS: { value: TravelMode; label: string }[] = [
+  { value: "transit", label: "電車" },
+  { value: "walk", label: "徒歩" },
+  { value: "bicycle", label: "自転車" },
+  { value: "taxi", label: "タクシー" },
+  { value: "car", label: "車" },
+];
+const WEATHER_PREFERENCE_FIELDS: {
+  key: keyof WeatherPreferences;
+  label: string;
+  unit: string;
+}[] = [
+  { key: "umbrellaProbability", label: "傘（降水確率）", unit: "%以上" },
+  { key: "foldingUmbrellaProbability", label: "折りたたみ傘", unit: "%以上" },
+  { key: "umbrellaMm", label: "傘（雨量）", unit: "mm/h以上" },
+  { key: "heatstrokeWbgt", label: "暑さ（暑さ指数）", unit: "以上" },
+  { key: "coldApparentTemperature", label: "寒さ（体感）", unit: "°C以下" },
+];
+
 const DEFAULT_MORNING_ROUTINE: MorningRoutineItem[] = [
   { id: "prepare", label: "身支度", minutes: 20 },
   { id: "breakfast", label: "朝食", minutes: 15 },
@@ -119,6 +280,13 @@ function toJstHHmm(iso: string): string {
   return `${h}:${m}`;
 }
 
+/** JST date "YYYY-MM-DD", `days` after today. */
+function jstDateAfter(days: number): string {
+  return new Date(Date.now() + JST_OFFSET_MS + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
 function eventDurationMinutes(start: string, end: string): number {
   const s = new Date(start);
   const e = new Date(end);
@@ -214,30 +382,84 @@ function normalizeRoutineItems(value: unknown): MorningRoutineItem[] | null {
   return normalized;
 }
 
-function inferTransferCount(summary: string | null | undefined): number | null {
-  if (!summary || summary.trim().length === 0) {
+function describeRouteDetails(route: TransitRoute | null): string | null {
+  if (!route) {
     return null;
   }
 
-  const patterns = [
-    /乗り換え\s*(\d+)\s*回/u,
-    /乗換(?:え)?\s*(\d+)\s*回/u,
-    /(\d+)\s*回乗換/u,
-  ];
+  const parts: string[] = [];
+  if (route.firstBoardingStation) {
+    parts.push(`${route.firstBoardingStation}から乗車`);
+  }
+  if (
+    typeof route.transferCount === "number" &&
+    (route.mode ?? "transit") === "transit"
+  ) {
+    parts.push(
+      route.transferCount === 0
+        ? "乗り換えなし"
+        : `乗り換え${route.transferCount}回`,
+    );
+  }
+  if (typeof route.walkingMinutes === "number" && route.walkingMinutes > 0) {
+    parts.push(`徒歩${route.walkingMinutes}分`);
+  }
 
-  for (const pattern of patterns) {
-    const matched = pattern.exec(summary);
-    if (!matched?.[1]) {
-      continue;
-    }
+  return parts.length > 0 ? parts.join("・") : null;
+}
 
-    const count = Number(matched[1]);
-    if (Number.isFinite(count)) {
-      return count;
-    }
+function describeItineraryLeg(leg: ItineraryLeg | undefined): string | null {
+  if (!leg || leg.fromEventId === null) {
+    return null;
+  }
+  if (leg.impossible) {
+    return leg.note ?? "前の予定から間に合いません";
+  }
+  if (leg.travelMinutes === null) {
+    return leg.note ?? ROUTE_UNAVAILABLE_TEXT;
+  }
+  return leg.travelMinutes > 0
+    ? `前の予定から移動${leg.travelMinutes}分`
+    : "前の予定と同じ場所";
+}
+
+/** "★自宅" for saved places, "梅田　御堂筋線" for stations. */
+function describePlaceSuggestion(suggestion: PlaceSuggestion): string {
+  if (suggestion.kind === "saved") {
+    return `★${suggestion.name}`;
   }
+  return suggestion.lines.length > 0
+    ? `${suggestion.name}　${suggestion.lines.join("・")}`
+    : suggestion.name;
+}
+
+/** "2026-02-22T08:00" → "8時" */
+function formatForecastHour(startIso: string): string {
+  const match = startIso.match(/T(\d{2})/);
+  return match ? `${Number(match[1])}時` : "--";
+}
+
+function formatRounded(value: number | null, unit: string): string {
+  return value === null ? "--" : `${Math.round(value)}${unit}`;
+}
+
+/** "大阪市 大雨警報" */
+function describeWeatherWarning(warning: WeatherWarning): string {
+  return `${warning.area} ${warning.name}`;
+}
 
-  return null;
+function formatYen(value: number): string {
+  return `${value.toLocaleString("ja-JP")}円`;
+}
+
+function describeFare(route: TransitRoute | null): string | null {
+  const fare = route?.fare;
+  if (!fare) {
+    return null;
+  }
+  return fare.icYen !== null
+    ? `IC ${formatYen(fare.icYen)} / きっぷ ${formatYen(fare.ticketYen)}`
+    : `きっぷ ${formatYen(fare.ticketYen)}`;
 }
 
 function shortenSpeechDestination(value: string): string {
@@ -276,6 +498,8 @@ function shortenSpeechDestination(value: string): string {
 function buildWakeupSpeech(
   urgent: EventBriefing | null,
   weather: WeatherInfo | null,
+  clothing: ClothingAdvice | null,
+  rainShift: RainShift | null,
 ): string {
   if (!urgent) {
     return "本日の予定はまだ取得できていません。";
@@ -287,22 +511,53 @@ function buildWakeupSpeech(
     urgent.event.location?.trim() ||
     "目的地未設定";
   const speechDestination = shortenSpeechDestination(destination);
-  const transferCount = inferTransferCount(urgent.route?.summary ?? null);
+  const umbrellaText = weather?.umbrellaNeeded
+    ? weather.window
+      ? `${weather.reason}のため傘を持ってください。`
+      : "雨のため傘を持ってください。"
+    : weather?.umbrella === "folding"
+      ? `${weather.reason}のため折りたたみ傘があると安心です。`
+      : "傘は不要です。";
+  // Items only — the temperature range reads poorly aloud
+  const clothingText =
+    clothing && clothing.items.length > 0
+      ? `服装は${clothing.items.join("、")}。`
+      : "";
+  const outdoorAdvice = weather?.outdoor?.advice ?? [];
+  const outdoorText =
+    outdoorAdvice.length > 0 ? `${outdoorAdvice.join("、")}。` : "";
+  if (urgent.routeError || !urgent.leaveBy) {
+    return `今日は${startAt}から${speechDestination}。${ROUTE_UNAVAILABLE_TEXT}。出発時刻を確認してください。${umbrellaText}${clothingText}${outdoorText}`;
+  }
+
+  const transferCount = urgent.route?.transferCount;
+  const boardingText = urgent.route?.firstBoardingStation
+    ? `${urgent.route.firstBoardingStation}から乗車、`
+    : "";
+  const transferLabel =
+    transferCount === 0 ? "乗り換えなし" : `乗り換え${transferCount}回`;
+  const modeLabel = TRAVEL_MODE_OPTIONS.find(
+    (option) => option.value === urgent.mode,
+  )?.label;
   const transferText =
-    transferCount !== null
-      ? `乗り換え${transferCount}回`
-      : urgent.route?.summary?.trim()
-        ? urgent.route.summary
-        : "乗り換え情報なし";
+    urgent.mode && urgent.mode !== "transit" && modeLabel
+      ? `${modeLabel}で移動`
+      : typeof transferCount === "number"
+        ? `${boardingText}${transferLabel}`
+        : urgent.route?.summary?.trim()
+          ? urgent.route.summary
+          : "乗り換え情報なし";
   const transitText =
-    urgent.transitMinutes > 0
+    urgent.transitMinutes !== null && urgent.transitMinutes > 0
       ? `${urgent.transitMinutes}分`
       : "移動時間は未取得";
-  const umbrellaText = weather?.umbrellaNeeded
-    ? "雨のため傘を持ってください。"
-    : "傘は不要です。";
+  const disruptionText =
+    urgent.disruptionNotes && urgent.disruptionNotes.length > 0
+      ? `${urgent.disruptionNotes.join("、")}。`
+      : "";
+  const rainShiftText = rainShift ? `${rainShift.note}。` : "";
 
-  return `今日は${startAt}から${speechDestination}。${transferText}、${transitText}。${urgent.leaveBy}出発推奨。${umbrellaText}`;
+  return `今日は${startAt}から${speechDestination}。${transferText}、${transitText}。${disruptionText}${urgent.leaveBy}出発推奨。${rainShiftText}${umbrellaText}${clothingText}${outdoorText}`;
 }
 
 export default function DashboardPage() {
@@ -313,7 +568,42 @@ export default function DashboardPage() {
   });
   const [locationInput, setLocationInput] = useState("大阪駅");
   const [currentLocation, setCurrentLocation] = useState("大阪駅");
+  // Set while the briefing starts from the browser's position
+  const [currentCoordinates, setCurrentCoordinates] =
+    useState<Coordinates | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [placeSuggestions, setPlaceSuggestions] = useState<PlaceSuggestion[]>(
+    [],
+  );
   const [forceRefresh, setForceRefresh] = useState(false);
+  const [briefingDay, setBriefingDay] = useState<"today" | "tomorrow">("today");
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [placesStatus, setPlacesStatus] = useState<"loading" | "ready">(
+    "loading",
+  );
+  const [placeNameInput, setPlaceNameInput] = useState("");
+  const [isPlaceSaving, setIsPlaceSaving] = useState(false);
+  const [mappingAddressInput, setMappingAddressInput] = useState("");
+  const [isMappingSaving, setIsMappingSaving] = useState(false);
+  const [routePreference, setRoutePreference] =
+    useState<RoutePreference>("fastest");
+  const [isRoutePreferenceSaving, setIsRoutePreferenceSaving] = useState(false);
+  const [defaultMode, setDefaultMode] = useState<TravelMode>("transit");
+  const [weatherPreferences, setWeatherPreferences] =
+    useState<WeatherPreferences | null>(null);
+  const [weatherPreferenceDraft, setWeatherPreferenceDraft] = useState<Record<
+    keyof WeatherPreferences,
+    string
+  > | null>(null);
+  const [isWeatherPreferenceSaving, setIsWeatherPreferenceSaving] =
+    useState(false);
+  const [calendars, setCalendars] = useState<CalendarListEntry[]>([]);
+  const [calendarReconnectRequired, setCalendarReconnectRequired] =
+    useState(false);
+  const [isCalendarSaving, setIsCalendarSaving] = useState(false);
+  const [weatherPreferenceError, setWeatherPreferenceError] = useState<
+    string | null
+  >(null);
   const [upcomingTaskEvents, setUpcomingTaskEvents] = useState<
     DecomposedTaskEvent[]
   >([]);
@@ -393,7 +683,127 @@ export default function DashboardPage() {
   }, []);
 
   useEffect(() => {
-    if (routineStatus === "loading") {
+    let active = true;
+
+    fetchTransitPreferences()
+      .then((response) => {
+        if (active) {
+          setRoutePreference(response.routePreference);
+          setDefaultMode(response.defaultMode);
+        }
+      })
+      .catch(() => {
+        // Keep the default ranking; the briefing still works without it.
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+
+    fetchWeatherPreferences()
+      .then((response) => {
+        if (active) {
+          setWeatherPreferences(response);
+        }
+      })
+      .catch(() => {
+        // The settings stay hidden; the briefing uses the server defaults.
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+
+    fetchCalendarList()
+      .then((response) => {
+        if (active) {
+          setCalendars(response.calendars);
+          setCalendarReconnectRequired(response.reconnectRequired);
+        }
+      })
+      .catch(() => {
+        // No picker; the briefing keeps reading the saved calendars.
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+
+    fetchSavedPlaces()
+      .then((places) => {
+        if (!active) {
+          return;
+        }
+        setSavedPlaces(places);
+        // Start from the default origin instead of the built-in station
+        const origin = places.find((place) => place.isDefaultOrigin);
+        if (origin) {
+          setLocationInput(origin.name);
+          setCurrentLocation(origin.name);
+        }
+      })
+      .catch(() => {
+        // Saved places are optional; free-text locations still work.
+      })
+      .finally(() => {
+        if (active) {
+          setPlacesStatus("ready");
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const query = locationInput.trim();
+    if (query.length === 0 || query === currentLocation) {
+      setPlaceSuggestions([]);
+      return;
+    }
+
+    let active = true;
+    const timeoutId = window.setTimeout(() => {
+      fetchPlaceSuggestions(query)
+        .then((suggestions) => {
+          if (active) {
+            setPlaceSuggestions(suggestions);
+          }
+        })
+        .catch(() => {
+          // Suggestions are optional; free-text locations still work.
+        });
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      active = false;
+      window.clearTimeout(timeoutId);
+    };
+  }, [currentLocation, locationInput]);
+
+  useEffect(() => {
+    // From 23:00 the night-before check is what matters
+    const jstHour = new Date(Date.now() + JST_OFFSET_MS).getUTCHours();
+    if (jstHour >= 23) {
+      setBriefingDay("tomorrow");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (routineStatus === "loading" || placesStatus === "loading") {
       return;
     }
 
@@ -402,7 +812,14 @@ export default function DashboardPage() {
     setTaskEventsStatus("loading");
 
     Promise.allSettled([
-      fetchMorningBriefing(currentLocation, routineTotalMinutes, forceRefresh),
+      // The backend names the position when coordinates are sent
+      fetchMorningBriefing(
+        currentCoordinates ? "" : currentLocation,
+        routineTotalMinutes,
+        forceRefresh,
+        currentCoordinates ?? undefined,
+        briefingDay === "tomorrow" ? jstDateAfter(1) : undefined,
+      ),
       getTaskWorkflowHistory(50),
     ])
       .then(([briefingResult, workflowResult]) => {
@@ -451,7 +868,15 @@ export default function DashboardPage() {
     return () => {
       active = false;
     };
-  }, [currentLocation, forceRefresh, routineStatus, routineTotalMinutes]);
+  }, [
+    briefingDay,
+    currentCoordinates,
+    currentLocation,
+    forceRefresh,
+    placesStatus,
+    routineStatus,
+    routineTotalMinutes,
+  ]);
 
   const clearAlarmTimeout = useCallback(() => {
     if (alarmTimeoutRef.current !== null) {
@@ -591,14 +1016,51 @@ export default function DashboardPage() {
   }, [clearAlarmTimeout, stopAlarmSound]);
 
   const urgent = state.data?.urgent ?? null;
-  const departure = urgent?.leaveBy ?? "--:--";
+  // Without a route the briefing times only fall back to the event start
+  const routeUnavailable = Boolean(urgent?.routeError);
+  const departure = routeUnavailable ? "--:--" : (urgent?.leaveBy ?? "--:--");
   const lateRisk = urgent?.lateRiskPercent ?? 0;
   const slack = urgent?.slackMinutes ?? 0;
-  const transitSummary = urgent?.route?.summary ?? "経路情報なし";
+  const transitSummary = routeUnavailable
+    ? ROUTE_UNAVAILABLE_TEXT
+    : (urgent?.route?.summary ?? "経路情報なし");
+  const transitDetailText = describeRouteDetails(urgent?.route ?? null);
+  const backupNote = urgent?.backupNote ?? null;
+  const earlierLeaveBy = routeUnavailable
+    ? null
+    : (urgent?.earlierLeaveBy ?? null);
+  const disruptionNotes = urgent?.disruptionNotes ?? [];
+  const rainShift = routeUnavailable ? null : (state.data?.rainShift ?? null);
+  const returnTrip = state.data?.returnTrip ?? null;
+  // Ambiguous event locations are asked about one at a time
+  const unconfirmedLocation = state.data?.unconfirmedLocations?.[0] ?? null;
+  const weatherWarnings = state.data?.weatherWarnings ?? [];
+  // 注意報 alone is listed in the weather card; a 警報 asks for a plan check
+  const severeWarnings = weatherWarnings.filter(
+    (warning) => warning.level !== "advisory",
+  );
+  const advisoryNotes = weatherWarnings
+    .filter((warning) => warning.level === "advisory")
+    .map(describeWeatherWarning);
+  const fareText = describeFare(urgent?.route ?? null);
+  const dailyFare = state.data?.dailyFare ?? null;
+  const dailyFareSuffix =
+    dailyFare && dailyFare.routesWithoutFare > 0 ? "（一部未計算）" : "";
+  // The total is shown once the day has more than one ride (home counts)
+  const rideCount =
+    (state.data?.briefings.length ?? 0) +
+    (state.data?.returnTrip?.route ? 1 : 0);
+  const dailyFareText =
+    dailyFare && rideCount > 1
+      ? `本日の運賃合計 IC ${formatYen(dailyFare.icYen)}${dailyFareSuffix}`
+      : null;
   const transitMinutes = urgent?.transitMinutes ?? 0;
   const weather = state.data?.weather ?? null;
+  const clothing = state.data?.clothing ?? null;
+  const outdoor = weather?.outdoor ?? null;
+  const weatherHours = state.data?.weatherTimeline?.hours ?? [];
   const wakeupTiming = useMemo(() => {
-    if (!urgent) {
+    if (!urgent || urgent.routeError) {
       return null;
     }
 
@@ -607,8 +1069,18 @@ export default function DashboardPage() {
       return null;
     }
 
-    const safeTransitMinutes = Math.max(0, Math.trunc(urgent.transitMinutes));
-    const leaveMs = eventStartMs - safeTransitMinutes * 60 * 1000;
+    // Prefer the timetabled departure; older cached briefings only carry
+    // the duration.
+    const scheduledLeaveMs = new Date(
+      urgent.leaveAt ?? urgent.route?.departureAt ?? "",
+    ).getTime();
+    const safeTransitMinutes = Math.max(
+      0,
+      Math.trunc(urgent.transitMinutes ?? 0),
+    );
+    const leaveMs = Number.isFinite(scheduledLeaveMs)
+      ? scheduledLeaveMs
+      : eventStartMs - safeTransitMinutes * 60 * 1000;
     const wakeMs = leaveMs - routineTotalMinutes * 60 * 1000;
     if (!Number.isFinite(wakeMs)) {
       return null;
@@ -620,7 +1092,10 @@ export default function DashboardPage() {
       wakeLabel: toJstHHmm(new Date(wakeMs).toISOString()),
     };
   }, [routineTotalMinutes, urgent]);
-  const wakeUpTime = wakeupTiming?.wakeLabel ?? urgent?.wakeUpBy ?? "--:--";
+  const wakeUpTime =
+    wakeupTiming?.wakeLabel ??
+    (routeUnavailable ? null : urgent?.wakeUpBy) ??
+    "--:--";
   const wakeupAlarmPlan = useMemo(() => {
     if (!wakeupTiming) {
       return null;
@@ -738,7 +1213,7 @@ export default function DashboardPage() {
     stopAlarmSound();
     setAlarmStatus("idle");
 
-    const guidance = buildWakeupSpeech(urgent, weather);
+    const guidance = buildWakeupSpeech(urgent, weather, clothing, rainShift);
     setLastGuidanceText(guidance);
     const spoken = speakBriefing(guidance);
     if (!spoken) {
@@ -746,7 +1221,7 @@ export default function DashboardPage() {
         "読み上げに対応していないブラウザです。案内文のみ表示します。",
       );
     }
-  }, [speakBriefing, stopAlarmSound, urgent, weather]);
+  }, [clothing, rainShift, speakBriefing, stopAlarmSound, urgent, weather]);
 
   const handleOpenRoutineEditor = useCallback(() => {
     setRoutineDraft(morningRoutine.map((item) => ({ ...item })));
@@ -884,13 +1359,266 @@ export default function DashboardPage() {
       );
   }, [state.data]);
 
+  const itineraryByEventId = useMemo(() => {
+    const byId = new Map<string, ItineraryLeg>();
+    for (const leg of state.data?.itinerary ?? []) {
+      byId.set(leg.toEventId, leg);
+    }
+    return byId;
+  }, [state.data]);
+
+  const handleRoutePreferenceChange = async (next: RoutePreference) => {
+    if (next === routePreference || isRoutePreferenceSaving) {
+      return;
+    }
+
+    const previous = routePreference;
+    setRoutePreference(next);
+    setIsRoutePreferenceSaving(true);
+    try {
+      const response = await updateTransitPreferences({
+        routePreference: next,
+      });
+      setRoutePreference(response.routePreference);
+      setForceRefresh(true);
+    } catch {
+      setRoutePreference(previous);
+    } finally {
+      setIsRoutePreferenceSaving(false);
+    }
+  };
+
+  const handleDefaultModeChange = async (next: TravelMode) => {
+    if (next === defaultMode || isRoutePreferenceSaving) {
+      return;
+    }
+
+    const previous = defaultMode;
+    setDefaultMode(next);
+    setIsRoutePreferenceSaving(true);
+    try {
+      const response = await updateTransitPreferences({ defaultMode: next });
+      setDefaultMode(response.defaultMode);
+      setForceRefresh(true);
+    } catch {
+      setDefaultMode(previous);
+    } finally {
+      setIsRoutePreferenceSaving(false);
+    }
+  };
+
+  const handleCalendarToggle = async (calendarId: string) => {
+    if (isCalendarSaving) {
+      return;
+    }
+
+    const next = calendars
+      .filter((calendar) =>
+        calendar.id === calendarId ? !calendar.selected : calendar.selected,
+      )
+      .map((calendar) => calendar.id);
+    // At least one calendar feeds the briefing
+    if (next.length === 0) {
+      return;
+    }
+
+    setIsCalendarSaving(true);
+    try {
+      const response = await updateCalendarSelection(next);
+      setCalendars(response.calendars);
+      setCalendarReconnectRequired(response.reconnectRequired);
+      setForceRefresh(true);
+    } catch {
+      // Keep the previous selection
+    } finally {
+      setIsCalendarSaving(false);
+    }
+  };
+
+  const openWeatherPreferences = () => {
+    if (!weatherPreferences) {
+      return;
+    }
+    setWeatherPreferenceError(null);
+    setWeatherPreferenceDraft({
+      umbrellaProbability: String(weatherPreferences.umbrellaProbability),
+      umbrellaMm: String(weatherPreferences.umbrellaMm),
+      foldingUmbrellaProbability: String(
+        weatherPreferences.foldingUmbrellaProbability,
+      ),
+      heatstrokeWbgt: String(weatherPreferences.heatstrokeWbgt),
+      coldApparentTemperature: String(
+        weatherPreferences.coldApparentTemperature,
+      ),
+    });
+  };
+
+  const handleSaveWeatherPreferences = async () => {
+    if (!weatherPreferenceDraft || isWeatherPreferenceSaving) {
+      return;
+    }
+
+    const update: Partial<WeatherPreferences> = {};
+    for (const { key } of WEATHER_PREFERENCE_FIELDS) {
+      const value = Number(weatherPreferenceDraft[key]);
+      if (weatherPreferenceDraft[key].trim() === "" || Number.isNaN(value)) {
+        setWeatherPreferenceError("数値を入力してください。");
+        return;
+      }
+      update[key] = value;
+    }
+
+    setIsWeatherPreferenceSaving(true);
+    setWeatherPreferenceError(null);
+    try {
+      const response = await updateWeatherPreferences(update);
+      setWeatherPreferences(response);
+      setWeatherPreferenceDraft(null);
+      setForceRefresh(true);
+    } catch {
+      setWeatherPreferenceError(
+        "保存できませんでした。範囲（折りたたみ傘は傘以下）を確認してください。",
+      );
+    } finally {
+      setIsWeatherPreferenceSaving(false);
+    }
+  };
+
   const applyLocation = () => {
     const next = locationInput.trim() || "大阪駅";
     setLocationInput(next);
     setCurrentLocation(next);
+    setCurrentCoordinates(null);
+    setForceRefresh(true);
+  };
+
+  const applyDeviceLocation = () => {
+    if (!("geolocation" in navigator) || isLocating) {
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCurrentCoordinates({
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+        });
+        setLocationInput("");
+        setForceRefresh(true);
+        setIsLocating(false);
+      },
+      () => {
+        // Permission denied or no fix: keep the typed location.
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 10_000, maximumAge: 60_000 },
+    );
+  };
+
+  const selectSuggestion = (suggestion: PlaceSuggestion) => {
+    setLocationInput(suggestion.value);
+    setCurrentLocation(suggestion.value);
+    setCurrentCoordinates(null);
+    setForceRefresh(true);
+  };
+
+  const selectSavedPlace = (place: SavedPlace) => {
+    setLocationInput(place.name);
+    setCurrentLocation(place.name);
+    setCurrentCoordinates(null);
     setForceRefresh(true);
   };
 
+  const handleSavePlace = async () => {
+    const name = placeNameInput.trim();
+    // A geolocated position is saved under its reverse-geocoded name
+    const address = currentCoordinates
+      ? (state.data?.currentLocation ?? "")
+      : locationInput.trim();
+    if (name.length === 0 || address.length === 0 || isPlaceSaving) {
+      return;
+    }
+
+    setIsPlaceSaving(true);
+    try {
+      const place = await createSavedPlace({
+        name,
+        aliases: [],
+        address,
+        lat: currentCoordinates?.lat ?? null,
+        lon: currentCoordinates?.lon ?? null,
+        // The first saved place becomes the default origin
+        isDefaultOrigin: savedPlaces.length === 0,
+      });
+      setSavedPlaces((prev) => [...prev, place]);
+      setPlaceNameInput("");
+    } catch {
+      // Keep the input so the user can retry.
+    } finally {
+      setIsPlaceSaving(false);
+    }
+  };
+
+  const handleSetDefaultOrigin = async (target: SavedPlace) => {
+    if (target.isDefaultOrigin || isPlaceSaving) {
+      return;
+    }
+
+    setIsPlaceSaving(true);
+    try {
+      const { id, ...input } = target;
+      const updated = await updateSavedPlace(id, {
+        ...input,
+        isDefaultOrigin: true,
+      });
+      setSavedPlaces((prev) =>
+        prev.map((place) =>
+          place.id === updated.id
+            ? updated
+            : { ...place, isDefaultOrigin: false },
+        ),
+      );
+    } catch {
+      // Leave the previous default in place.
+    } finally {
+      setIsPlaceSaving(false);
+    }
+  };
+
+  const handleDeletePlace = async (target: SavedPlace) => {
+    if (isPlaceSaving) {
+      return;
+    }
+
+    setIsPlaceSaving(true);
+    try {
+      await deleteSavedPlace(target.id);
+      setSavedPlaces((prev) => prev.filter((place) => place.id !== target.id));
+    } catch {
+      // The place stays listed when deletion failed.
+    } finally {
+      setIsPlaceSaving(false);
+    }
+  };
+
+  const handleConfirmLocation = async (location: string, address: string) => {
+    if (address.trim().length === 0 || isMappingSaving) {
+      return;
+    }
+
+    setIsMappingSaving(true);
+    try {
+      await saveLocationMapping(location, address.trim());
+      setMappingAddressInput("");
+      setForceRefresh(true);
+    } catch {
+      // Keep the input so the user can retry.
+    } finally {
+      setIsMappingSaving(false);
+    }
+  };
+
   return (
     <Box
       minH="100dvh"
@@ -917,8 +1645,47 @@ export default function DashboardPage() {
               <Button asChild size="xs" variant="outline">
                 <NextLink href="/task-decomp">タスク細分化へ</NextLink>
               </Button>
+              <HStack gap={1} ml="auto">
+                {(["today", "tomorrow"] as const).map((day) => (
+                  <Button
+                    key={day}
+                    size="xs"
+                    variant={briefingDay === day ? "solid" : "outline"}
+                    colorPalette="blue"
+                    onClick={() => setBriefingDay(day)}
+                  >
+                    {day === "today" ? "今日" : "明日"}
+                  </Button>
+                ))}
+              </HStack>
             </HStack>
 
+            {severeWarnings.length > 0 ? (
+              <Box
+                p={4}
+                borderRadius="lg"
+                bg="red.50"
+                borderWidth="1px"
+                borderColor="red.300"
+                role="alert"
+              >
+                <Text color="red.700" fontSize="lg" fontWeight="bold">
+                  ⚠ 予定の確認を
+                </Text>
+                {severeWarnings.map((warning) => (
+                  <Text
+                    key={describeWeatherWarning(warning)}
+                    mt={1}
+                    color="red.700"
+                    fontSize="sm"
+                  >
+                    {describeWeatherWarning(warning)}
+                    {warning.message ? `：${warning.message}` : ""}
+                  </Text>
+                ))}
+              </Box>
+            ) : null}
+
             <Card>
               <HStack
                 justify="center"
@@ -949,10 +1716,166 @@ export default function DashboardPage() {
                 >
                   更新
                 </Button>
+                <Button
+                  size="md"
+                  minW={{ base: "100%", sm: "84px" }}
+                  variant="outline"
+                  colorPalette="gray"
+                  disabled={isLocating}
+                  onClick={applyDeviceLocation}
+                >
+                  {isLocating ? "取得中…" : "現在地を使う"}
+                </Button>
               </HStack>
+              {placeSuggestions.length > 0 ? (
+                <Stack
+                  gap={0}
+                  mt={1}
+                  borderWidth="1px"
+                  borderColor="gray.200"
+                  borderRadius="md"
+                  bg="white"
+                >
+                  {placeSuggestions.map((suggestion) => (
+                    <Button
+                      key={`${suggestion.kind}:${suggestion.id}`}
+                      size="sm"
+                      variant="ghost"
+                      colorPalette="gray"
+                      justifyContent="flex-start"
+                      onClick={() => selectSuggestion(suggestion)}
+                    >
+                      {describePlaceSuggestion(suggestion)}
+                    </Button>
+                  ))}
+                </Stack>
+              ) : null}
               <Text color="gray.500" fontSize="xs" mt={2}>
-                現在地: {currentLocation}
+                現在地:{" "}
+                {currentCoordinates
+                  ? `位置情報（${state.data?.currentLocation ?? "取得中"}）`
+                  : currentLocation}
               </Text>
+              <HStack gap={1} mt={2} flexWrap="wrap">
+                {savedPlaces.map((place) => (
+                  <HStack key={place.id} gap={0}>
+                    <Button
+                      size="xs"
+                      variant={
+                        !currentCoordinates && place.name === currentLocation
+                          ? "solid"
+                          : "outline"
+                      }
+                      colorPalette="gray"
+                      onClick={() => selectSavedPlace(place)}
+                    >
+                      {place.isDefaultOrigin ? `★${place.name}` : place.name}
+                    </Button>
+                    {place.isDefaultOrigin ? null : (
+                      <Button
+                        size="xs"
+                        variant="ghost"
+                        colorPalette="gray"
+                        aria-label={`${place.name}を既定の出発地にする`}
+                        disabled={isPlaceSaving}
+                        onClick={() => {
+                          void handleSetDefaultOrigin(place);
+                        }}
+                      >
+                        ☆
+                      </Button>
+                    )}
+                    <Button
+                      size="xs"
+                      variant="ghost"
+                      colorPalette="gray"
+                      aria-label={`${place.name}を削除`}
+                      disabled={isPlaceSaving}
+                      onClick={() => {
+                        void handleDeletePlace(place);
+                      }}
+                    >
+                      ×
+                    </Button>
+                  </HStack>
+                ))}
+                <Input
+                  value={placeNameInput}
+                  onChange={(e) => setPlaceNameInput(e.target.value)}
+                  size="xs"
+                  w="140px"
+                  bg="white"
+                  borderColor="gray.300"
+                  placeholder="名前（例: 自宅）"
+                />
+                <Button
+                  size="xs"
+                  variant="outline"
+                  colorPalette="gray"
+                  disabled={isPlaceSaving || placeNameInput.trim().length === 0}
+                  onClick={() => {
+                    void handleSavePlace();
+                  }}
+                >
+                  この場所を保存
+                </Button>
+              </HStack>
+              {unconfirmedLocation ? (
+                <Box
+                  mt={3}
+                  p={3}
+                  borderRadius="md"
+                  bg="orange.50"
+                  borderWidth="1px"
+                  borderColor="orange.200"
+                >
+                  <Text color="orange.800" fontSize="sm" fontWeight="medium">
+                    予定の場所「{unconfirmedLocation}」の住所は？
+                  </Text>
+                  <HStack gap={2} mt={2} flexWrap="wrap">
+                    <Input
+                      value={mappingAddressInput}
+                      onChange={(e) => setMappingAddressInput(e.target.value)}
+                      size="sm"
+                      flex="1"
+                      minW="180px"
+                      bg="white"
+                      borderColor="gray.300"
+                      placeholder="住所や駅名（例: 大阪市北区梅田1-1-1）"
+                    />
+                    <Button
+                      size="sm"
+                      colorPalette="orange"
+                      disabled={
+                        isMappingSaving ||
+                        mappingAddressInput.trim().length === 0
+                      }
+                      onClick={() => {
+                        void handleConfirmLocation(
+                          unconfirmedLocation,
+                          mappingAddressInput,
+                        );
+                      }}
+                    >
+                      覚える
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      colorPalette="gray"
+                      disabled={isMappingSaving}
+                      onClick={() => {
+                        void handleConfirmLocation(
+                          unconfirmedLocation,
+                          unconfirmedLocation,
+                        );
+                      }}
+                    >
+                      このままでOK
+                    </Button>
+                  </HStack>
+                </Box>
+              ) : null}
             </Card>
 
             <Grid
@@ -972,7 +1895,9 @@ export default function DashboardPage() {
                       fontSize={{ base: "sm", md: "md" }}
                       letterSpacing="0.08em"
                     >
-                      出発時刻
+                      {briefingDay === "tomorrow"
+                        ? "明日の出発時刻"
+                        : "出発時刻"}
                     </Text>
                     <Text
                       fontSize={{ base: "5xl", md: "7xl" }}
@@ -982,25 +1907,35 @@ export default function DashboardPage() {
                     >
                       {departure}
                     </Text>
-                    <HStack
-                      gap={3}
-                      flexWrap="wrap"
-                      color="gray.600"
-                      fontSize={{ base: "md", md: "lg" }}
-                    >
-                      <Text>
-                        遅刻リスク{" "}
-                        <Text
-                          as="span"
-                          color={lateRisk >= 60 ? "red.600" : "green.700"}
-                          fontWeight="semibold"
-                        >
-                          {lateRisk}%
-                        </Text>
+                    {routeUnavailable ? (
+                      <Text
+                        color="red.600"
+                        fontSize={{ base: "md", md: "lg" }}
+                        fontWeight="semibold"
+                      >
+                        {ROUTE_UNAVAILABLE_TEXT}
                       </Text>
-                      <Text>移動 {transitMinutes}分</Text>
-                      <Text>余裕 {Math.max(0, slack)}分</Text>
-                    </HStack>
+                    ) : (
+                      <HStack
+                        gap={3}
+                        flexWrap="wrap"
+                        color="gray.600"
+                        fontSize={{ base: "md", md: "lg" }}
+                      >
+                        <Text>
+                          遅刻リスク{" "}
+                          <Text
+                            as="span"
+                            color={lateRisk >= 60 ? "red.600" : "green.700"}
+                            fontWeight="semibold"
+                          >
+                            {lateRisk}%
+                          </Text>
+                        </Text>
+                        <Text>移動 {transitMinutes}分</Text>
+                        <Text>余裕 {Math.max(0, slack)}分</Text>
+                      </HStack>
+                    )}
                     <Text
                       color="gray.500"
                       fontSize={{ base: "sm", md: "md" }}
@@ -1264,9 +2199,87 @@ export default function DashboardPage() {
                   >
                     {truncateText(transitSummary, 22)}
                   </Text>
+                  {transitDetailText ? (
+                    <Text mt={1} color="gray.600" fontSize="sm">
+                      {transitDetailText}
+                    </Text>
+                  ) : null}
+                  {fareText ? (
+                    <Text mt={1} color="gray.600" fontSize="sm">
+                      {fareText}
+                    </Text>
+                  ) : null}
+                  {dailyFareText ? (
+                    <Text mt={1} color="gray.500" fontSize="xs">
+                      {dailyFareText}
+                    </Text>
+                  ) : null}
+                  {disruptionNotes.map((note) => (
+                    <Text key={note} mt={1} color="red.600" fontSize="sm">
+                      {note}
+                    </Text>
+                  ))}
+                  {backupNote ? (
+                    <Text mt={1} color="orange.700" fontSize="sm">
+                      {backupNote}
+                    </Text>
+                  ) : null}
                   <Text mt={1} color="gray.500" fontSize="sm">
                     推奨出発 {departure}
+                    {earlierLeaveBy ? `（余裕をもって ${earlierLeaveBy}）` : ""}
                   </Text>
+                  {rainShift ? (
+                    <Text mt={1} color="blue.600" fontSize="sm">
+                      ☔ {rainShift.note}
+                    </Text>
+                  ) : null}
+                  {returnTrip?.warning ? (
+                    <Text
+                      mt={1}
+                      color={
+                        returnTrip.missesLastTrain ? "red.600" : "purple.700"
+                      }
+                      fontSize="sm"
+                    >
+                      {returnTrip.warning}
+                    </Text>
+                  ) : null}
+                  <HStack gap={1} mt={2} flexWrap="wrap">
+                    {ROUTE_PREFERENCE_OPTIONS.map((option) => (
+                      <Button
+                        key={option.value}
+                        size="xs"
+                        variant={
+                          option.value === routePreference ? "solid" : "outline"
+                        }
+                        colorPalette="blue"
+                        disabled={isRoutePreferenceSaving}
+                        onClick={() => {
+                          void handleRoutePreferenceChange(option.value);
+                        }}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </HStack>
+                  <HStack gap={1} mt={1} flexWrap="wrap">
+                    {TRAVEL_MODE_OPTIONS.map((option) => (
+                      <Button
+                        key={option.value}
+                        size="xs"
+                        variant={
+                          option.value === defaultMode ? "solid" : "outline"
+                        }
+                        colorPalette="teal"
+                        disabled={isRoutePreferenceSaving}
+                        onClick={() => {
+                          void handleDefaultModeChange(option.value);
+                        }}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </HStack>
                 </Card>
               </GridItem>
 
@@ -1275,63 +2288,125 @@ export default function DashboardPage() {
                   <Text fontSize="md" color="gray.500" mb={2}>
                     今日の予定
                   </Text>
+                  {calendarReconnectRequired ? (
+                    <HStack gap={2} mb={3} flexWrap="wrap">
+                      <Text fontSize="sm" color="gray.500">
+                        カレンダーを選ぶにはGoogleとの再連携が必要です
+                      </Text>
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        colorPalette="gray"
+                        onClick={() => {
+                          signInWithGoogle(window.location.href).catch(() => {
+                            // Stay on the dashboard; the button can be retried
+                          });
+                        }}
+                      >
+                        Googleと再連携
+                      </Button>
+                    </HStack>
+                  ) : null}
+                  {calendars.length > 1 ? (
+                    <HStack gap={1} mb={3} flexWrap="wrap">
+                      {calendars.map((calendar) => (
+                        <Button
+                          key={calendar.id}
+                          size="xs"
+                          variant={calendar.selected ? "solid" : "outline"}
+                          colorPalette="gray"
+                          disabled={isCalendarSaving}
+                          onClick={() => {
+                            void handleCalendarToggle(calendar.id);
+                          }}
+                        >
+                          <Box
+                            w="8px"
+                            h="8px"
+                            borderRadius="full"
+                            bg={calendar.color ?? "green.500"}
+                            flexShrink={0}
+                          />
+                          {truncateText(calendar.summary, 12)}
+                        </Button>
+                      ))}
+                    </HStack>
+                  ) : null}
                   <Stack gap={3}>
                     {todayEvents.length === 0 ? (
                       <Text color="gray.500" fontSize="md">
                         予定はありません
                       </Text>
                     ) : (
-                      todayEvents.slice(0, TODAY_EVENTS_LIMIT).map((event) => (
-                        <HStack key={event.id} align="start" gap={3} w="full">
-                          <Box
-                            mt="6px"
-                            w="10px"
-                            h="10px"
-                            borderRadius="full"
-                            bg="green.500"
-                            flexShrink={0}
-                          />
-                          <Stack gap={1} minW={0} flex="1">
-                            <HStack gap={2}>
+                      todayEvents.slice(0, TODAY_EVENTS_LIMIT).map((event) => {
+                        const leg = itineraryByEventId.get(event.id);
+                        const legText = describeItineraryLeg(leg);
+                        return (
+                          <HStack key={event.id} align="start" gap={3} w="full">
+                            <Box
+                              mt="6px"
+                              w="10px"
+                              h="10px"
+                              borderRadius="full"
+                              bg={event.calendarColor ?? "green.500"}
+                              flexShrink={0}
+                            />
+                            <Stack gap={1} minW={0} flex="1">
+                              <HStack gap={2}>
+                                <Text
+                                  px={2}
+                                  py={0.5}
+                                  borderRadius="md"
+                                  bg="gray.100"
+                                  color="gray.700"
+                                  fontSize="sm"
+                                  fontWeight="semibold"
+                                  lineHeight={1.2}
+                                >
+                                  {toJstHHmm(event.start)}
+                                </Text>
+                                <Text fontSize="sm" color="gray.500">
+                                  {eventDurationMinutes(event.start, event.end)}
+                                  分
+                                </Text>
+                              </HStack>
                               <Text
-                                px={2}
-                                py={0.5}
-                                borderRadius="md"
-                                bg="gray.100"
-                                color="gray.700"
-                                fontSize="sm"
+                                fontSize={{ base: "lg", md: "xl" }}
                                 fontWeight="semibold"
-                                lineHeight={1.2}
+                                color="gray.800"
+                                lineHeight={1.3}
+                                overflow="hidden"
+                                textOverflow="ellipsis"
+                                whiteSpace="nowrap"
                               >
-                                {toJstHHmm(event.start)}
+                                {truncateText(event.summary, 26)}
                               </Text>
-                              <Text fontSize="sm" color="gray.500">
-                                {eventDurationMinutes(event.start, event.end)}分
+                              <Text
+                                fontSize={{ base: "sm", md: "md" }}
+                                color="gray.500"
+                                overflow="hidden"
+                                textOverflow="ellipsis"
+                                whiteSpace="nowrap"
+                              >
+                                {truncateText(
+                                  event.location ?? "場所未設定",
+                                  24,
+                                )}
                               </Text>
-                            </HStack>
-                            <Text
-                              fontSize={{ base: "lg", md: "xl" }}
-                              fontWeight="semibold"
-                              color="gray.800"
-                              lineHeight={1.3}
-                              overflow="hidden"
-                              textOverflow="ellipsis"
-                              whiteSpace="nowrap"
-                            >
-                              {truncateText(event.summary, 26)}
-                            </Text>
-                            <Text
-                              fontSize={{ base: "sm", md: "md" }}
-                              color="gray.500"
-                              overflow="hidden"
-                              textOverflow="ellipsis"
-                              whiteSpace="nowrap"
-                            >
-                              {truncateText(event.location ?? "場所未設定", 24)}
-                            </Text>
-                          </Stack>
-                        </HStack>
-                      ))
+                              {legText ? (
+                                <Text
+                                  fontSize="sm"
+                                  color={
+                                    leg?.impossible ? "red.600" : "gray.500"
+                                  }
+                                >
+                                  {legText}
+                                </Text>
+                              ) : null}
+                            </Stack>
+                          </HStack>
+                        );
+                      })
                     )}
                   </Stack>
                 </Card>
@@ -1433,9 +2508,84 @@ export default function DashboardPage() {
 
               <GridItem colSpan={{ base: 1, md: 2, xl: 4 }}>
                 <Card minH={{ base: "180px", md: "250px" }}>
-                  <Text fontSize="md" color="gray.500" mb={2}>
-                    天気
-                  </Text>
+                  <HStack justify="space-between" mb={2}>
+                    <Text fontSize="md" color="gray.500">
+                      天気
+                    </Text>
+                    {weatherPreferences && !weatherPreferenceDraft ? (
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        colorPalette="gray"
+                        onClick={openWeatherPreferences}
+                      >
+                        しきい値
+                      </Button>
+                    ) : null}
+                  </HStack>
+                  {weatherPreferenceDraft ? (
+                    <Stack
+                      gap={2}
+                      mb={3}
+                      p={3}
+                      borderRadius="md"
+                      bg="gray.50"
+                      borderWidth="1px"
+                      borderColor="gray.200"
+                    >
+                      {WEATHER_PREFERENCE_FIELDS.map((field) => (
+                        <HStack key={field.key} gap={2}>
+                          <Text flex="1" fontSize="sm" color="gray.700">
+                            {field.label}
+                          </Text>
+                          <Input
+                            value={weatherPreferenceDraft[field.key]}
+                            onChange={(e) =>
+                              setWeatherPreferenceDraft({
+                                ...weatherPreferenceDraft,
+                                [field.key]: e.target.value,
+                              })
+                            }
+                            type="number"
+                            inputMode="decimal"
+                            size="xs"
+                            w="72px"
+                            bg="white"
+                            borderColor="gray.300"
+                          />
+                          <Text w="72px" fontSize="xs" color="gray.500">
+                            {field.unit}
+                          </Text>
+                        </HStack>
+                      ))}
+                      {weatherPreferenceError ? (
+                        <Text fontSize="xs" color="red.600">
+                          {weatherPreferenceError}
+                        </Text>
+                      ) : null}
+                      <HStack gap={2} justify="flex-end">
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          colorPalette="gray"
+                          disabled={isWeatherPreferenceSaving}
+                          onClick={() => setWeatherPreferenceDraft(null)}
+                        >
+                          キャンセル
+                        </Button>
+                        <Button
+                          size="xs"
+                          colorPalette="blue"
+                          disabled={isWeatherPreferenceSaving}
+                          onClick={() => {
+                            void handleSaveWeatherPreferences();
+                          }}
+                        >
+                          保存
+                        </Button>
+                      </HStack>
+                    </Stack>
+                  ) : null}
                   <Grid
                     templateColumns={{ base: "1fr", sm: "1fr 1fr" }}
                     gap={3}
@@ -1443,7 +2593,11 @@ export default function DashboardPage() {
                   >
                     <HStack gap={3}>
                       <Text fontSize="3xl">
-                        {weather?.umbrellaNeeded ? "☔" : "☀️"}
+                        {weather?.umbrellaNeeded
+                          ? "☔"
+                          : weather?.umbrella === "folding"
+                            ? "🌂"
+                            : "☀️"}
                       </Text>
                       <Stack gap={0}>
                         <Text
@@ -1459,7 +2613,11 @@ export default function DashboardPage() {
                           fontSize={{ base: "md", md: "lg" }}
                           color="gray.600"
                         >
-                          {weather?.umbrellaNeeded ? "傘あり" : "晴れ"}
+                          {weather?.umbrellaNeeded
+                            ? "傘あり"
+                            : weather?.umbrella === "folding"
+                              ? "折りたたみ傘"
+                              : "晴れ"}
                         </Text>
                       </Stack>
                     </HStack>
@@ -1484,8 +2642,75 @@ export default function DashboardPage() {
                       <Text fontSize="sm" color="gray.500">
                         {weather?.reason ?? "天気情報なし"}
                       </Text>
+                      {clothing ? (
+                        <Text fontSize="sm" color="gray.700">
+                          👕 {clothing.summary}
+                        </Text>
+                      ) : null}
+                      {outdoor ? (
+                        <Text
+                          fontSize="sm"
+                          color={
+                            outdoor.advice.length > 0
+                              ? "orange.700"
+                              : "gray.700"
+                          }
+                        >
+                          🚶 {outdoor.summary}
+                          {outdoor.advice.length > 0
+                            ? ` — ${outdoor.advice.join("・")}`
+                            : ""}
+                        </Text>
+                      ) : null}
+                      {advisoryNotes.length > 0 ? (
+                        <Text fontSize="sm" color="orange.700">
+                          {advisoryNotes.join("、")}
+                        </Text>
+                      ) : null}
                     </Stack>
                   </Grid>
+                  {weatherHours.length > 0 ? (
+                    <HStack
+                      gap={1}
+                      mt={3}
+                      overflowX="auto"
+                      align="stretch"
+                      aria-label="時間ごとの天気"
+                    >
+                      {weatherHours.map((hour) => (
+                        <Stack
+                          key={hour.startIso}
+                          gap={0}
+                          minW="56px"
+                          px={1}
+                          py={1}
+                          borderRadius="md"
+                          bg={
+                            (hour.precipitationProbability ?? 0) >= 50
+                              ? "blue.50"
+                              : "gray.50"
+                          }
+                          textAlign="center"
+                          fontSize="xs"
+                          color="gray.600"
+                        >
+                          <Text fontWeight="medium" color="gray.700">
+                            {formatForecastHour(hour.startIso)}
+                          </Text>
+                          <Text fontSize="sm" color="gray.800">
+                            {formatRounded(hour.temperature, "°")}
+                          </Text>
+                          <Text>
+                            体感{formatRounded(hour.apparentTemperature, "°")}
+                          </Text>
+                          <Text>
+                            ☂{formatRounded(hour.precipitationProbability, "%")}
+                          </Text>
+                          <Text>風{formatRounded(hour.windSpeed, "m")}</Text>
+                        </Stack>
+                      ))}
+                    </HStack>
+                  ) : null}
                 </Card>
               </GridItem>
             </Grid>
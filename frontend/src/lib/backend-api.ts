@@ -40,6 +40,8 @@ export type CalendarTodayEvent = {
   start: string;
   end: string;
   isAllDay: boolean;
+  calendarId?: string;
+  calendarColor?: string | null;
 };
 
 export type CalendarTodayResponse = {
@@ -57,40 +59,184 @@ export async function fetchCalendarToday(): Promise<CalendarTodayResponse> {
   return (await res.json()) as CalendarTodayResponse;
 }
 
+export type CalendarListEntry = {
+  id: string;
+  summary: string;
+  color: string | null;
+  primary: boolean;
+  accessRole: string;
+  selected: boolean;
+};
+
+export type CalendarListResponse = {
+  calendars: CalendarListEntry[];
+  /** Google has to be connected again before the list can be read. */
+  reconnectRequired: boolean;
+};
+
+export async function fetchCalendarList(): Promise<CalendarListResponse> {
+  const res = await fetch(endpoint("/calendar/list"), {
+    credentials: "include",
+  });
+  if (!res.ok)
+    throw new Error(`Calendar list API: ${res.status} ${await res.text()}`);
+  return (await res.json()) as CalendarListResponse;
+}
+
+export async function updateCalendarSelection(
+  calendarIds: string[],
+): Promise<CalendarListResponse> {
+  const res = await fetch(endpoint("/calendar/selection"), {
+    method: "PUT",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ calendarIds }),
+  });
+  if (!res.ok)
+    throw new Error(`Calendar list API: ${res.status} ${await res.text()}`);
+  return (await res.json()) as CalendarListResponse;
+}
+
 // ---------------------------------------------------------------------------
 // Transit (Routes API)
 // ---------------------------------------------------------------------------
 
+/** WGS84 position from the browser Geolocation API. */
+export type Coordinates = {
+  lat: number;
+  lon: number;
+};
+
 export async function fetchTransitDirections(
   origin: string,
   destination: string,
   arrivalTime?: string,
+  departureTime?: string,
+  mode?: TravelMode,
+  originCoordinates?: Coordinates,
 ): Promise<unknown> {
   const res = await fetch(endpoint("/transit/directions"), {
     method: "POST",
     credentials: "include",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ origin, destination, arrivalTime }),
+    body: JSON.stringify({
+      origin,
+      originCoordinates,
+      destination,
+      arrivalTime,
+      departureTime,
+      mode,
+    }),
   });
   if (!res.ok)
     throw new Error(`Transit API: ${res.status} ${await res.text()}`);
   return res.json();
 }
 
+export type RoutePreference =
+  | "fastest"
+  | "fewest_transfers"
+  | "least_walking"
+  | "cheapest";
+
+export type TravelMode = "transit" | "walk" | "bicycle" | "taxi" | "car";
+
+export type TransitPreferencesResponse = {
+  routePreference: RoutePreference;
+  defaultMode: TravelMode;
+};
+
+export async function fetchTransitPreferences(): Promise<TransitPreferencesResponse> {
+  const res = await fetch(endpoint("/transit/preferences"), {
+    method: "GET",
+    credentials: "include",
+  });
+  if (!res.ok)
+    throw new Error(
+      `Transit preferences API: ${res.status} ${await res.text()}`,
+    );
+  return (await res.json()) as TransitPreferencesResponse;
+}
+
+export async function updateTransitPreferences(
+  update: Partial<TransitPreferencesResponse>,
+): Promise<TransitPreferencesResponse> {
+  const res = await fetch(endpoint("/transit/preferences"), {
+    method: "PUT",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+  if (!res.ok)
+    throw new Error(
+      `Transit preferences API: ${res.status} ${await res.text()}`,
+    );
+  return (await res.json()) as TransitPreferencesResponse;
+}
+
+export type WeatherPreferences = {
+  umbrellaProbability: number;
+  umbrellaMm: number;
+  foldingUmbrellaProbability: number;
+  heatstrokeWbgt: number;
+  coldApparentTemperature: number;
+};
+
+export async function fetchWeatherPreferences(): Promise<WeatherPreferences> {
+  const res = await fetch(endpoint("/weather/preferences"), {
+    method: "GET",
+    credentials: "include",
+  });
+  if (!res.ok)
+    throw new Error(
+      `Weather preferences API: ${res.status} ${await res.text()}`,
+    );
+  return (await res.json()) as WeatherPreferences;
+}
+
+export async function updateWeatherPreferences(
+  update: Partial<WeatherPreferences>,
+): Promise<WeatherPreferences> {
+  const res = await fetch(endpoint("/weather/preferences"), {
+    method: "PUT",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+  if (!res.ok)
+    throw new Error(
+      `Weather preferences API: ${res.status} ${await res.text()}`,
+    );
+  return (await res.json()) as WeatherPreferences;
+}
+
 // ---------------------------------------------------------------------------
 // Morning Briefing (Calendar + Transit + Weather)
 // ---------------------------------------------------------------------------
 
+/**
+ * With `currentCoordinates` the briefing routes from that position; pass an
+ * empty `currentLocation` to have the backend name it (reverse geocoding).
+ * `date` ("YYYY-MM-DD", JST) briefs another day, e.g. tomorrow.
+ */
 export async function fetchMorningBriefing(
   currentLocation: string,
   prepMinutes?: number,
   forceRefresh?: boolean,
+  currentCoordinates?: Coordinates,
+  date?: string,
 ): Promise<unknown> {
   const res = await fetch(endpoint("/briefing/morning"), {
     method: "POST",
     credentials: "include",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ currentLocation, prepMinutes, forceRefresh }),
+    body: JSON.stringify({
+      currentLocation,
+      currentCoordinates,
+      prepMinutes,
+      date,
+      forceRefresh,
+    }),
   });
   if (!res.ok)
     throw new Error(`Briefing API: ${res.status} ${await res.text()}`);
@@ -134,3 +280,116 @@ export async function updateMorningRoutine(
     throw new Error(`Routine API: ${res.status} ${await res.text()}`);
   return (await res.json()) as MorningRoutineResponse;
 }
+
+// ---------------------------------------------------------------------------
+// Saved places (D1 persisted)
+// ---------------------------------------------------------------------------
+
+export type SavedPlace = {
+  id: string;
+  name: string;
+  aliases: string[];
+  address: string;
+  lat: number | null;
+  lon: number | null;
+  isDefaultOrigin: boolean;
+};
+
+export type SavedPlaceInput = Omit<SavedPlace, "id">;
+
+export async function fetchSavedPlaces(): Promise<SavedPlace[]> {
+  const res = await fetch(endpoint("/places"), {
+    method: "GET",
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(`Places API: ${res.status} ${await res.text()}`);
+  return ((await res.json()) as { places: SavedPlace[] }).places;
+}
+
+export async function createSavedPlace(
+  input: SavedPlaceInput,
+): Promise<SavedPlace> {
+  const res = await fetch(endpoint("/places"), {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw new Error(`Places API: ${res.status} ${await res.text()}`);
+  return ((await res.json()) as { place: SavedPlace }).place;
+}
+
+export async function updateSavedPlace(
+  id: string,
+  input: SavedPlaceInput,
+): Promise<SavedPlace> {
+  const res = await fetch(endpoint(`/places/${encodeURIComponent(id)}`), {
+    method: "PUT",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw new Error(`Places API: ${res.status} ${await res.text()}`);
+  return ((await res.json()) as { place: SavedPlace }).place;
+}
+
+export async function deleteSavedPlace(id: string): Promise<void> {
+  const res = await fetch(endpoint(`/places/${encodeURIComponent(id)}`), {
+    method: "DELETE",
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(`Places API: ${res.status} ${await res.text()}`);
+}
+
+/** A location-field candidate from `GET /places/autocomplete`. */
+export type PlaceSuggestion = {
+  id: string;
+  kind: "saved" | "station" | "landmark";
+  name: string;
+  reading: string | null;
+  lines: string[];
+  /** Text to put in the location field (routes unambiguously). */
+  value: string;
+  lat: number | null;
+  lon: number | null;
+};
+
+export async function fetchPlaceSuggestions(
+  query: string,
+): Promise<PlaceSuggestion[]> {
+  const res = await fetch(
+    endpoint(`/places/autocomplete?q=${encodeURIComponent(query)}`),
+    {
+      method: "GET",
+      credentials: "include",
+    },
+  );
+  if (!res.ok) throw new Error(`Places API: ${res.status} ${await res.text()}`);
+  return ((await res.json()) as { suggestions: PlaceSuggestion[] }).suggestions;
+}
+
+// ---------------------------------------------------------------------------
+// Location mappings (answers for ambiguous event locations, D1 persisted)
+// ---------------------------------------------------------------------------
+
+export type LocationMapping = {
+  location: string;
+  address: string;
+  updatedAt: string;
+};
+
+/** Route `location` to `address` from now on (same value = keep as-is). */
+export async function saveLocationMapping(
+  location: string,
+  address: string,
+): Promise<LocationMapping> {
+  const res = await fetch(endpoint("/location-mappings"), {
+    method: "PUT",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ location, address }),
+  });
+  if (!res.ok)
+    throw new Error(`Location mapping API: ${res.status} ${await res.text()}`);
+  return ((await res.json()) as { mapping: LocationMapping }).mapping;
+}
@@ -45,11 +45,12 @@ type BriefingEvent = {
 type EventBriefing = {
   event: BriefingEvent;
   destination: string;
-  transitMinutes: number;
-  leaveBy: string;
-  wakeUpBy: string;
-  slackMinutes: number;
-  lateRiskPercent: number;
+  // null when the route lookup failed
+  transitMinutes: number | null;
+  leaveBy: string | null;
+  wakeUpBy: string | null;
+  slackMinutes: number | null;
+  lateRiskPercent: number | null;
 };
 
 type MorningBriefingResult = {
@@ -138,7 +139,7 @@ export async function getMorningDashboard(options?: {
     });
   }
 
-  if (urgent && urgent.lateRiskPercent >= 60) {
+  if (urgent?.lateRiskPercent != null && urgent.lateRiskPercent >= 60) {
     overrides.push({
       date: raw.date,
       note: `遅刻リスク ${urgent.lateRiskPercent}% — 早めの行動がおすすめ`,